@@ -6,6 +6,10 @@ import type { PanelDefinition, PanelContextValue } from './types';
 
 // Export component props types for external use
 export type { SkillsListPanelProps };
+export type { SkillDiscoveryRoot } from './panels/skills/utils/discoveryRoots';
+export { DEFAULT_SKILL_ROOTS } from './panels/skills/utils/discoveryRoots';
+export { EDITOR_REVEAL_LINE_EVENT } from './types';
+export type { EditorRevealLinePayload } from './types';
 
 /**
  * Export array of panel definitions.
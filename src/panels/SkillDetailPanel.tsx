@@ -1,26 +1,101 @@
-import React, { useState, useEffect, useRef } from 'react';
-import type { PanelComponentProps } from '../types';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import type { PanelComponentProps, EditorRevealLinePayload } from '../types';
+import { EDITOR_REVEAL_LINE_EVENT } from '../types';
 import { useSkillsData } from './skills/hooks/useSkillsData';
-import type { Skill } from './skills/hooks/useSkillsData';
-import { SkillMarkdown } from 'themed-markdown';
-import type { ParsedSkill } from '@principal-ade/markdown-utils';
+import { useSkillDetails } from './skills/hooks/useSkillDetails';
+import { usePersistedViewState } from './skills/hooks/usePersistedViewState';
+import type { Skill, SkillDiagnostic, SkillDiscoveryRoot } from './skills/hooks/useSkillsData';
+import { SkillDiagnosticsList } from './skills/components/SkillDiagnosticsList';
+import { SkillShadowedBanner } from './skills/components/SkillShadowedBanner';
+import { SkillIntegrityReport } from './skills/components/SkillIntegrityReport';
+import { getLoadPhaseLabel } from './skills/components/SkillLoadErrorsList';
+import { SkillFileExplorer } from './skills/components/SkillFileExplorer';
+import { SkillEditor } from './skills/components/SkillEditor';
+import { SkillFrontmatterProperties } from './skills/components/SkillFrontmatterProperties';
+import { toFileSystemPath } from './skills/utils/paths';
+import { parseFrontmatter } from './skills/utils/frontmatter';
+import { DocumentView } from 'themed-markdown';
 import { useTheme } from '@principal-ade/industry-theme';
 import { usePanelFocusListener } from '@principal-ade/panel-layouts';
-import { Code, BookOpen, Package } from 'lucide-react';
+import { Code, BookOpen, Package, Loader2, AlertCircle, RefreshCw, Pencil } from 'lucide-react';
 import './SkillDetailPanel.css';
 
-export interface SkillDetailPanelProps extends PanelComponentProps {}
+export interface SkillDetailPanelProps extends PanelComponentProps {
+  /**
+   * When true, loose .md files directly inside a skills/ directory are
+   * resolved as skills alongside SKILL.md folders (legacy layout).
+   */
+  includeLegacySkillFiles?: boolean;
+  /**
+   * Directories to discover skills in. Should match the list panel's
+   * configuration so both panels resolve the same skills.
+   */
+  skillRoots?: SkillDiscoveryRoot[];
+}
+
+type DetailTab = 'overview' | 'files';
 
 export const SkillDetailPanel: React.FC<SkillDetailPanelProps> = ({
   context,
   events,
   actions,
+  includeLegacySkillFiles = false,
+  skillRoots,
 }) => {
   const { theme } = useTheme();
-  const { skills, isLoading, error } = useSkillsData({ context });
+  const {
+    skills,
+    isLoading,
+    error,
+    loadErrors,
+    retrySkill,
+    checkIntegrity,
+    discoveryRoots,
+  } = useSkillsData({
+    context,
+    includeLegacySkillFiles,
+    discoveryRoots: skillRoots,
+  });
   const [selectedSkillId, setSelectedSkillId] = useState<string | null>(null);
   const [skill, setSkill] = useState<Skill | null>(null);
+  const [activeTab, setActiveTab] = useState<DetailTab>('overview');
+  const [selectedFilePath, setSelectedFilePath] = useState<string | null>(null);
+  // SKILL.md content the editor opened with; null when not editing
+  const [editorContent, setEditorContent] = useState<string | null>(null);
+  // A selection that arrived while the editor had unsaved changes
+  const [pendingSkillId, setPendingSkillId] = useState<string | null>(null);
+  const isEditorDirtyRef = useRef(false);
   const panelRef = useRef<HTMLDivElement>(null);
+  const repoPath = context.currentScope.repository?.path;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const fileSystem = (context as any).adapters?.fileSystem;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const treeSha = context.getSlice<any>('fileTree')?.data?.sha as string | undefined;
+
+  // Load the full body and folder contents only for the selected skill
+  const {
+    details,
+    isLoading: isLoadingDetails,
+    error: detailsError,
+  } = useSkillDetails({ context, skill });
+
+  // The overview shows frontmatter as a properties table above the body
+  const parsedContent = useMemo(
+    () => (details?.content ? parseFrontmatter(details.content) : null),
+    [details?.content]
+  );
+
+  // Remember the selected skill per repository across remounts
+  const viewState = useMemo(() => ({ selectedSkillId }), [selectedSkillId]);
+  const restoreViewState = useCallback((saved: Partial<{ selectedSkillId: string | null }>) => {
+    setSelectedSkillId(typeof saved.selectedSkillId === 'string' ? saved.selectedSkillId : null);
+  }, []);
+  usePersistedViewState({
+    context,
+    panelId: 'skill-detail',
+    state: viewState,
+    onRestore: restoreViewState,
+  });
 
   // Listen for panel focus events
   usePanelFocusListener(
@@ -34,7 +109,11 @@ export const SkillDetailPanel: React.FC<SkillDetailPanelProps> = ({
     const unsubscribe = events.on('skill:selected', (event) => {
       const payload = event.payload as { skillId?: string } | undefined;
       const skillId = payload?.skillId;
-      if (skillId) {
+      if (!skillId) return;
+      // Don't drop unsaved edits; ask first
+      if (isEditorDirtyRef.current) {
+        setPendingSkillId(skillId);
+      } else {
         setSelectedSkillId(skillId);
       }
     });
@@ -44,11 +123,86 @@ export const SkillDetailPanel: React.FC<SkillDetailPanelProps> = ({
 
   // Update selected skill when skills load or selection changes
   useEffect(() => {
-    if (selectedSkillId && skills.length > 0) {
+    if (!selectedSkillId) {
+      setSkill(null);
+    } else if (!isLoading) {
       const foundSkill = skills.find((s) => s.id === selectedSkillId);
       setSkill(foundSkill || null);
     }
-  }, [selectedSkillId, skills]);
+  }, [selectedSkillId, skills, isLoading]);
+
+  // Check the selected skill right away rather than waiting for the background pass
+  useEffect(() => {
+    if (!skill?.metadata || skill.integrity) return;
+    checkIntegrity(skill).catch((err) => {
+      console.error(`Failed to check integrity of ${skill.path}:`, err);
+    });
+  }, [skill, checkIntegrity]);
+
+  // Each skill starts its file explorer on SKILL.md, outside the editor
+  useEffect(() => {
+    setSelectedFilePath(null);
+    setEditorContent(null);
+    isEditorDirtyRef.current = false;
+  }, [skill?.id]);
+
+  const handleEditorDirtyChange = useCallback((isDirty: boolean) => {
+    isEditorDirtyRef.current = isDirty;
+  }, []);
+
+  const closeEditor = useCallback(() => {
+    isEditorDirtyRef.current = false;
+    setEditorContent(null);
+  }, []);
+
+  const readSkillMarkdown = useCallback(async (): Promise<string> => {
+    if (!skill) throw new Error('No skill selected');
+    return fileSystem.readFile(toFileSystemPath(repoPath, skill.path));
+  }, [skill, fileSystem, repoPath]);
+
+  const writeSkillMarkdown = useCallback(
+    async (content: string): Promise<void> => {
+      if (!skill) throw new Error('No skill selected');
+      await fileSystem.writeFile(toFileSystemPath(repoPath, skill.path), content);
+    },
+    [skill, fileSystem, repoPath]
+  );
+
+  // The saved text is what the editor reopens with; then reload so the list
+  // and details pick it up. The file is already saved if the reload fails.
+  const handleSkillSaved = useCallback(
+    (content: string) => {
+      if (!skill) return;
+      setEditorContent(content);
+      const skillId = skill.id;
+      context
+        .refresh()
+        .then(() => retrySkill(skillId))
+        .catch((err) => {
+          console.error(`Failed to reload ${skillId} after saving:`, err);
+        });
+    },
+    [skill, context, retrySkill]
+  );
+
+  const readSkillFile = useCallback(
+    async (path: string): Promise<string> => {
+      if (!skill) throw new Error('No skill selected');
+      return fileSystem.readFile(toFileSystemPath(repoPath, `${skill.skillFolderPath}/${path}`));
+    },
+    [skill, fileSystem, repoPath]
+  );
+
+  // Asset previews need raw bytes (images, fonts, archives)
+  const readSkillBinaryFile = useCallback(
+    async (path: string): Promise<Uint8Array> => {
+      if (!skill) throw new Error('No skill selected');
+      return fileSystem.readBinaryFile(
+        toFileSystemPath(repoPath, `${skill.skillFolderPath}/${path}`)
+      );
+    },
+    [skill, fileSystem, repoPath]
+  );
 
   if (error) {
     return (
@@ -71,7 +225,8 @@ export const SkillDetailPanel: React.FC<SkillDetailPanelProps> = ({
     );
   }
 
-  if (isLoading) {
+  // Reloads keep the current skill (and any open editor) mounted
+  if (isLoading && !skill) {
     return (
       <div
         style={{
@@ -89,6 +244,75 @@ export const SkillDetailPanel: React.FC<SkillDetailPanelProps> = ({
     );
   }
 
+  // The selected skill disappeared from the list: explain why
+  if (!skill && selectedSkillId) {
+    const loadError = loadErrors.find((e) => e.path === selectedSkillId);
+
+    return (
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '0.75rem',
+          height: '100%',
+          padding: '2rem',
+          backgroundColor: theme.colors.background,
+          color: theme.colors.textSecondary,
+          fontFamily: theme.fonts.body,
+          textAlign: 'center',
+        }}
+      >
+        <AlertCircle size={32} color={loadError ? theme.colors.error : theme.colors.textMuted} />
+        <h2
+          style={{
+            margin: 0,
+            color: theme.colors.text,
+            fontSize: theme.fontSizes[3],
+            fontFamily: theme.fonts.heading,
+            fontWeight: theme.fontWeights.heading,
+          }}
+        >
+          {loadError ? 'Skill failed to load' : 'Skill no longer available'}
+        </h2>
+        <code style={{ fontFamily: theme.fonts.monospace, fontSize: theme.fontSizes[0] }}>
+          {selectedSkillId}
+        </code>
+        {loadError ? (
+          <>
+            <p style={{ margin: 0, color: theme.colors.error }}>
+              {getLoadPhaseLabel(loadError.phase)}: {loadError.message}
+            </p>
+            <button
+              onClick={() => retrySkill(loadError.path)}
+              style={{
+                padding: '6px 12px',
+                fontSize: theme.fontSizes[1],
+                fontFamily: theme.fonts.body,
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                background: theme.colors.backgroundSecondary,
+                color: theme.colors.text,
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+              }}
+            >
+              <RefreshCw size={14} />
+              Retry
+            </button>
+          </>
+        ) : (
+          <p style={{ margin: 0 }}>
+            It was deleted, renamed, or moved out of the configured skill directories.
+          </p>
+        )}
+      </div>
+    );
+  }
+
   if (!skill) {
     return (
       <div
@@ -122,16 +346,89 @@ export const SkillDetailPanel: React.FC<SkillDetailPanelProps> = ({
     );
   }
 
-  const handleParsed = (parsedSkill: ParsedSkill) => {
-    console.log('Skill parsed:', parsedSkill.metadata.name);
+  // Open a file and ask the host to reveal a line in it (see EDITOR_REVEAL_LINE_EVENT)
+  const revealLine = (filePath: string, line?: number) => {
+    actions.openFile?.(filePath);
+    if (line) {
+      events.emit<EditorRevealLinePayload>({
+        type: EDITOR_REVEAL_LINE_EVENT,
+        source: 'skill-detail-panel',
+        timestamp: Date.now(),
+        payload: { filePath, line },
+      });
+    }
+  };
+
+  // Open the offending file at the diagnostic's line
+  const handleDiagnosticSelect = (diagnostic: SkillDiagnostic) => {
+    revealLine(diagnostic.file, diagnostic.line);
   };
 
-  const handleError = (error: Error) => {
-    console.error('Error parsing skill:', error);
+  // Only SKILL.md's own diagnostics describe its frontmatter
+  const skillFileDiagnostics = skill.diagnostics?.filter((d) => d.file === skill.path);
+
+  // Open a file from the integrity report (paths are relative to the skill folder)
+  const handleIntegrityFileSelect = (path: string) => {
+    if (!skill) return;
+    actions.openFile?.(`${skill.skillFolderPath}/${path}`);
+  };
+
+  // Switch to the live copy of a shadowed skill and let other panels follow
+  const handleSelectWinner = (winner: Skill) => {
+    if (isEditorDirtyRef.current) {
+      setPendingSkillId(winner.id);
+      return;
+    }
+    setSelectedSkillId(winner.id);
+    events.emit({
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      type: 'skill:selected' as any,
+      source: 'skill-detail-panel',
+      timestamp: Date.now(),
+      payload: { skillId: winner.id, skill: winner },
+    });
   };
 
+  const shadowingSkill = skill.shadowedBy
+    ? skills.find((s) => s.id === skill.shadowedBy)
+    : undefined;
   const hasStructure = skill.hasScripts || skill.hasReferences || skill.hasAssets;
 
+  // The skill's own markdown file first, then everything else in its folder
+  const skillFileName = skill.path.substring(skill.path.lastIndexOf('/') + 1);
+  const skillFiles = [skillFileName, ...(skill.folderFiles ?? [])];
+  const loadedFileContents: Record<string, string> = details
+    ? { ...details.references, ...details.scripts, [skillFileName]: details.content }
+    : {};
+
+  // Jump from a structure pill to the first file of that folder
+  const showFolderFiles = (isInFolder: (path: string) => boolean) => {
+    setSelectedFilePath(skill.folderFiles?.find(isInFolder) ?? null);
+    setActiveTab('files');
+  };
+
+  // Leave the editor, dropping its changes, for the selection that was held back
+  const handleSwitchToPending = () => {
+    closeEditor();
+    setSelectedSkillId(pendingSkillId);
+    setPendingSkillId(null);
+  };
+
+  const canEdit = !!fileSystem?.readFile && !!fileSystem?.writeFile;
+
+  const tabStyle = (tab: DetailTab): React.CSSProperties => ({
+    padding: '0.5rem 0.75rem',
+    background: 'none',
+    border: 'none',
+    borderBottom: `2px solid ${activeTab === tab ? theme.colors.primary : 'transparent'}`,
+    marginBottom: '-1px',
+    color: activeTab === tab ? theme.colors.text : theme.colors.textSecondary,
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    fontWeight: activeTab === tab ? 600 : 400,
+    cursor: 'pointer',
+  });
+
   return (
     <div
       ref={panelRef}
@@ -144,102 +441,298 @@ export const SkillDetailPanel: React.FC<SkillDetailPanelProps> = ({
         outline: 'none',
       }}
     >
-      {skill.content ? (
-        <>
-          {hasStructure && (
-            <div
+      {shadowingSkill && (
+        <SkillShadowedBanner
+          winner={shadowingSkill}
+          onSelectWinner={handleSelectWinner}
+          discoveryRoots={discoveryRoots}
+        />
+      )}
+      {pendingSkillId && (
+        <div
+          role="alertdialog"
+          aria-label="Unsaved changes"
+          style={{
+            flexShrink: 0,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            padding: '0.5rem 1rem',
+            borderBottom: `1px solid ${theme.colors.border}`,
+            backgroundColor: `${theme.colors.warning}15`,
+            color: theme.colors.text,
+            fontSize: theme.fontSizes[1],
+            fontFamily: theme.fonts.body,
+          }}
+        >
+          <AlertCircle size={14} color={theme.colors.warning} />
+          <span>Discard unsaved changes to {skill.name} and switch skills?</span>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
+            <button
+              onClick={handleSwitchToPending}
               style={{
-                padding: '1rem',
-                borderBottom: `1px solid ${theme.colors.border}`,
-                display: 'flex',
-                gap: '0.5rem',
-                flexWrap: 'wrap',
-                backgroundColor: theme.colors.backgroundSecondary,
+                padding: '0.25rem 0.625rem',
+                fontSize: theme.fontSizes[1],
+                fontFamily: theme.fonts.body,
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                background: theme.colors.backgroundSecondary,
+                color: theme.colors.error,
+                cursor: 'pointer',
               }}
             >
-              <div
+              Discard and switch
+            </button>
+            <button
+              onClick={() => setPendingSkillId(null)}
+              style={{
+                padding: '0.25rem 0.625rem',
+                fontSize: theme.fontSizes[1],
+                fontFamily: theme.fonts.body,
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                background: theme.colors.backgroundSecondary,
+                color: theme.colors.text,
+                cursor: 'pointer',
+              }}
+            >
+              Keep editing
+            </button>
+          </div>
+        </div>
+      )}
+      {editorContent !== null ? (
+        <SkillEditor
+          key={skill.id}
+          initialContent={editorContent}
+          treeSha={treeSha}
+          readDiskContent={readSkillMarkdown}
+          writeContent={writeSkillMarkdown}
+          onSaved={handleSkillSaved}
+          onClose={closeEditor}
+          onDirtyChange={handleEditorDirtyChange}
+        />
+      ) : isLoadingDetails ? (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '0.5rem',
+            flex: 1,
+            color: theme.colors.textSecondary,
+            fontFamily: theme.fonts.body,
+          }}
+        >
+          <Loader2 size={16} style={{ animation: 'spin 1s linear infinite' }} />
+          <span>Loading skill...</span>
+          <style>
+            {`
+              @keyframes spin {
+                to { transform: rotate(360deg); }
+              }
+            `}
+          </style>
+        </div>
+      ) : details?.content ? (
+        <>
+          <div
+            role="tablist"
+            aria-label="Skill views"
+            style={{
+              flexShrink: 0,
+              display: 'flex',
+              gap: '0.25rem',
+              padding: '0 1rem',
+              borderBottom: `1px solid ${theme.colors.border}`,
+            }}
+          >
+            <button
+              role="tab"
+              aria-selected={activeTab === 'overview'}
+              onClick={() => setActiveTab('overview')}
+              style={tabStyle('overview')}
+            >
+              Overview
+            </button>
+            <button
+              role="tab"
+              aria-selected={activeTab === 'files'}
+              onClick={() => setActiveTab('files')}
+              style={tabStyle('files')}
+            >
+              Files ({skillFiles.length})
+            </button>
+            {canEdit && (
+              <button
+                onClick={() => setEditorContent(details.content)}
+                title="Edit SKILL.md"
                 style={{
-                  fontSize: theme.fontSizes[1],
+                  marginLeft: 'auto',
+                  padding: '0.5rem 0.75rem',
+                  background: 'none',
+                  border: 'none',
                   color: theme.colors.textSecondary,
+                  fontSize: theme.fontSizes[1],
                   fontFamily: theme.fonts.body,
-                  marginRight: '0.5rem',
+                  cursor: 'pointer',
                   display: 'flex',
                   alignItems: 'center',
+                  gap: '0.375rem',
+                }}
+              >
+                <Pencil size={14} />
+                Edit
+              </button>
+            )}
+          </div>
+          {activeTab === 'files' ? (
+            <SkillFileExplorer
+              key={skill.id}
+              files={skillFiles}
+              selectedPath={selectedFilePath ?? skillFileName}
+              onSelectPath={setSelectedFilePath}
+              contents={loadedFileContents}
+              readFile={fileSystem?.readFile ? readSkillFile : undefined}
+              readBinaryFile={fileSystem?.readBinaryFile ? readSkillBinaryFile : undefined}
+              onOpenFile={actions.openFile ? handleIntegrityFileSelect : undefined}
+            />
+          ) : (
+            <>
+            {hasStructure && (
+              <div
+                style={{
+                  padding: '1rem',
+                  borderBottom: `1px solid ${theme.colors.border}`,
+                  display: 'flex',
+                  gap: '0.5rem',
+                  flexWrap: 'wrap',
+                  backgroundColor: theme.colors.backgroundSecondary,
                 }}
               >
-                Available:
-              </div>
-              {skill.hasScripts && (
-                <div
-                  style={{
-                    padding: '0.25rem 0.75rem',
-                    borderRadius: '12px',
-                    backgroundColor: theme.colors.primary,
-                    color: theme.colors.background,
-                    fontSize: theme.fontSizes[0],
-                    fontFamily: theme.fonts.body,
-                    fontWeight: 500,
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '0.5rem',
-                  }}
-                  title={skill.scriptFiles?.join(', ')}
-                >
-                  <Code size={14} />
-                  <span>Scripts ({skill.scriptFiles?.length || 0})</span>
-                </div>
-              )}
-              {skill.hasReferences && (
-                <div
-                  style={{
-                    padding: '0.25rem 0.75rem',
-                    borderRadius: '12px',
-                    backgroundColor: theme.colors.secondary,
-                    color: theme.colors.background,
-                    fontSize: theme.fontSizes[0],
-                    fontFamily: theme.fonts.body,
-                    fontWeight: 500,
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '0.5rem',
-                  }}
-                  title={skill.referenceFiles?.join(', ')}
-                >
-                  <BookOpen size={14} />
-                  <span>References ({skill.referenceFiles?.length || 0})</span>
-                </div>
-              )}
-              {skill.hasAssets && (
                 <div
                   style={{
-                    padding: '0.25rem 0.75rem',
-                    borderRadius: '12px',
-                    backgroundColor: theme.colors.accent,
-                    color: theme.colors.background,
-                    fontSize: theme.fontSizes[0],
+                    fontSize: theme.fontSizes[1],
+                    color: theme.colors.textSecondary,
                     fontFamily: theme.fonts.body,
-                    fontWeight: 500,
+                    marginRight: '0.5rem',
                     display: 'flex',
                     alignItems: 'center',
-                    gap: '0.5rem',
                   }}
-                  title={skill.assetFiles?.join(', ')}
                 >
-                  <Package size={14} />
-                  <span>Assets ({skill.assetFiles?.length || 0})</span>
+                  Available:
                 </div>
-              )}
+                {skill.hasScripts && (
+                  <button
+                    onClick={() =>
+                      showFolderFiles((path) => !!skill.scriptFiles?.includes(path))
+                    }
+                    style={{
+                      padding: '0.25rem 0.75rem',
+                      borderRadius: '12px',
+                      backgroundColor: theme.colors.primary,
+                      color: theme.colors.background,
+                      fontSize: theme.fontSizes[0],
+                      fontFamily: theme.fonts.body,
+                      fontWeight: 500,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '0.5rem',
+                      border: 'none',
+                      cursor: 'pointer',
+                    }}
+                    title={skill.scriptFiles?.join(', ')}
+                  >
+                    <Code size={14} />
+                    <span>Scripts ({skill.scriptFiles?.length || 0})</span>
+                  </button>
+                )}
+                {skill.hasReferences && (
+                  <button
+                    onClick={() =>
+                      showFolderFiles(
+                        (path) => !!skill.referenceFiles?.includes(path)
+                      )
+                    }
+                    style={{
+                      padding: '0.25rem 0.75rem',
+                      borderRadius: '12px',
+                      backgroundColor: theme.colors.secondary,
+                      color: theme.colors.background,
+                      fontSize: theme.fontSizes[0],
+                      fontFamily: theme.fonts.body,
+                      fontWeight: 500,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '0.5rem',
+                      border: 'none',
+                      cursor: 'pointer',
+                    }}
+                    title={skill.referenceFiles?.join(', ')}
+                  >
+                    <BookOpen size={14} />
+                    <span>References ({skill.referenceFiles?.length || 0})</span>
+                  </button>
+                )}
+                {skill.hasAssets && (
+                  <button
+                    onClick={() =>
+                      showFolderFiles((path) => !!skill.assetFiles?.includes(path))
+                    }
+                    style={{
+                      padding: '0.25rem 0.75rem',
+                      borderRadius: '12px',
+                      backgroundColor: theme.colors.accent,
+                      color: theme.colors.background,
+                      fontSize: theme.fontSizes[0],
+                      fontFamily: theme.fonts.body,
+                      fontWeight: 500,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '0.5rem',
+                      border: 'none',
+                      cursor: 'pointer',
+                    }}
+                    title={skill.assetFiles?.join(', ')}
+                  >
+                    <Package size={14} />
+                    <span>Assets ({skill.assetFiles?.length || 0})</span>
+                  </button>
+                )}
+              </div>
+            )}
+            {skill.diagnostics && skill.diagnostics.length > 0 && (
+              <SkillDiagnosticsList
+                key={skill.id}
+                diagnostics={skill.diagnostics}
+                onSelect={handleDiagnosticSelect}
+              />
+            )}
+            {skill.integrity && (
+              <SkillIntegrityReport
+                key={`${skill.id}-integrity`}
+                report={skill.integrity}
+                installedFrom={skill.metadata?.installedFrom}
+                onSelectFile={handleIntegrityFileSelect}
+              />
+            )}
+            <div style={{ flex: 1, overflow: 'auto' }}>
+              <SkillFrontmatterProperties
+                frontmatter={parsedContent?.frontmatter ?? null}
+                parseError={parsedContent?.error}
+                diagnostics={skillFileDiagnostics}
+                onSelectLine={
+                  actions.openFile ? (line) => revealLine(skill.path, line) : undefined
+                }
+              />
+              <DocumentView
+                content={parsedContent?.body ?? details.content}
+                theme={theme}
+                maxWidth="100%"
+              />
             </div>
+            </>
           )}
-          <div style={{ flex: 1, overflow: 'auto' }}>
-            <SkillMarkdown
-              content={skill.content}
-              theme={theme}
-              onParsed={handleParsed}
-              onError={handleError}
-              showRawOnError={true}
-            />
-          </div>
         </>
       ) : (
         <div
@@ -252,7 +745,7 @@ export const SkillDetailPanel: React.FC<SkillDetailPanelProps> = ({
             fontFamily: theme.fonts.body,
           }}
         >
-          <p>No content available for this skill</p>
+          <p>{detailsError ? `Failed to load skill: ${detailsError}` : 'No content available for this skill'}</p>
         </div>
       )}
     </div>
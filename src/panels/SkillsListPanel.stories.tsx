@@ -9,6 +9,7 @@ import {
   createMockEvents,
 } from '../mocks/panelContext';
 import type { DataSlice } from '../types';
+import { DEFAULT_SKILL_ROOTS } from './skills/utils/discoveryRoots';
 
 /**
  * SkillsListPanel displays Agent Skills from SKILL.md files in the repository.
@@ -168,6 +169,50 @@ export const Default: Story = {
   },
 };
 
+/**
+ * Skills discovered under a custom root configured on the panel
+ */
+export const CustomDiscoveryRoots: Story = {
+  render: () => {
+    const mockSlices = new Map<string, DataSlice>();
+    mockSlices.set('fileTree', {
+      scope: 'repository',
+      name: 'fileTree',
+      data: mockFileTreeWithSkills,
+      loading: false,
+      error: null,
+      refresh: async () => {},
+    });
+
+    return (
+      <MockPanelProvider
+        contextOverrides={{
+          slices: mockSlices,
+          adapters: {
+            fileSystem: createMockFileSystemWithSkills(),
+          },
+        } as any}
+      >
+        {(props) => (
+          <SkillsListPanel
+            {...props}
+            skillRoots={[
+              ...DEFAULT_SKILL_ROOTS,
+              {
+                id: 'team-skills',
+                glob: '.skills',
+                label: 'Team',
+                color: '#ea580c',
+                precedence: 5,
+              },
+            ]}
+          />
+        )}
+      </MockPanelProvider>
+    );
+  },
+};
+
 /**
  * No skills found in repository
  */
@@ -1,12 +1,147 @@
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { useTheme } from '@principal-ade/industry-theme';
 import { usePanelFocusListener } from '@principal-ade/panel-layouts';
-import { AlertCircle, Search, X, RefreshCw, FileCode } from 'lucide-react';
+import { AlertCircle, RefreshCw, FileCode, Layers, PanelLeftOpen, Plus } from 'lucide-react';
 import type { PanelComponentProps } from '../types';
 import { useSkillsData, type Skill } from './skills/hooks/useSkillsData';
-import { SkillCard } from './skills/components/SkillCard';
+import { usePersistedViewState } from './skills/hooks/usePersistedViewState';
+import { SkillListView } from './skills/components/SkillListView';
+import { SkillListControls } from './skills/components/SkillListControls';
+import { SkillLoadErrorsList } from './skills/components/SkillLoadErrorsList';
+import { SkillSearchInput } from './skills/components/SkillSearchInput';
+import { SkillInventorySummary } from './skills/components/SkillInventorySummary';
+import { computeSkillInventory } from './skills/utils/inventory';
+import { SkillFacetSidebar } from './skills/components/SkillFacetSidebar';
+import {
+  SKILL_FACETS,
+  applySkillFacets,
+  computeSkillFacets,
+  hasActiveFacets,
+  toggleSkillFacetValue,
+  type SkillFacetId,
+  type SkillFacetSelection,
+} from './skills/utils/facets';
+import {
+  SkillBulkActionBar,
+  type SkillBulkActionStatus,
+} from './skills/components/SkillBulkActionBar';
+import {
+  copySkills,
+  deleteSkills,
+  exportSkills,
+  type BulkActionResult,
+} from './skills/utils/bulkActions';
+import {
+  SkillCreateWizard,
+  type SkillCreateTarget,
+} from './skills/components/SkillCreateWizard';
+import { createSkill, type NewSkill } from './skills/utils/createSkill';
+import { toFileSystemPath } from './skills/utils/paths';
+import {
+  SKILL_GROUP_OPTIONS,
+  SKILL_SORT_OPTIONS,
+  SKILL_VIEW_OPTIONS,
+  groupSkills,
+  sortSkills,
+  sortSkillsByColumn,
+  type SkillGroupBy,
+  type SkillSortKey,
+  type SkillTableSort,
+  type SkillViewMode,
+} from './skills/utils/sortAndGroup';
+import { searchSkills, type SkillSearchMatches } from './skills/utils/fuzzySearch';
+import {
+  applySkillQueryFilters,
+  parseSkillQuery,
+  toggleSkillQueryFilters,
+  type SkillQueryFilter,
+} from './skills/utils/skillQuery';
+import {
+  findSkillRoot,
+  getRootScope,
+  resolveRootDirectory,
+  type SkillDiscoveryRoot,
+  type SkillRootScope,
+} from './skills/utils/discoveryRoots';
 
-type SkillFilter = 'all' | 'project' | 'global';
+// All skills, one scope, or a single discovery root (`root:<id>`)
+type SkillFilter = 'all' | SkillRootScope | `root:${string}`;
+
+// Saved per repository and restored on mount
+interface SkillsListViewState {
+  searchQuery: string;
+  skillFilter: SkillFilter;
+  effectiveOnly: boolean;
+  selectedSkillId: string | null;
+  sortKey: SkillSortKey;
+  groupBy: SkillGroupBy;
+  viewMode: SkillViewMode;
+  tableSort: SkillTableSort;
+  facets: SkillFacetSelection;
+  isFacetSidebarOpen: boolean;
+}
+
+const DEFAULT_VIEW_STATE: SkillsListViewState = {
+  searchQuery: '',
+  skillFilter: 'all',
+  effectiveOnly: false,
+  selectedSkillId: null,
+  sortKey: 'relevance',
+  groupBy: 'origin',
+  viewMode: 'grid',
+  tableSort: { column: 'name', direction: 'asc' },
+  facets: {},
+  isFacetSidebarOpen: true,
+};
+
+const isOneOf = <T extends string>(options: { value: T }[], value: unknown): value is T =>
+  options.some((option) => option.value === value);
+
+const isSkillFilter = (value: unknown): value is SkillFilter =>
+  value === 'all' ||
+  value === 'project' ||
+  value === 'global' ||
+  (typeof value === 'string' && value.startsWith('root:'));
+
+const isTableSort = (value: unknown): value is SkillTableSort => {
+  const sort = value as Partial<SkillTableSort> | null;
+  return (
+    typeof sort?.column === 'string' && (sort.direction === 'asc' || sort.direction === 'desc')
+  );
+};
+
+const isFacetSelection = (value: unknown): value is SkillFacetSelection =>
+  !!value &&
+  typeof value === 'object' &&
+  Object.entries(value).every(
+    ([facet, values]) =>
+      SKILL_FACETS.some(({ id }) => id === facet) &&
+      Array.isArray(values) &&
+      values.every((item) => typeof item === 'string')
+  );
+
+/**
+ * Helper function to merge saved state over the defaults, dropping values
+ * that no longer parse (e.g. a sort option that was removed)
+ */
+const parseViewState = (saved: Partial<SkillsListViewState>): SkillsListViewState => ({
+  searchQuery:
+    typeof saved.searchQuery === 'string' ? saved.searchQuery : DEFAULT_VIEW_STATE.searchQuery,
+  skillFilter: isSkillFilter(saved.skillFilter) ? saved.skillFilter : DEFAULT_VIEW_STATE.skillFilter,
+  effectiveOnly:
+    typeof saved.effectiveOnly === 'boolean' ? saved.effectiveOnly : DEFAULT_VIEW_STATE.effectiveOnly,
+  selectedSkillId:
+    typeof saved.selectedSkillId === 'string' ? saved.selectedSkillId : DEFAULT_VIEW_STATE.selectedSkillId,
+  sortKey: isOneOf(SKILL_SORT_OPTIONS, saved.sortKey) ? saved.sortKey : DEFAULT_VIEW_STATE.sortKey,
+  groupBy: isOneOf(SKILL_GROUP_OPTIONS, saved.groupBy) ? saved.groupBy : DEFAULT_VIEW_STATE.groupBy,
+  viewMode: isOneOf(SKILL_VIEW_OPTIONS, saved.viewMode) ? saved.viewMode : DEFAULT_VIEW_STATE.viewMode,
+  tableSort: isTableSort(saved.tableSort) ? saved.tableSort : DEFAULT_VIEW_STATE.tableSort,
+  facets: isFacetSelection(saved.facets) ? saved.facets : DEFAULT_VIEW_STATE.facets,
+  isFacetSidebarOpen:
+    typeof saved.isFacetSidebarOpen === 'boolean'
+      ? saved.isFacetSidebarOpen
+      : DEFAULT_VIEW_STATE.isFacetSidebarOpen,
+});
 
 export interface SkillsListPanelProps extends PanelComponentProps {
   /**
@@ -14,8 +149,50 @@ export interface SkillsListPanelProps extends PanelComponentProps {
    * - Changes "Project" filter label to "Git Repo"
    */
   browseMode?: boolean;
+  /**
+   * When true, loose .md files directly inside a skills/ directory are listed
+   * as skills alongside SKILL.md folders (legacy layout).
+   */
+  includeLegacySkillFiles?: boolean;
+  /**
+   * Directories to discover skills in, each with a glob, badge label and
+   * colour, and precedence rank. Defaults to .agent/skills and .claude/skills
+   * in the project and home directory.
+   */
+  skillRoots?: SkillDiscoveryRoot[];
 }
 
+/**
+ * Helper function to summarize a bulk action for the action bar
+ */
+const describeBulkResult = (
+  verb: string,
+  result: BulkActionResult,
+  skillsById: Map<string, Skill>
+): SkillBulkActionStatus => {
+  const count = result.succeeded.length;
+  const lines = [`${verb} ${count} ${count === 1 ? 'skill' : 'skills'}`];
+  for (const failure of result.failed) {
+    const name = skillsById.get(failure.skillId)?.name ?? failure.skillId;
+    lines.push(`${name}: ${failure.message}`);
+  }
+  return { kind: result.failed.length > 0 ? 'error' : 'success', message: lines.join('\n') };
+};
+
+/**
+ * Helper function to save JSON through a temporary download link
+ */
+const downloadJson = (fileName: string, data: unknown) => {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 /**
  * SkillsListPanel - A panel for displaying Agent Skills from SKILL.md files
  *
@@ -23,25 +200,119 @@ export interface SkillsListPanelProps extends PanelComponentProps {
  * - List/grid of available skills from the file tree
  * - Search functionality to filter skills
  * - Skill metadata (name, description, capabilities)
+ * - Inventory summary with counts that double as filters
+ * - Facet sidebar to narrow by source, repo, structure, tools and license
+ * - Wizard that scaffolds a new skill folder into a writable root
  * - Click to select and emit events for detail views
+ * - Multi-select with bulk export, copy, delete and open actions
+ * - Keyboard navigation: arrows/Home/End move, Enter selects, `/` searches
  */
 export const SkillsListPanel: React.FC<SkillsListPanelProps> = ({
   context,
+  actions,
   events,
   browseMode = false,
+  includeLegacySkillFiles = false,
+  skillRoots,
 }) => {
   const { theme } = useTheme();
   const panelRef = useRef<HTMLDivElement>(null);
-  const [selectedSkillId, setSelectedSkillId] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [skillFilter, setSkillFilter] = useState<SkillFilter>('all');
+  const listRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [selectedSkillId, setSelectedSkillId] = useState(DEFAULT_VIEW_STATE.selectedSkillId);
+  const [searchQuery, setSearchQuery] = useState(DEFAULT_VIEW_STATE.searchQuery);
+  const [skillFilter, setSkillFilter] = useState(DEFAULT_VIEW_STATE.skillFilter);
+  const [effectiveOnly, setEffectiveOnly] = useState(DEFAULT_VIEW_STATE.effectiveOnly);
+  const [sortKey, setSortKey] = useState(DEFAULT_VIEW_STATE.sortKey);
+  const [groupBy, setGroupBy] = useState(DEFAULT_VIEW_STATE.groupBy);
+  const [viewMode, setViewMode] = useState(DEFAULT_VIEW_STATE.viewMode);
+  const [tableSort, setTableSort] = useState(DEFAULT_VIEW_STATE.tableSort);
+  const [facets, setFacets] = useState(DEFAULT_VIEW_STATE.facets);
+  const [isFacetSidebarOpen, setIsFacetSidebarOpen] = useState(
+    DEFAULT_VIEW_STATE.isFacetSidebarOpen
+  );
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isMultiSelect, setIsMultiSelect] = useState(false);
+  const [checkedSkillIds, setCheckedSkillIds] = useState<Set<string>>(new Set());
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
+  const [bulkStatus, setBulkStatus] = useState<SkillBulkActionStatus | null>(null);
+  // Last toggled skill; Shift-click checks everything between it and the clicked skill
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  // SKILL.md written by the wizard, selected once the reload picks it up
+  const [pendingCreatedPath, setPendingCreatedPath] = useState<string | null>(null);
+  // The wizard wrote the skill but the list couldn't be reloaded afterwards
+  const [createReloadError, setCreateReloadError] = useState<string | null>(null);
 
   // Load skills data
-  const { skills, isLoading, error, refreshSkills } = useSkillsData({ context });
+  const {
+    skills,
+    isLoading,
+    error,
+    loadErrors,
+    refreshSkills,
+    retrySkill,
+    discoveryRoots,
+  } = useSkillsData({
+    context,
+    includeLegacySkillFiles,
+    discoveryRoots: skillRoots,
+  });
 
-  // Listen for panel focus events
-  usePanelFocusListener('skills-list', events, () => panelRef.current?.focus());
+  // Save view state per repository so layout switches and reloads keep our place
+  const viewState = useMemo<SkillsListViewState>(
+    () => ({
+      searchQuery,
+      skillFilter,
+      effectiveOnly,
+      selectedSkillId,
+      sortKey,
+      groupBy,
+      viewMode,
+      tableSort,
+      facets,
+      isFacetSidebarOpen,
+    }),
+    [
+      searchQuery,
+      skillFilter,
+      effectiveOnly,
+      selectedSkillId,
+      sortKey,
+      groupBy,
+      viewMode,
+      tableSort,
+      facets,
+      isFacetSidebarOpen,
+    ]
+  );
+
+  const restoreViewState = useCallback((saved: Partial<SkillsListViewState>) => {
+    const restored = parseViewState(saved);
+    setSearchQuery(restored.searchQuery);
+    setSkillFilter(restored.skillFilter);
+    setEffectiveOnly(restored.effectiveOnly);
+    setSelectedSkillId(restored.selectedSkillId);
+    setSortKey(restored.sortKey);
+    setGroupBy(restored.groupBy);
+    setViewMode(restored.viewMode);
+    setTableSort(restored.tableSort);
+    setFacets(restored.facets);
+    setIsFacetSidebarOpen(restored.isFacetSidebarOpen);
+  }, []);
+
+  usePersistedViewState({
+    context,
+    panelId: 'skills-list',
+    state: viewState,
+    onRestore: restoreViewState,
+  });
+
+  // Listen for panel focus events; land on the list so arrow keys work right away
+  usePanelFocusListener('skills-list', events, () =>
+    (listRef.current ?? panelRef.current)?.focus()
+  );
 
   // Check if there's a repository loaded (to determine if filters should be shown)
   const hasRepository = useMemo(() => {
@@ -49,43 +320,277 @@ export const SkillsListPanel: React.FC<SkillsListPanelProps> = ({
     return !!fileTreeSlice?.data;
   }, [context]);
 
-  // Filter skills by search query and source type
-  const filteredSkills = useMemo(() => {
+  // Number of skill copies hidden by a higher-precedence skill of the same name
+  const shadowedCount = useMemo(
+    () => skills.filter((skill) => skill.shadowedBy).length,
+    [skills]
+  );
+
+  // Roots that contributed at least one skill, in precedence order
+  const activeRoots = useMemo(
+    () => discoveryRoots.filter((root) => skills.some((skill) => skill.source === root.id)),
+    [discoveryRoots, skills]
+  );
+
+  // Filter skills by source type, then rank them against the search query.
+  // Facets apply last so their counts reflect everything else
+  const unfacetedResults = useMemo(() => {
     let filtered = skills;
 
+    // Only keep the copy of each skill an agent would actually load
+    if (effectiveOnly) {
+      filtered = filtered.filter((skill) => !skill.shadowedBy);
+    }
+
     // Filter by source type
-    if (skillFilter === 'project') {
+    if (skillFilter === 'project' || skillFilter === 'global') {
       filtered = filtered.filter(
-        (skill) =>
-          skill.source === 'project-universal' ||
-          skill.source === 'project-claude' ||
-          skill.source === 'project-other'
-      );
-    } else if (skillFilter === 'global') {
-      filtered = filtered.filter(
-        (skill) => skill.source === 'global-universal' || skill.source === 'global-claude'
+        (skill) => getRootScope(findSkillRoot(discoveryRoots, skill.source)) === skillFilter
       );
+    } else if (skillFilter.startsWith('root:')) {
+      const rootId = skillFilter.slice('root:'.length);
+      filtered = filtered.filter((skill) => skill.source === rootId);
     }
 
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      filtered = filtered.filter((skill) => {
-        // Search in name
-        if (skill.name.toLowerCase().includes(query)) return true;
-        // Search in description
-        if (skill.description?.toLowerCase().includes(query)) return true;
-        // Search in capabilities
-        if (skill.capabilities?.some((cap) => cap.toLowerCase().includes(query)))
-          return true;
-        // Search in path
-        if (skill.path.toLowerCase().includes(query)) return true;
-        return false;
+    // Qualifiers (source:, has:, owner:, ...) narrow the list; the rest is fuzzy text
+    const { text, filters } = parseSkillQuery(searchQuery);
+    filtered = applySkillQueryFilters(filtered, filters);
+
+    // Fuzzy search: best matches first, name weighted over description over path
+    return searchSkills(filtered, text);
+  }, [skills, searchQuery, skillFilter, effectiveOnly, discoveryRoots]);
+
+  const facetCounts = useMemo(
+    () => computeSkillFacets(unfacetedResults.map((result) => result.skill), facets),
+    [unfacetedResults, facets]
+  );
+
+  const searchResults = useMemo(() => {
+    if (!hasActiveFacets(facets)) return unfacetedResults;
+    const matching = new Set(applySkillFacets(unfacetedResults.map((r) => r.skill), facets));
+    return unfacetedResults.filter((result) => matching.has(result.skill));
+  }, [unfacetedResults, facets]);
+
+  const isFiltering = !!searchQuery || hasActiveFacets(facets);
+
+  const handleFacetToggle = (facet: SkillFacetId, value: string) => {
+    setFacets(toggleSkillFacetValue(facets, facet, value));
+  };
+
+  // The table sorts by its column headers; other views use the sort picker
+  const filteredSkills = useMemo(() => {
+    const results = searchResults.map((result) => result.skill);
+    return viewMode === 'table'
+      ? sortSkillsByColumn(results, tableSort, discoveryRoots)
+      : sortSkills(results, sortKey);
+  }, [searchResults, sortKey, viewMode, tableSort, discoveryRoots]);
+
+  // Matched characters per skill, for highlighting
+  const searchMatches = useMemo(() => {
+    const matches = new Map<string, SkillSearchMatches>();
+    searchResults.forEach((result) => matches.set(result.skill.id, result.matches));
+    return matches;
+  }, [searchResults]);
+
+  // A single group renders as a flat list without a header
+  const skillGroups = useMemo(
+    () => groupSkills(filteredSkills, groupBy, discoveryRoots),
+    [filteredSkills, groupBy, discoveryRoots]
+  );
+
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  // Counts over every loaded skill, independent of the current filters
+  const inventory = useMemo(() => computeSkillInventory(skills), [skills]);
+
+  const handleInventorySourceClick = (rootId: string) => {
+    setSkillFilter(skillFilter === `root:${rootId}` ? 'all' : `root:${rootId}`);
+  };
+
+  const handleInventoryFiltersToggle = (filters: SkillQueryFilter[]) => {
+    setSearchQuery(toggleSkillQueryFilters(searchQuery, filters));
+  };
+
+  // Skills in display order, for Shift-click ranges
+  const orderedSkillIds = useMemo(
+    () =>
+      skillGroups.flatMap((group) =>
+        skillGroups.length > 1 && collapsedGroups.has(group.key)
+          ? []
+          : group.skills.map((skill) => skill.id)
+      ),
+    [skillGroups, collapsedGroups]
+  );
+
+  const skillsById = useMemo(() => new Map(skills.map((skill) => [skill.id, skill])), [skills]);
+
+  // Checked skills that still exist, in load order
+  const checkedSkills = useMemo(
+    () => skills.filter((skill) => checkedSkillIds.has(skill.id)),
+    [skills, checkedSkillIds]
+  );
+
+  const updateCheckedSkills = (next: Set<string>) => {
+    setCheckedSkillIds(next);
+    events?.emit({
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      type: 'skills:selection-changed' as any,
+      source: 'skills-list-panel',
+      timestamp: Date.now(),
+      payload: { skillIds: [...next] },
+    });
+  };
+
+  const handleMultiSelectChange = (enabled: boolean) => {
+    setIsMultiSelect(enabled);
+    setBulkStatus(null);
+    selectionAnchorRef.current = null;
+    if (!enabled && checkedSkillIds.size > 0) {
+      updateCheckedSkills(new Set());
+    }
+  };
+
+  const handleSkillToggle = (skill: Skill, { range }: { range: boolean }) => {
+    // Shift-click outside multi-select mode starts it from the current selection
+    const base = isMultiSelect ? checkedSkillIds : new Set<string>();
+    const anchor = selectionAnchorRef.current ?? (isMultiSelect ? null : selectedSkillId);
+    const next = new Set(base);
+
+    const from = anchor ? orderedSkillIds.indexOf(anchor) : -1;
+    const to = orderedSkillIds.indexOf(skill.id);
+    if (range && from !== -1 && to !== -1) {
+      const [start, end] = from < to ? [from, to] : [to, from];
+      orderedSkillIds.slice(start, end + 1).forEach((id) => next.add(id));
+    } else if (next.has(skill.id)) {
+      next.delete(skill.id);
+    } else {
+      next.add(skill.id);
+    }
+
+    if (!isMultiSelect) {
+      setIsMultiSelect(true);
+      setBulkStatus(null);
+    }
+    selectionAnchorRef.current = skill.id;
+    updateCheckedSkills(next);
+  };
+
+  // Check every shown skill, or uncheck them all if they already are
+  const handleToggleSelectAll = () => {
+    const next = new Set(checkedSkillIds);
+    const allChecked = filteredSkills.every((skill) => next.has(skill.id));
+    filteredSkills.forEach((skill) =>
+      allChecked ? next.delete(skill.id) : next.add(skill.id)
+    );
+    updateCheckedSkills(next);
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const fileSystem = (context as any).adapters?.fileSystem;
+  const repoPath = context.currentScope.repository?.path;
+
+  // Roots that resolve to a single directory can receive new and copied skills
+  const writableTargets = useMemo((): SkillCreateTarget[] => {
+    if (!fileSystem?.writeFile) return [];
+    const homeDir = fileSystem.homedir?.();
+    return discoveryRoots.flatMap((root) => {
+      const directory = resolveRootDirectory(root, { repoPath, homeDir });
+      return directory ? [{ root, directory }] : [];
+    });
+  }, [discoveryRoots, fileSystem, repoPath]);
+  const copyTargets = useMemo(
+    () => writableTargets.map((target) => target.root),
+    [writableTargets]
+  );
+
+  const runBulkAction = async (action: () => Promise<SkillBulkActionStatus>) => {
+    setIsBulkBusy(true);
+    setBulkStatus(null);
+    try {
+      setBulkStatus(await action());
+    } catch (err) {
+      setBulkStatus({
+        kind: 'error',
+        message: err instanceof Error ? err.message : 'Bulk action failed',
       });
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
+
+  // Pick up added or removed skill folders
+  const reloadAfterChange = async () => {
+    await context.refresh();
+    await refreshSkills();
+  };
+
+  const handleBulkExport = () =>
+    runBulkAction(async () => {
+      const bundle = await exportSkills(checkedSkills, fileSystem, repoPath);
+      downloadJson(`skills-export-${bundle.exportedAt.slice(0, 10)}.json`, bundle);
+      return describeBulkResult(
+        'Exported',
+        { succeeded: bundle.skills.map((skill) => skill.path), failed: bundle.failed },
+        skillsById
+      );
+    });
+
+  const handleBulkCopy = (rootId: string) =>
+    runBulkAction(async () => {
+      const root = findSkillRoot(discoveryRoots, rootId);
+      const targetDir = resolveRootDirectory(root, { repoPath, homeDir: fileSystem.homedir?.() });
+      if (!targetDir) throw new Error(`${root.label} has no single directory to copy into`);
+      const result = await copySkills(checkedSkills, targetDir, fileSystem, repoPath);
+      if (result.succeeded.length > 0) await reloadAfterChange();
+      return describeBulkResult(`Copied to ${root.label}:`, result, skillsById);
+    });
+
+  const handleBulkDelete = () =>
+    runBulkAction(async () => {
+      const result = await deleteSkills(checkedSkills, fileSystem, repoPath);
+      const next = new Set(checkedSkillIds);
+      result.succeeded.forEach((id) => next.delete(id));
+      updateCheckedSkills(next);
+      if (result.succeeded.length > 0) await reloadAfterChange();
+      return describeBulkResult('Deleted', result, skillsById);
+    });
+
+  const reloadCreatedSkill = async (skillPath: string) => {
+    setCreateReloadError(null);
+    try {
+      await reloadAfterChange();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setCreateReloadError(`Created ${skillPath}, but the skills list couldn't be reloaded: ${message}`);
     }
+  };
 
-    return filtered;
-  }, [skills, searchQuery, skillFilter]);
+  // Only a failed write keeps the wizard open; once the skill is on disk,
+  // retrying there would fail with "already exists"
+  const handleCreateSkill = async (skill: NewSkill, target: SkillCreateTarget) => {
+    const skillPath = await createSkill(skill, target.directory, fileSystem);
+    setPendingCreatedPath(skillPath);
+    // Make sure no search or filter hides the new skill
+    setSearchQuery('');
+    setSkillFilter('all');
+    setFacets({});
+    setIsCreateOpen(false);
+    await reloadCreatedSkill(skillPath);
+  };
+
+  const handleBulkOpen = () => {
+    checkedSkills.forEach((skill) => actions.openFile?.(skill.path));
+  };
 
   const handleSkillClick = (skill: Skill) => {
     setSelectedSkillId(skill.id);
@@ -101,6 +606,32 @@ export const SkillsListPanel: React.FC<SkillsListPanelProps> = ({
     }
   };
 
+  // Select the skill the wizard created as soon as it's loaded
+  const handleSkillClickRef = useRef(handleSkillClick);
+  handleSkillClickRef.current = handleSkillClick;
+  useEffect(() => {
+    if (!pendingCreatedPath) return;
+    const created = skills.find(
+      (skill) => toFileSystemPath(repoPath, skill.path) === pendingCreatedPath
+    );
+    if (created) {
+      setPendingCreatedPath(null);
+      setCreateReloadError(null);
+      handleSkillClickRef.current(created);
+    }
+  }, [skills, pendingCreatedPath, repoPath]);
+
+  // `/` jumps to the search box unless the user is already typing somewhere
+  const handlePanelKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    const isEditable =
+      target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+    if (e.key === '/' && !isEditable) {
+      e.preventDefault();
+      searchInputRef.current?.focus();
+    }
+  };
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
@@ -113,6 +644,7 @@ export const SkillsListPanel: React.FC<SkillsListPanelProps> = ({
   return (
     <div
       ref={panelRef}
+      onKeyDown={handlePanelKeyDown}
       tabIndex={-1}
       style={{
         padding: 'clamp(12px, 3vw, 20px)',
@@ -178,66 +710,36 @@ export const SkillsListPanel: React.FC<SkillsListPanelProps> = ({
         </div>
 
         <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flex: '1 1 200px', maxWidth: '400px' }}>
-          {/* Search input */}
-          <div
-            style={{
-              position: 'relative',
-              flex: 1,
-              minWidth: '150px',
-            }}
-          >
-            <Search
-              size={16}
-              color={theme.colors.textSecondary}
-              style={{
-                position: 'absolute',
-                left: '10px',
-                top: '50%',
-                transform: 'translateY(-50%)',
-                pointerEvents: 'none',
-              }}
-            />
-            <input
-              type="text"
-              placeholder="Search skills..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+          {/* Search input (free text plus qualifiers like has:scripts) */}
+          <SkillSearchInput
+            value={searchQuery}
+            onChange={setSearchQuery}
+            skills={skills}
+            inputRef={searchInputRef}
+          />
+
+          {/* New skill button */}
+          {writableTargets.length > 0 && (
+            <button
+              onClick={() => setIsCreateOpen(true)}
+              disabled={isCreateOpen}
               style={{
-                width: '100%',
-                padding: '8px 32px 8px 32px',
-                fontSize: theme.fontSizes[1],
-                fontFamily: theme.fonts.body,
-                border: `1px solid ${theme.colors.border}`,
-                borderRadius: theme.radii[2],
                 background: theme.colors.backgroundSecondary,
-                color: theme.colors.text,
-                outline: 'none',
-                boxSizing: 'border-box',
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                padding: '8px',
+                cursor: isCreateOpen ? 'default' : 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                transition: 'all 0.2s ease',
               }}
-            />
-            {searchQuery && (
-              <button
-                onClick={() => setSearchQuery('')}
-                style={{
-                  position: 'absolute',
-                  right: '6px',
-                  top: '50%',
-                  transform: 'translateY(-50%)',
-                  background: 'transparent',
-                  border: 'none',
-                  padding: '4px',
-                  cursor: 'pointer',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  color: theme.colors.textSecondary,
-                }}
-                aria-label="Clear search"
-              >
-                <X size={14} />
-              </button>
-            )}
-          </div>
+              title="Create a skill"
+              aria-label="Create a skill"
+            >
+              <Plus size={16} color={theme.colors.textSecondary} />
+            </button>
+          )}
 
           {/* Refresh button */}
           <button
@@ -267,74 +769,156 @@ export const SkillsListPanel: React.FC<SkillsListPanelProps> = ({
         </div>
       </div>
 
-      {/* Filter Toggle - Only show when repository is loaded */}
-      {hasRepository && (
+      {isCreateOpen && (
+        <SkillCreateWizard
+          targets={writableTargets}
+          onCreate={handleCreateSkill}
+          onCancel={() => setIsCreateOpen(false)}
+        />
+      )}
+
+      {/* Filter Toggle - Only show when repository is loaded or skills are shadowed */}
+      {(hasRepository || shadowedCount > 0) && (
         <div
           style={{
             flexShrink: 0,
             display: 'flex',
             gap: '8px',
+            flexWrap: 'wrap',
           }}
         >
+          {hasRepository && (
+            <>
+              <button
+                onClick={() => setSkillFilter('all')}
+                style={{
+                  padding: '8px 16px',
+                  fontSize: theme.fontSizes[1],
+                  fontFamily: theme.fonts.body,
+                  border: `1px solid ${skillFilter === 'all' ? theme.colors.primary : theme.colors.border}`,
+                  borderRadius: theme.radii[1],
+                  background: skillFilter === 'all' ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
+                  color: skillFilter === 'all' ? theme.colors.primary : theme.colors.text,
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  fontWeight: skillFilter === 'all' ? 600 : 400,
+                  transition: 'all 0.2s ease',
+                }}
+              >
+                All Skills
+              </button>
+              <button
+                onClick={() => setSkillFilter('project')}
+                style={{
+                  padding: '8px 16px',
+                  fontSize: theme.fontSizes[1],
+                  fontFamily: theme.fonts.body,
+                  border: `1px solid ${skillFilter === 'project' ? theme.colors.primary : theme.colors.border}`,
+                  borderRadius: theme.radii[1],
+                  background: skillFilter === 'project' ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
+                  color: skillFilter === 'project' ? theme.colors.primary : theme.colors.text,
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  fontWeight: skillFilter === 'project' ? 600 : 400,
+                  transition: 'all 0.2s ease',
+                }}
+              >
+                {browseMode ? 'Git Repo' : 'Project'}
+              </button>
+              <button
+                onClick={() => setSkillFilter('global')}
+                style={{
+                  padding: '8px 16px',
+                  fontSize: theme.fontSizes[1],
+                  fontFamily: theme.fonts.body,
+                  border: `1px solid ${skillFilter === 'global' ? theme.colors.primary : theme.colors.border}`,
+                  borderRadius: theme.radii[1],
+                  background: skillFilter === 'global' ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
+                  color: skillFilter === 'global' ? theme.colors.primary : theme.colors.text,
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                  fontWeight: skillFilter === 'global' ? 600 : 400,
+                  transition: 'all 0.2s ease',
+                }}
+              >
+                Global
+              </button>
+              {/* One filter per discovery root, once more than one contributed skills */}
+              {activeRoots.length > 1 &&
+                activeRoots.map((root) => {
+                  const filter: SkillFilter = `root:${root.id}`;
+                  const isActive = skillFilter === filter;
+                  return (
+                    <button
+                      key={root.id}
+                      onClick={() => setSkillFilter(filter)}
+                      style={{
+                        padding: '8px 16px',
+                        fontSize: theme.fontSizes[1],
+                        fontFamily: theme.fonts.body,
+                        border: `1px solid ${isActive ? root.color : theme.colors.border}`,
+                        borderRadius: theme.radii[1],
+                        background: isActive ? `${root.color}15` : theme.colors.backgroundSecondary,
+                        color: isActive ? root.color : theme.colors.text,
+                        cursor: 'pointer',
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        fontWeight: isActive ? 600 : 400,
+                        transition: 'all 0.2s ease',
+                      }}
+                      title={root.glob}
+                    >
+                      <span
+                        style={{
+                          width: '8px',
+                          height: '8px',
+                          borderRadius: '50%',
+                          background: root.color,
+                        }}
+                      />
+                      {root.label}
+                    </button>
+                  );
+                })}
+            </>
+          )}
+
+          {/* Effective-only toggle: hide copies shadowed by a higher-precedence skill */}
           <button
-            onClick={() => setSkillFilter('all')}
-            style={{
-              padding: '8px 16px',
-              fontSize: theme.fontSizes[1],
-              fontFamily: theme.fonts.body,
-              border: `1px solid ${skillFilter === 'all' ? theme.colors.primary : theme.colors.border}`,
-              borderRadius: theme.radii[1],
-              background: skillFilter === 'all' ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
-              color: skillFilter === 'all' ? theme.colors.primary : theme.colors.text,
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              gap: '6px',
-              fontWeight: skillFilter === 'all' ? 600 : 400,
-              transition: 'all 0.2s ease',
-            }}
-          >
-            All Skills
-          </button>
-          <button
-            onClick={() => setSkillFilter('project')}
-            style={{
-              padding: '8px 16px',
-              fontSize: theme.fontSizes[1],
-              fontFamily: theme.fonts.body,
-              border: `1px solid ${skillFilter === 'project' ? theme.colors.primary : theme.colors.border}`,
-              borderRadius: theme.radii[1],
-              background: skillFilter === 'project' ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
-              color: skillFilter === 'project' ? theme.colors.primary : theme.colors.text,
-              cursor: 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              gap: '6px',
-              fontWeight: skillFilter === 'project' ? 600 : 400,
-              transition: 'all 0.2s ease',
-            }}
-          >
-            {browseMode ? 'Git Repo' : 'Project'}
-          </button>
-          <button
-            onClick={() => setSkillFilter('global')}
+            onClick={() => setEffectiveOnly(!effectiveOnly)}
+            aria-pressed={effectiveOnly}
             style={{
+              marginLeft: 'auto',
               padding: '8px 16px',
               fontSize: theme.fontSizes[1],
               fontFamily: theme.fonts.body,
-              border: `1px solid ${skillFilter === 'global' ? theme.colors.primary : theme.colors.border}`,
+              border: `1px solid ${effectiveOnly ? theme.colors.primary : theme.colors.border}`,
               borderRadius: theme.radii[1],
-              background: skillFilter === 'global' ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
-              color: skillFilter === 'global' ? theme.colors.primary : theme.colors.text,
+              background: effectiveOnly ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
+              color: effectiveOnly ? theme.colors.primary : theme.colors.text,
               cursor: 'pointer',
               display: 'flex',
               alignItems: 'center',
               gap: '6px',
-              fontWeight: skillFilter === 'global' ? 600 : 400,
+              fontWeight: effectiveOnly ? 600 : 400,
               transition: 'all 0.2s ease',
             }}
+            title="Only show the copy of each skill that agents actually load"
           >
-            Global
+            <Layers size={14} />
+            Effective only
+            {shadowedCount > 0 && (
+              <span style={{ color: theme.colors.textSecondary, fontWeight: 400 }}>
+                ({shadowedCount} shadowed)
+              </span>
+            )}
           </button>
         </div>
       )}
@@ -360,71 +944,207 @@ export const SkillsListPanel: React.FC<SkillsListPanelProps> = ({
         </div>
       )}
 
-      {/* Content */}
-      <div
-        style={{
-          flex: 1,
-          overflowY: 'auto',
-          minHeight: 0,
-        }}
-      >
-        {isLoading ? (
-          <div
-            style={{
-              height: '100%',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              color: theme.colors.textSecondary,
-              fontSize: theme.fontSizes[2],
-            }}
-          >
-            Loading skills...
-          </div>
-        ) : filteredSkills.length === 0 ? (
-          <div
-            style={{
-              height: '100%',
-              display: 'flex',
-              flexDirection: 'column',
-              alignItems: 'center',
-              justifyContent: 'center',
-              gap: '16px',
-              color: theme.colors.textSecondary,
-              padding: '24px',
-            }}
-          >
-            <FileCode size={48} color={theme.colors.border} />
-            <div style={{ textAlign: 'center' }}>
-              <p style={{ margin: 0, fontSize: theme.fontSizes[2] }}>
-                {searchQuery ? 'No skills match your search' : 'No skills found'}
-              </p>
-              <p style={{ margin: '8px 0 0 0', fontSize: theme.fontSizes[1] }}>
-                {searchQuery
-                  ? 'Try a different search term'
-                  : 'Add SKILL.md files to your repository to get started'}
-              </p>
-            </div>
-          </div>
+      {/* Skill created, but the list didn't pick it up */}
+      {createReloadError && (
+        <div
+          role="alert"
+          style={{
+            flexShrink: 0,
+            padding: '12px',
+            background: `${theme.colors.warning}20`,
+            border: `1px solid ${theme.colors.warning}`,
+            borderRadius: theme.radii[2],
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            color: theme.colors.warning,
+            fontSize: theme.fontSizes[1],
+          }}
+        >
+          <AlertCircle size={16} />
+          <span style={{ flex: 1 }}>{createReloadError}</span>
+          {pendingCreatedPath && (
+            <button
+              onClick={() => reloadCreatedSkill(pendingCreatedPath)}
+              style={{
+                padding: '4px 10px',
+                fontSize: theme.fontSizes[0],
+                fontFamily: theme.fonts.body,
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                background: theme.colors.backgroundSecondary,
+                color: theme.colors.text,
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+              }}
+            >
+              <RefreshCw size={12} />
+              Retry
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Skills that were found but failed to load */}
+      <SkillLoadErrorsList loadErrors={loadErrors} onRetry={retrySkill} />
+
+      {/* Inventory summary */}
+      {skills.length > 0 && (
+        <SkillInventorySummary
+          inventory={inventory}
+          discoveryRoots={discoveryRoots}
+          searchQuery={searchQuery}
+          activeSourceId={skillFilter.startsWith('root:') ? skillFilter.slice('root:'.length) : null}
+          isSortedByFiles={sortKey === 'files'}
+          onSourceClick={handleInventorySourceClick}
+          onQueryFiltersToggle={handleInventoryFiltersToggle}
+          onFilesClick={() => setSortKey(sortKey === 'files' ? 'relevance' : 'files')}
+        />
+      )}
+
+      {/* Sort, group and view mode controls */}
+      {skills.length > 0 && (
+        <SkillListControls
+          sortKey={sortKey}
+          groupBy={groupBy}
+          viewMode={viewMode}
+          isMultiSelect={isMultiSelect}
+          onSortChange={setSortKey}
+          onGroupChange={setGroupBy}
+          onViewModeChange={setViewMode}
+          onMultiSelectChange={handleMultiSelectChange}
+        />
+      )}
+
+      {/* Bulk actions for checked skills */}
+      {isMultiSelect && (
+        <SkillBulkActionBar
+          selectedCount={checkedSkills.length}
+          filteredCount={filteredSkills.length}
+          selectedFilteredCount={filteredSkills.filter((skill) => checkedSkillIds.has(skill.id)).length}
+          onToggleSelectAll={handleToggleSelectAll}
+          onExit={() => handleMultiSelectChange(false)}
+          onExport={handleBulkExport}
+          onOpenAll={actions.openFile ? handleBulkOpen : undefined}
+          copyTargets={copyTargets}
+          onCopy={handleBulkCopy}
+          onDelete={fileSystem?.deleteFile ? handleBulkDelete : undefined}
+          isBusy={isBulkBusy}
+          status={bulkStatus}
+        />
+      )}
+
+      {/* Content: facet sidebar and list (the list view scrolls itself) */}
+      <div style={{ flex: 1, minHeight: 0, display: 'flex', gap: '12px' }}>
+        {!isLoading && skills.length > 0 && (isFacetSidebarOpen ? (
+          <SkillFacetSidebar
+            facets={facetCounts}
+            selection={facets}
+            discoveryRoots={discoveryRoots}
+            onToggle={handleFacetToggle}
+            onClear={() => setFacets({})}
+            onCollapse={() => setIsFacetSidebarOpen(false)}
+          />
         ) : (
-          <div
+          <button
+            onClick={() => setIsFacetSidebarOpen(true)}
+            aria-label="Show filters"
+            title="Show filters"
             style={{
-              display: 'grid',
-              gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))',
-              gap: '16px',
+              alignSelf: 'flex-start',
+              display: 'flex',
               padding: '4px',
+              background: hasActiveFacets(facets) ? `${theme.colors.primary}15` : 'none',
+              border: `1px solid ${hasActiveFacets(facets) ? theme.colors.primary : theme.colors.border}`,
+              borderRadius: theme.radii[1],
+              color: hasActiveFacets(facets) ? theme.colors.primary : theme.colors.textSecondary,
+              cursor: 'pointer',
             }}
           >
-            {filteredSkills.map((skill) => (
-              <SkillCard
-                key={skill.id}
-                skill={skill}
-                onClick={handleSkillClick}
-                isSelected={selectedSkillId === skill.id}
-              />
-            ))}
-          </div>
-        )}
+            <PanelLeftOpen size={14} />
+          </button>
+        ))}
+
+        <div style={{ flex: 1, minHeight: 0, minWidth: 0 }}>
+          {isLoading ? (
+            <div
+              style={{
+                height: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                color: theme.colors.textSecondary,
+                fontSize: theme.fontSizes[2],
+              }}
+            >
+              Loading skills...
+            </div>
+          ) : filteredSkills.length === 0 ? (
+            <div
+              style={{
+                height: '100%',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '16px',
+                color: theme.colors.textSecondary,
+                padding: '24px',
+              }}
+            >
+              <FileCode size={48} color={theme.colors.border} />
+              <div style={{ textAlign: 'center' }}>
+                <p style={{ margin: 0, fontSize: theme.fontSizes[2] }}>
+                  {isFiltering ? 'No skills match your search' : 'No skills found'}
+                </p>
+                <p style={{ margin: '8px 0 0 0', fontSize: theme.fontSizes[1] }}>
+                  {isFiltering
+                    ? 'Try a different search term or clear some filters'
+                    : 'Add SKILL.md files to your repository to get started'}
+                </p>
+              </div>
+              {!isFiltering && writableTargets.length > 0 && !isCreateOpen && (
+                <button
+                  onClick={() => setIsCreateOpen(true)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '8px 16px',
+                    fontSize: theme.fontSizes[1],
+                    fontFamily: theme.fonts.body,
+                    border: `1px solid ${theme.colors.primary}`,
+                    borderRadius: theme.radii[1],
+                    background: `${theme.colors.primary}15`,
+                    color: theme.colors.primary,
+                    cursor: 'pointer',
+                  }}
+                >
+                  <Plus size={14} />
+                  Create a skill
+                </button>
+              )}
+            </div>
+          ) : (
+            <SkillListView
+              groups={skillGroups}
+              viewMode={viewMode}
+              collapsedGroups={collapsedGroups}
+              onToggleGroup={toggleGroup}
+              selectedSkillId={selectedSkillId}
+              onSkillClick={handleSkillClick}
+              discoveryRoots={discoveryRoots}
+              searchMatches={searchMatches}
+              tableSort={tableSort}
+              onTableSortChange={setTableSort}
+              listRef={listRef}
+              checkedSkillIds={isMultiSelect ? checkedSkillIds : undefined}
+              onSkillToggle={handleSkillToggle}
+            />
+          )}
+        </div>
       </div>
 
       {/* Animation styles */}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+
+interface HighlightedTextProps {
+  text: string;
+  // Character positions to highlight, as returned by fuzzyMatch
+  indices?: number[];
+}
+
+/**
+ * Helper to merge sorted character positions into [start, end) ranges
+ */
+const toRanges = (indices: number[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const index of indices) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === index) {
+      last[1] = index + 1;
+    } else {
+      ranges.push([index, index + 1]);
+    }
+  }
+  return ranges;
+};
+
+/**
+ * HighlightedText - Renders text with search matches marked
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, indices }) => {
+  const { theme } = useTheme();
+
+  if (!indices || indices.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of toRanges(indices)) {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark
+        key={start}
+        style={{
+          background: `${theme.colors.primary}30`,
+          color: 'inherit',
+          borderRadius: '2px',
+        }}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
@@ -0,0 +1,521 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ChevronDown, ChevronRight, Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { SkillCodePreview } from './SkillCodePreview';
+import {
+  formatByteSize,
+  getImageMimeType,
+  getSvgSize,
+  parseCsv,
+  toHexDump,
+  toSvgDataUrl,
+} from '../utils/assetPreview';
+import { getFileLanguage, type SkillFilePreviewKind } from '../utils/skillFiles';
+import { parseYaml, type YamlValue } from '../utils/yaml';
+
+interface SkillAssetPreviewProps {
+  path: string;
+  kind: Exclude<SkillFilePreviewKind, 'markdown' | 'code'>;
+  // Text of svg, data and csv files
+  content?: string;
+  // Bytes of images and binaries
+  bytes?: Uint8Array;
+}
+
+// Zoom steps of the image viewer; null fits the image to the panel
+const ZOOM_LEVELS = [0.25, 0.5, 1, 2, 4, 8];
+
+// Rows rendered by the CSV table and bytes shown by the hex dump
+const MAX_CSV_ROWS = 500;
+const HEX_DUMP_BYTES = 512;
+
+// Nesting depth the data tree opens to by default
+const DATA_TREE_OPEN_DEPTH = 2;
+
+interface ViewToggleProps {
+  options: string[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * ViewToggle - Segmented switch between the rendered and source views
+ */
+const ViewToggle: React.FC<ViewToggleProps> = ({ options, value, onChange }) => {
+  const { theme } = useTheme();
+
+  return (
+    <div role="radiogroup" style={{ display: 'flex', gap: '0.25rem' }}>
+      {options.map((option) => (
+        <button
+          key={option}
+          role="radio"
+          aria-checked={option === value}
+          onClick={() => onChange(option)}
+          style={{
+            padding: '0.125rem 0.5rem',
+            fontSize: theme.fontSizes[0],
+            fontFamily: theme.fonts.body,
+            border: `1px solid ${option === value ? theme.colors.primary : theme.colors.border}`,
+            borderRadius: theme.radii[1],
+            background: option === value ? `${theme.colors.primary}15` : 'none',
+            color: option === value ? theme.colors.primary : theme.colors.textSecondary,
+            cursor: 'pointer',
+          }}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+interface ImageViewerProps {
+  src: string;
+  // Size known before loading (SVGs that only declare a viewBox)
+  initialSize?: { width: number; height: number } | null;
+  alt: string;
+  sizeLabel: string;
+  onError?: () => void;
+}
+
+/**
+ * ImageViewer - Image on a checkerboard with fit, zoom in and zoom out controls
+ */
+const ImageViewer: React.FC<ImageViewerProps> = ({
+  src,
+  initialSize = null,
+  alt,
+  sizeLabel,
+  onError,
+}) => {
+  const { theme } = useTheme();
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [dimensions, setDimensions] = useState(initialSize);
+  const zoomIndex = zoom === null ? -1 : ZOOM_LEVELS.indexOf(zoom);
+
+  const zoomBy = (step: number) => {
+    const current = zoomIndex === -1 ? ZOOM_LEVELS.indexOf(1) : zoomIndex;
+    const next = Math.min(Math.max(current + step, 0), ZOOM_LEVELS.length - 1);
+    setZoom(ZOOM_LEVELS[next]);
+  };
+
+  const controlStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.25rem',
+    padding: '0.25rem 0.5rem',
+    fontSize: theme.fontSizes[0],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.backgroundSecondary,
+    color: theme.colors.text,
+    cursor: 'pointer',
+  };
+  const imageStyle: React.CSSProperties =
+    zoom === null
+      ? { maxWidth: '100%', maxHeight: '100%' }
+      : dimensions
+        ? { width: dimensions.width * zoom, height: dimensions.height * zoom, maxWidth: 'none' }
+        : {};
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <div
+        style={{
+          flexShrink: 0,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          padding: '0.5rem 1rem',
+          fontSize: theme.fontSizes[0],
+          color: theme.colors.textSecondary,
+          fontFamily: theme.fonts.body,
+        }}
+      >
+        <span>
+          {dimensions ? `${dimensions.width} × ${dimensions.height} · ` : ''}
+          {sizeLabel}
+        </span>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.25rem' }}>
+          <button
+            onClick={() => zoomBy(-1)}
+            disabled={zoomIndex === 0}
+            aria-label="Zoom out"
+            style={controlStyle}
+          >
+            <ZoomOut size={14} />
+          </button>
+          <button onClick={() => setZoom(1)} aria-pressed={zoom === 1} style={controlStyle}>
+            {zoom === null ? 'Fit' : `${Math.round(zoom * 100)}%`}
+          </button>
+          <button
+            onClick={() => zoomBy(1)}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            aria-label="Zoom in"
+            style={controlStyle}
+          >
+            <ZoomIn size={14} />
+          </button>
+          <button
+            onClick={() => setZoom(null)}
+            aria-label="Fit to panel"
+            aria-pressed={zoom === null}
+            style={controlStyle}
+          >
+            <Maximize size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div
+        style={{
+          flex: 1,
+          minHeight: 0,
+          overflow: 'auto',
+          display: 'flex',
+          padding: '1rem',
+          // Checkerboard so transparent areas are visible
+          backgroundColor: theme.colors.backgroundSecondary,
+          backgroundImage: `linear-gradient(45deg, ${theme.colors.border} 25%, transparent 25%, transparent 75%, ${theme.colors.border} 75%), linear-gradient(45deg, ${theme.colors.border} 25%, transparent 25%, transparent 75%, ${theme.colors.border} 75%)`,
+          backgroundSize: '16px 16px',
+          backgroundPosition: '0 0, 8px 8px',
+        }}
+      >
+        <img
+          src={src}
+          alt={alt}
+          onLoad={(e) => {
+            const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+            // A size read from the SVG itself wins: viewBox-only SVGs load at a default size
+            if (width > 0 && height > 0) setDimensions((current) => current ?? { width, height });
+          }}
+          onError={onError}
+          style={{ margin: 'auto', objectFit: 'contain', imageRendering: zoom && zoom > 1 ? 'pixelated' : 'auto', ...imageStyle }}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface DataTreeNodeProps {
+  label: string;
+  value: YamlValue;
+  depth: number;
+}
+
+/**
+ * DataTreeNode - One key of a JSON/YAML document, collapsible when it nests
+ */
+const DataTreeNode: React.FC<DataTreeNodeProps> = ({ label, value, depth }) => {
+  const { theme } = useTheme();
+  const [isOpen, setIsOpen] = useState(depth < DATA_TREE_OPEN_DEPTH);
+  const isNested = value !== null && typeof value === 'object';
+  const entries: [string, YamlValue][] = isNested
+    ? Array.isArray(value)
+      ? value.map((item, index) => [String(index), item])
+      : Object.entries(value)
+    : [];
+  const Chevron = isOpen ? ChevronDown : ChevronRight;
+
+  const scalarColor =
+    typeof value === 'string'
+      ? theme.colors.success
+      : value === null
+        ? theme.colors.textSecondary
+        : theme.colors.accent;
+
+  return (
+    <li>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'baseline',
+          gap: '0.375rem',
+          paddingLeft: isNested ? 0 : '1rem',
+        }}
+      >
+        {isNested ? (
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            aria-expanded={isOpen}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.25rem',
+              padding: 0,
+              background: 'none',
+              border: 'none',
+              font: 'inherit',
+              color: theme.colors.text,
+              cursor: 'pointer',
+            }}
+          >
+            <Chevron size={12} color={theme.colors.textSecondary} />
+            <span style={{ color: theme.colors.primary }}>{label}</span>
+          </button>
+        ) : (
+          <span style={{ color: theme.colors.primary }}>{label}:</span>
+        )}
+        {isNested ? (
+          <span style={{ color: theme.colors.textSecondary }}>
+            {Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`}
+          </span>
+        ) : (
+          <span style={{ color: scalarColor, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {typeof value === 'string' ? JSON.stringify(value) : String(value)}
+          </span>
+        )}
+      </div>
+      {isNested && isOpen && (
+        <ul style={{ listStyle: 'none', margin: 0, paddingLeft: '1rem' }}>
+          {entries.map(([key, child]) => (
+            <DataTreeNode key={key} label={key} value={child} depth={depth + 1} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * SkillAssetPreview - Type-aware preview of a skill asset
+ * Images and SVGs get a zoomable viewer, JSON/YAML show as a collapsible tree,
+ * CSV as a table and anything else as a hex dump.
+ */
+export const SkillAssetPreview: React.FC<SkillAssetPreviewProps> = ({
+  path,
+  kind,
+  content,
+  bytes,
+}) => {
+  const { theme } = useTheme();
+  const [view, setView] = useState<string>(kind === 'csv' ? 'Table' : 'Tree');
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [svgFailed, setSvgFailed] = useState(false);
+  const fileName = path.substring(path.lastIndexOf('/') + 1);
+  const size = bytes?.length ?? new TextEncoder().encode(content ?? '').length;
+
+  // Object URLs hold the bytes in memory until revoked
+  useEffect(() => {
+    if (kind !== 'image' || !bytes) return;
+    const url = URL.createObjectURL(
+      new Blob([bytes as BlobPart], { type: getImageMimeType(path) })
+    );
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [kind, bytes, path]);
+
+  const svgUrl = useMemo(
+    () => (kind === 'svg' && content !== undefined ? toSvgDataUrl(content) : null),
+    [kind, content]
+  );
+  const svgSize = useMemo(() => (svgUrl ? getSvgSize(content ?? '') : null), [svgUrl, content]);
+
+  const parsed = useMemo((): { value: unknown } | { error: string } | null => {
+    if (content === undefined) return null;
+    try {
+      if (kind === 'data') {
+        return { value: /\.json$/i.test(path) ? JSON.parse(content) : parseYaml(content) };
+      }
+      if (kind === 'csv') return { value: parseCsv(content, /\.tsv$/i.test(path) ? '\t' : ',') };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+    return null;
+  }, [kind, path, content]);
+
+  const errorNotice = (message: string) => (
+    <div
+      role="alert"
+      style={{
+        padding: '0.5rem 1rem',
+        fontSize: theme.fontSizes[0],
+        fontFamily: theme.fonts.body,
+        color: theme.colors.error,
+        borderBottom: `1px solid ${theme.colors.border}`,
+      }}
+    >
+      {message}
+    </div>
+  );
+
+  const source = (
+    <SkillCodePreview content={content ?? ''} language={getFileLanguage(path, content)} />
+  );
+
+  if (kind === 'image') {
+    return imageUrl ? (
+      <ImageViewer src={imageUrl} alt={fileName} sizeLabel={formatByteSize(size)} />
+    ) : null;
+  }
+
+  if (kind === 'svg') {
+    if (svgFailed) {
+      return (
+        <>
+          {errorNotice("Can't render this SVG: it isn't a well-formed SVG document")}
+          {source}
+        </>
+      );
+    }
+    return svgUrl ? (
+      <ImageViewer
+        src={svgUrl}
+        initialSize={svgSize}
+        alt={fileName}
+        sizeLabel={formatByteSize(size)}
+        onError={() => setSvgFailed(true)}
+      />
+    ) : null;
+  }
+
+  if (kind === 'data' || kind === 'csv') {
+    const views = kind === 'csv' ? ['Table', 'Source'] : ['Tree', 'Source'];
+    const rows = kind === 'csv' && parsed && 'value' in parsed ? (parsed.value as string[][]) : [];
+    const [header = [], ...body] = rows;
+
+    return (
+      <>
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            padding: '0.5rem 1rem',
+            fontSize: theme.fontSizes[0],
+            fontFamily: theme.fonts.body,
+            color: theme.colors.textSecondary,
+          }}
+        >
+          <span>
+            {kind === 'csv' && `${body.length} rows · ${header.length} columns · `}
+            {formatByteSize(size)}
+          </span>
+          <div style={{ marginLeft: 'auto' }}>
+            <ViewToggle options={views} value={view} onChange={setView} />
+          </div>
+        </div>
+
+        {view === 'Source' || !parsed ? (
+          source
+        ) : 'error' in parsed ? (
+          <>
+            {errorNotice(`Can't parse this file: ${parsed.error}`)}
+            {source}
+          </>
+        ) : kind === 'data' ? (
+          <ul
+            style={{
+              listStyle: 'none',
+              margin: 0,
+              padding: '0.5rem 1rem',
+              fontFamily: theme.fonts.monospace,
+              fontSize: theme.fontSizes[1],
+              lineHeight: 1.6,
+            }}
+          >
+            {parsed.value !== null && typeof parsed.value === 'object' ? (
+              Object.entries(parsed.value as Record<string, YamlValue>).map(([key, value]) => (
+                <DataTreeNode key={key} label={key} value={value} depth={0} />
+              ))
+            ) : (
+              <DataTreeNode label="value" value={parsed.value as YamlValue} depth={0} />
+            )}
+          </ul>
+        ) : (
+          <div style={{ padding: '0 1rem 1rem' }}>
+            <table
+              style={{
+                borderCollapse: 'collapse',
+                fontSize: theme.fontSizes[1],
+                fontFamily: theme.fonts.body,
+                color: theme.colors.text,
+              }}
+            >
+              <thead>
+                <tr>
+                  {header.map((cell, index) => (
+                    <th
+                      key={index}
+                      style={{
+                        position: 'sticky',
+                        top: 0,
+                        padding: '0.375rem 0.75rem',
+                        textAlign: 'left',
+                        whiteSpace: 'nowrap',
+                        background: theme.colors.backgroundSecondary,
+                        borderBottom: `1px solid ${theme.colors.border}`,
+                      }}
+                    >
+                      {cell}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {body.slice(0, MAX_CSV_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <td
+                        key={cellIndex}
+                        style={{
+                          padding: '0.25rem 0.75rem',
+                          borderBottom: `1px solid ${theme.colors.border}`,
+                          verticalAlign: 'top',
+                          whiteSpace: 'pre-wrap',
+                        }}
+                      >
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {body.length > MAX_CSV_ROWS && (
+              <p style={{ margin: '0.5rem 0 0', fontSize: theme.fontSizes[0], color: theme.colors.textSecondary }}>
+                Showing the first {MAX_CSV_ROWS} of {body.length} rows
+              </p>
+            )}
+          </div>
+        )}
+      </>
+    );
+  }
+
+  // Binary: size and the first bytes as a hex dump
+  const hexRows = bytes ? toHexDump(bytes, HEX_DUMP_BYTES) : [];
+  return (
+    <div style={{ padding: '0.75rem 1rem', fontFamily: theme.fonts.body, color: theme.colors.text }}>
+      <p style={{ margin: '0 0 0.75rem', fontSize: theme.fontSizes[1] }}>
+        Binary file · {formatByteSize(size)}
+        {size > HEX_DUMP_BYTES && (
+          <span style={{ color: theme.colors.textSecondary }}>
+            {' '}· first {HEX_DUMP_BYTES} bytes shown
+          </span>
+        )}
+      </p>
+      <pre
+        style={{
+          margin: 0,
+          fontFamily: theme.fonts.monospace,
+          fontSize: theme.fontSizes[0],
+          lineHeight: 1.6,
+          color: theme.colors.textSecondary,
+        }}
+      >
+        {hexRows.map((row) => (
+          <div key={row.offset}>
+            <span>{row.offset}</span>
+            {'  '}
+            <span style={{ color: theme.colors.text }}>{row.hex.padEnd(47)}</span>
+            {'  '}
+            <span>{row.ascii}</span>
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import {
+  Copy,
+  Download,
+  ExternalLink,
+  Loader2,
+  Square,
+  SquareCheck,
+  SquareMinus,
+  Trash2,
+  X,
+} from 'lucide-react';
+import type { SkillDiscoveryRoot } from '../utils/discoveryRoots';
+
+export interface SkillBulkActionStatus {
+  kind: 'success' | 'error';
+  message: string;
+}
+
+interface SkillBulkActionBarProps {
+  selectedCount: number;
+  // Skills currently shown after search and filters
+  filteredCount: number;
+  // Number of shown skills that are selected
+  selectedFilteredCount: number;
+  onToggleSelectAll: () => void;
+  onExit: () => void;
+  onExport: () => void;
+  onOpenAll?: () => void;
+  // Roots skills can be copied into; copying is hidden when empty
+  copyTargets: SkillDiscoveryRoot[];
+  onCopy: (rootId: string) => void;
+  // Deleting is hidden when the file system can't delete
+  onDelete?: () => void;
+  isBusy: boolean;
+  status: SkillBulkActionStatus | null;
+}
+
+/**
+ * SkillBulkActionBar - Selection summary and actions for multi-selected skills
+ */
+export const SkillBulkActionBar: React.FC<SkillBulkActionBarProps> = ({
+  selectedCount,
+  filteredCount,
+  selectedFilteredCount,
+  onToggleSelectAll,
+  onExit,
+  onExport,
+  onOpenAll,
+  copyTargets,
+  onCopy,
+  onDelete,
+  isBusy,
+  status,
+}) => {
+  const { theme } = useTheme();
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const isDisabled = selectedCount === 0 || isBusy;
+
+  const SelectAllIcon =
+    selectedFilteredCount === 0
+      ? Square
+      : selectedFilteredCount === filteredCount
+        ? SquareCheck
+        : SquareMinus;
+
+  const buttonStyle = (
+    color: string = theme.colors.text
+  ): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '4px 8px',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.backgroundSecondary,
+    color,
+    cursor: isDisabled ? 'not-allowed' : 'pointer',
+    opacity: isDisabled ? 0.5 : 1,
+  });
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      style={{
+        flexShrink: 0,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        flexWrap: 'wrap',
+        padding: '8px 12px',
+        background: `${theme.colors.primary}10`,
+        border: `1px solid ${theme.colors.primary}40`,
+        borderRadius: theme.radii[2],
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[1],
+        color: theme.colors.text,
+      }}
+    >
+      <button
+        onClick={onToggleSelectAll}
+        aria-label={
+          selectedFilteredCount === filteredCount
+            ? 'Deselect all shown skills'
+            : 'Select all shown skills'
+        }
+        style={{ ...buttonStyle(), opacity: 1, cursor: 'pointer' }}
+      >
+        <SelectAllIcon size={14} />
+      </button>
+      <span style={{ fontWeight: 600 }}>{selectedCount} selected</span>
+      {isBusy && (
+        <Loader2
+          size={14}
+          color={theme.colors.primary}
+          style={{ animation: 'spin 1s linear infinite' }}
+        />
+      )}
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          marginLeft: 'auto',
+          flexWrap: 'wrap',
+        }}
+      >
+        <button
+          onClick={onExport}
+          disabled={isDisabled}
+          style={buttonStyle()}
+          title="Download the selected skills as JSON"
+        >
+          <Download size={14} />
+          Export
+        </button>
+
+        {copyTargets.length > 0 && (
+          <label style={{ ...buttonStyle(), gap: '6px' }}>
+            <Copy size={14} />
+            <select
+              value=""
+              disabled={isDisabled}
+              onChange={(e) => e.target.value && onCopy(e.target.value)}
+              aria-label="Copy selected skills to"
+              style={{
+                border: 'none',
+                background: 'transparent',
+                color: 'inherit',
+                fontSize: 'inherit',
+                fontFamily: 'inherit',
+                cursor: 'inherit',
+              }}
+            >
+              <option value="">Copy to…</option>
+              {copyTargets.map((root) => (
+                <option key={root.id} value={root.id}>
+                  {root.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {onOpenAll && (
+          <button
+            onClick={onOpenAll}
+            disabled={isDisabled}
+            style={buttonStyle()}
+            title="Open each SKILL.md in the editor"
+          >
+            <ExternalLink size={14} />
+            Open all
+          </button>
+        )}
+
+        {!onDelete ? null : isConfirmingDelete ? (
+          <>
+            <button
+              onClick={() => {
+                setIsConfirmingDelete(false);
+                onDelete();
+              }}
+              disabled={isDisabled}
+              style={{
+                ...buttonStyle(theme.colors.error),
+                borderColor: theme.colors.error,
+              }}
+            >
+              <Trash2 size={14} />
+              Delete {selectedCount} {selectedCount === 1 ? 'skill' : 'skills'}
+            </button>
+            <button
+              onClick={() => setIsConfirmingDelete(false)}
+              style={{ ...buttonStyle(), opacity: 1, cursor: 'pointer' }}
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setIsConfirmingDelete(true)}
+            disabled={isDisabled}
+            style={buttonStyle(theme.colors.error)}
+          >
+            <Trash2 size={14} />
+            Delete
+          </button>
+        )}
+
+        <button
+          onClick={onExit}
+          aria-label="Exit selection mode"
+          title="Exit selection mode"
+          style={{
+            ...buttonStyle(theme.colors.textSecondary),
+            opacity: 1,
+            cursor: 'pointer',
+          }}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {status && (
+        <div
+          role="status"
+          style={{
+            flexBasis: '100%',
+            fontSize: theme.fontSizes[0],
+            color:
+              status.kind === 'error'
+                ? theme.colors.error
+                : theme.colors.success,
+            whiteSpace: 'pre-line',
+          }}
+        >
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
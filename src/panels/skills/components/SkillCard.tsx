@@ -1,60 +1,66 @@
 import React from 'react';
 import { useTheme } from '@principal-ade/industry-theme';
-import { FileText, ChevronRight, Code, BookOpen, Package, Globe, Folder, Github } from 'lucide-react';
+import { FileText, ChevronRight, Code, BookOpen, Package, Globe, Folder, Github, AlertCircle, AlertTriangle, EyeOff, Square, SquareCheck } from 'lucide-react';
 import type { Skill, SkillSource } from '../hooks/useSkillsData';
+import {
+  DEFAULT_SKILL_ROOTS,
+  findSkillRoot,
+  getRootScope,
+  type SkillDiscoveryRoot,
+} from '../utils/discoveryRoots';
+import { countDiagnostics } from '../utils/validateSkill';
+import type { SkillSearchMatches } from '../utils/fuzzySearch';
+import { getIntegrityConfig } from './SkillIntegrityReport';
+import { HighlightedText } from './HighlightedText';
 
 interface SkillCardProps {
   skill: Skill;
-  onClick?: (skill: Skill) => void;
+  onClick?: (skill: Skill, event: React.MouseEvent) => void;
   isSelected?: boolean;
+  // Checkbox state in multi-select mode; no checkbox when undefined
+  isChecked?: boolean;
+  // Keyboard cursor of the surrounding listbox; draws the focus ring
+  isActive?: boolean;
+  // Element id, referenced by the listbox's aria-activedescendant
+  id?: string;
+  // Roots used to label the source badge
+  discoveryRoots?: SkillDiscoveryRoot[];
+  // Characters matched by the current search, highlighted per field
+  matches?: SkillSearchMatches;
 }
 
 /**
- * Helper to get source badge configuration
+ * Helper to get source badge configuration from the skill's discovery root
  */
-const getSourceConfig = (source: SkillSource) => {
-  switch (source) {
-    case 'global-universal':
-      return {
-        label: 'Global',
-        icon: Globe,
-        color: '#7c3aed', // purple
-        bgColor: '#7c3aed15',
-        borderColor: '#7c3aed30',
-      };
-    case 'global-claude':
-      return {
-        label: 'Global Claude',
-        icon: Globe,
-        color: '#0891b2', // cyan
-        bgColor: '#0891b215',
-        borderColor: '#0891b230',
-      };
-    case 'project-universal':
-      return {
-        label: 'Project',
-        icon: Folder,
-        color: '#16a34a', // green
-        bgColor: '#16a34a15',
-        borderColor: '#16a34a30',
-      };
-    case 'project-claude':
-      return {
-        label: 'Project Claude',
-        icon: Folder,
-        color: '#0284c7', // blue
-        bgColor: '#0284c715',
-        borderColor: '#0284c730',
-      };
-    case 'project-other':
-      return {
-        label: 'Project',
-        icon: Folder,
-        color: '#64748b', // slate
-        bgColor: '#64748b15',
-        borderColor: '#64748b30',
-      };
-  }
+export const getSourceConfig = (
+  source: SkillSource,
+  roots: SkillDiscoveryRoot[] = DEFAULT_SKILL_ROOTS
+) => {
+  const root = findSkillRoot(roots, source);
+  return {
+    label: root.label,
+    icon: getRootScope(root) === 'global' ? Globe : Folder,
+    color: root.color,
+    bgColor: `${root.color}15`,
+    borderColor: `${root.color}30`,
+  };
+};
+
+/**
+ * SkillCheckbox - Checkbox shown on skills in multi-select mode
+ * Purely visual: the surrounding option carries the state in aria-selected.
+ */
+export const SkillCheckbox: React.FC<{ isChecked: boolean }> = ({ isChecked }) => {
+  const { theme } = useTheme();
+  const Icon = isChecked ? SquareCheck : Square;
+  return (
+    <Icon
+      size={16}
+      aria-hidden
+      color={isChecked ? theme.colors.primary : theme.colors.textSecondary}
+      style={{ flexShrink: 0 }}
+    />
+  );
 };
 
 /**
@@ -64,13 +70,24 @@ export const SkillCard: React.FC<SkillCardProps> = ({
   skill,
   onClick,
   isSelected = false,
+  isActive = false,
+  isChecked,
+  id,
+  discoveryRoots,
+  matches,
 }) => {
   const { theme } = useTheme();
-  const sourceConfig = getSourceConfig(skill.source);
+  const sourceConfig = getSourceConfig(skill.source, discoveryRoots);
+  const { errors, warnings } = countDiagnostics(skill.diagnostics);
+  const diagnosticsColor = errors > 0 ? theme.colors.error : theme.colors.warning;
+  const integrityConfig = skill.integrity && getIntegrityConfig(skill.integrity.status, theme);
 
   return (
     <div
-      onClick={() => onClick?.(skill)}
+      id={id}
+      role="option"
+      aria-selected={isSelected}
+      onClick={(e) => onClick?.(skill, e)}
       style={{
         padding: '16px',
         background: isSelected ? `${theme.colors.primary}10` : theme.colors.surface,
@@ -84,6 +101,10 @@ export const SkillCard: React.FC<SkillCardProps> = ({
         ...(isSelected && {
           boxShadow: `0 0 0 1px ${theme.colors.primary}`,
         }),
+        ...(isActive && {
+          outline: `2px solid ${theme.colors.primary}`,
+          outlineOffset: '2px',
+        }),
       }}
       onMouseEnter={(e) => {
         if (onClick && !isSelected) {
@@ -101,6 +122,7 @@ export const SkillCard: React.FC<SkillCardProps> = ({
       {/* Header with icon and name */}
       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
         <div style={{ display: 'flex', alignItems: 'center', gap: '10px', flex: 1, minWidth: 0 }}>
+          {isChecked !== undefined && <SkillCheckbox isChecked={isChecked} />}
           <div
             style={{
               width: '36px',
@@ -128,7 +150,7 @@ export const SkillCard: React.FC<SkillCardProps> = ({
                 textTransform: 'capitalize',
               }}
             >
-              {skill.name}
+              <HighlightedText text={skill.name} indices={matches?.name} />
             </h3>
             {/* Source badge */}
             <div style={{ display: 'flex', gap: '4px', alignItems: 'center', flexWrap: 'wrap' }}>
@@ -175,6 +197,85 @@ export const SkillCard: React.FC<SkillCardProps> = ({
                   <span>{skill.metadata.owner}/{skill.metadata.repo}</span>
                 </div>
               )}
+
+              {/* Integrity badge (installed skills compared with .metadata.json) */}
+              {integrityConfig && (
+                <div
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    padding: '2px 6px',
+                    borderRadius: theme.radii[1],
+                    backgroundColor: `${integrityConfig.color}15`,
+                    border: `1px solid ${integrityConfig.color}30`,
+                    fontSize: theme.fontSizes[0],
+                    color: integrityConfig.color,
+                    fontWeight: 500,
+                    width: 'fit-content',
+                  }}
+                  title={`Integrity: ${integrityConfig.label}`}
+                >
+                  <integrityConfig.icon size={10} />
+                  <span>{integrityConfig.label}</span>
+                </div>
+              )}
+
+              {/* Shadowed badge (a higher-precedence copy of this skill is live) */}
+              {skill.shadowedBy && (
+                <div
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    padding: '2px 6px',
+                    borderRadius: theme.radii[1],
+                    backgroundColor: `${theme.colors.textMuted}15`,
+                    border: `1px solid ${theme.colors.textMuted}30`,
+                    fontSize: theme.fontSizes[0],
+                    color: theme.colors.textMuted,
+                    fontWeight: 500,
+                    width: 'fit-content',
+                  }}
+                  title={`Shadowed by: ${skill.shadowedBy}`}
+                >
+                  <EyeOff size={10} />
+                  <span>Shadowed</span>
+                </div>
+              )}
+
+              {/* Diagnostics badge (if the linter found problems) */}
+              {(errors > 0 || warnings > 0) && (
+                <div
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: '6px',
+                    padding: '2px 6px',
+                    borderRadius: theme.radii[1],
+                    backgroundColor: `${diagnosticsColor}15`,
+                    border: `1px solid ${diagnosticsColor}30`,
+                    fontSize: theme.fontSizes[0],
+                    color: diagnosticsColor,
+                    fontWeight: 500,
+                    width: 'fit-content',
+                  }}
+                  title={skill.diagnostics?.map((d) => `${d.severity}: ${d.message}`).join('\n')}
+                >
+                  {errors > 0 && (
+                    <span style={{ display: 'inline-flex', alignItems: 'center', gap: '3px', color: theme.colors.error }}>
+                      <AlertCircle size={10} />
+                      {errors}
+                    </span>
+                  )}
+                  {warnings > 0 && (
+                    <span style={{ display: 'inline-flex', alignItems: 'center', gap: '3px', color: theme.colors.warning }}>
+                      <AlertTriangle size={10} />
+                      {warnings}
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -201,7 +302,7 @@ export const SkillCard: React.FC<SkillCardProps> = ({
             overflow: 'hidden',
           }}
         >
-          {skill.description}
+          <HighlightedText text={skill.description} indices={matches?.description} />
         </p>
       )}
 
@@ -239,7 +340,7 @@ export const SkillCard: React.FC<SkillCardProps> = ({
                   WebkitBoxOrient: 'vertical',
                 }}
               >
-                {capability}
+                <HighlightedText text={capability} indices={matches?.capabilities?.[index]} />
               </span>
             </div>
           ))}
@@ -327,7 +428,7 @@ export const SkillCard: React.FC<SkillCardProps> = ({
         }}
         title={skill.path}
       >
-        {skill.path}
+        <HighlightedText text={skill.path} indices={matches?.path} />
       </div>
     </div>
   );
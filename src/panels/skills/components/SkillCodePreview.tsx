@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import css from 'highlight.js/lib/languages/css';
+import go from 'highlight.js/lib/languages/go';
+import ini from 'highlight.js/lib/languages/ini';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import powershell from 'highlight.js/lib/languages/powershell';
+import python from 'highlight.js/lib/languages/python';
+import ruby from 'highlight.js/lib/languages/ruby';
+import rust from 'highlight.js/lib/languages/rust';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+
+// Only the languages skills commonly ship, to keep the bundle small
+const LANGUAGES = {
+  bash,
+  css,
+  go,
+  ini,
+  javascript,
+  json,
+  powershell,
+  python,
+  ruby,
+  rust,
+  sql,
+  typescript,
+  xml,
+  yaml,
+};
+for (const [name, language] of Object.entries(LANGUAGES)) {
+  if (!hljs.getLanguage(name)) hljs.registerLanguage(name, language);
+}
+
+interface SkillCodePreviewProps {
+  content: string;
+  // highlight.js language; plain text when missing or unknown
+  language?: string;
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * SkillCodePreview - Read-only source view with syntax highlighting and line numbers
+ */
+export const SkillCodePreview: React.FC<SkillCodePreviewProps> = ({ content, language }) => {
+  const { theme } = useTheme();
+
+  const html = useMemo(() => {
+    if (language && hljs.getLanguage(language)) {
+      try {
+        return hljs.highlight(content, { language, ignoreIllegals: true }).value;
+      } catch {
+        // Fall through to plain text
+      }
+    }
+    return escapeHtml(content);
+  }, [content, language]);
+
+  const lineCount = content.replace(/\n$/, '').split('\n').length;
+  const lineHeight = 1.5;
+
+  // Token colours follow the panel theme instead of a fixed highlight.js theme
+  const tokenStyles = `
+    .skill-code-preview .hljs-keyword,
+    .skill-code-preview .hljs-built_in,
+    .skill-code-preview .hljs-selector-tag { color: ${theme.colors.primary}; }
+    .skill-code-preview .hljs-string,
+    .skill-code-preview .hljs-attr,
+    .skill-code-preview .hljs-template-variable { color: ${theme.colors.success}; }
+    .skill-code-preview .hljs-number,
+    .skill-code-preview .hljs-literal,
+    .skill-code-preview .hljs-variable { color: ${theme.colors.accent}; }
+    .skill-code-preview .hljs-title,
+    .skill-code-preview .hljs-name,
+    .skill-code-preview .hljs-section { color: ${theme.colors.secondary}; }
+    .skill-code-preview .hljs-comment,
+    .skill-code-preview .hljs-meta { color: ${theme.colors.textSecondary}; font-style: italic; }
+  `;
+
+  return (
+    <div
+      className="skill-code-preview"
+      style={{
+        display: 'flex',
+        fontFamily: theme.fonts.monospace,
+        fontSize: theme.fontSizes[1],
+        lineHeight,
+        color: theme.colors.text,
+      }}
+    >
+      <style>{tokenStyles}</style>
+      <pre
+        aria-hidden="true"
+        style={{
+          margin: 0,
+          padding: '0.75rem 0.75rem 0.75rem 1rem',
+          textAlign: 'right',
+          color: theme.colors.textSecondary,
+          userSelect: 'none',
+          borderRight: `1px solid ${theme.colors.border}`,
+          fontFamily: 'inherit',
+          lineHeight: 'inherit',
+        }}
+      >
+        {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+      </pre>
+      <pre
+        style={{
+          margin: 0,
+          padding: '0.75rem 1rem',
+          flex: 1,
+          minWidth: 0,
+          overflowX: 'auto',
+          fontFamily: 'inherit',
+          lineHeight: 'inherit',
+        }}
+      >
+        <code dangerouslySetInnerHTML={{ __html: html }} />
+      </pre>
+    </div>
+  );
+};
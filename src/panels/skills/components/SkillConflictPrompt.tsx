@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { mergeThreeWay } from '../utils/threeWayMerge';
+
+interface SkillConflictPromptProps {
+  // Content when editing started
+  base: string;
+  // Content in the editor
+  ours: string;
+  // Content now on disk
+  theirs: string;
+  onMerge: () => void;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onCancel: () => void;
+  isBusy: boolean;
+}
+
+/**
+ * SkillConflictPrompt - Shown instead of saving when the file changed on disk
+ * Lays out the original, edited and on-disk versions side by side and offers
+ * to merge them, overwrite the disk copy, or drop the edits.
+ */
+export const SkillConflictPrompt: React.FC<SkillConflictPromptProps> = ({
+  base,
+  ours,
+  theirs,
+  onMerge,
+  onKeepMine,
+  onTakeTheirs,
+  onCancel,
+  isBusy,
+}) => {
+  const { theme } = useTheme();
+  const { conflicts } = useMemo(() => mergeThreeWay(base, ours, theirs), [base, ours, theirs]);
+
+  const versions = [
+    { label: 'Original', content: base },
+    { label: 'Yours', content: ours },
+    { label: 'On disk', content: theirs },
+  ];
+
+  const buttonStyle = (color: string = theme.colors.text): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.375rem',
+    padding: '0.375rem 0.75rem',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.backgroundSecondary,
+    color,
+    cursor: isBusy ? 'not-allowed' : 'pointer',
+    opacity: isBusy ? 0.5 : 1,
+  });
+
+  return (
+    <div
+      role="alertdialog"
+      aria-label="Save conflict"
+      style={{
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '0.75rem',
+        padding: '0.75rem 1rem',
+        borderBottom: `1px solid ${theme.colors.border}`,
+        backgroundColor: `${theme.colors.warning}15`,
+        fontFamily: theme.fonts.body,
+        color: theme.colors.text,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+        <AlertTriangle size={16} color={theme.colors.warning} />
+        <strong style={{ fontSize: theme.fontSizes[1] }}>
+          SKILL.md changed on disk since you started editing
+        </strong>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: '0.5rem' }}>
+        {versions.map(({ label, content }) => (
+          <div key={label} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', minWidth: 0 }}>
+            <span style={{ fontSize: theme.fontSizes[0], color: theme.colors.textSecondary, fontWeight: 600 }}>
+              {label}
+            </span>
+            <pre
+              style={{
+                margin: 0,
+                maxHeight: '180px',
+                overflow: 'auto',
+                padding: '0.5rem',
+                fontFamily: theme.fonts.monospace,
+                fontSize: theme.fontSizes[0],
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: theme.radii[1],
+                backgroundColor: theme.colors.background,
+                whiteSpace: 'pre-wrap',
+                wordBreak: 'break-word',
+              }}
+            >
+              {content}
+            </pre>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button onClick={onMerge} disabled={isBusy} style={buttonStyle(theme.colors.primary)}>
+          <GitMerge size={14} />
+          Merge
+        </button>
+        <span style={{ fontSize: theme.fontSizes[0], color: theme.colors.textSecondary }}>
+          {conflicts === 0
+            ? 'The changes don’t overlap and merge cleanly'
+            : `${conflicts} ${conflicts === 1 ? 'region needs' : 'regions need'} resolving in the editor`}
+        </span>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
+          <button onClick={onKeepMine} disabled={isBusy} style={buttonStyle(theme.colors.error)}>
+            Overwrite with mine
+          </button>
+          <button onClick={onTakeTheirs} disabled={isBusy} style={buttonStyle()}>
+            Discard mine
+          </button>
+          <button onClick={onCancel} disabled={isBusy} style={buttonStyle()}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Loader2, Sparkles, X } from 'lucide-react';
+import { getRootScope, type SkillDiscoveryRoot } from '../utils/discoveryRoots';
+import {
+  SKILL_RESOURCE_FOLDERS,
+  toSkillName,
+  type NewSkill,
+  type SkillResourceFolder,
+} from '../utils/createSkill';
+import {
+  MAX_DESCRIPTION_LENGTH,
+  MAX_NAME_LENGTH,
+  isValidSkillName,
+} from '../utils/validateSkill';
+
+export interface SkillCreateTarget {
+  root: SkillDiscoveryRoot;
+  // Directory the new skill folder is written into
+  directory: string;
+}
+
+interface SkillCreateWizardProps {
+  targets: SkillCreateTarget[];
+  onCreate: (skill: NewSkill, target: SkillCreateTarget) => Promise<void>;
+  onCancel: () => void;
+}
+
+type WizardStep = 'details' | 'location';
+
+/**
+ * SkillCreateWizard - Two-step form that scaffolds a new skill folder
+ * The first step collects the frontmatter, the second where to write it and
+ * which resource folders to include.
+ */
+export const SkillCreateWizard: React.FC<SkillCreateWizardProps> = ({
+  targets,
+  onCreate,
+  onCancel,
+}) => {
+  const { theme } = useTheme();
+  const [step, setStep] = useState<WizardStep>('details');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [rootId, setRootId] = useState(targets[0]?.root.id ?? '');
+  const [folders, setFolders] = useState<SkillResourceFolder[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = targets.find((t) => t.root.id === rootId) ?? targets[0];
+  const nameError =
+    name && !isValidSkillName(name)
+      ? `Use lowercase letters, numbers and single hyphens (at most ${MAX_NAME_LENGTH} characters)`
+      : null;
+  const descriptionError =
+    description.length > MAX_DESCRIPTION_LENGTH
+      ? `At most ${MAX_DESCRIPTION_LENGTH} characters`
+      : null;
+  const canContinue = !!name && !nameError && !!description.trim() && !descriptionError;
+
+  const toggleFolder = (folder: SkillResourceFolder) => {
+    setFolders(
+      folders.includes(folder) ? folders.filter((f) => f !== folder) : [...folders, folder]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!target) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      await onCreate({ name, description: description.trim(), folders }, target);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create skill');
+      setIsCreating(false);
+    }
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    fontSize: theme.fontSizes[1],
+    fontWeight: 600,
+  };
+  const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    fontWeight: 400,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.background,
+    color: theme.colors.text,
+  };
+  const hintStyle = (isError: boolean): React.CSSProperties => ({
+    fontSize: theme.fontSizes[0],
+    fontWeight: 400,
+    color: isError ? theme.colors.error : theme.colors.textSecondary,
+  });
+  const buttonStyle = (isPrimary: boolean, isDisabled = false): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '6px 12px',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${isPrimary ? theme.colors.primary : theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: isPrimary ? theme.colors.primary : theme.colors.backgroundSecondary,
+    color: isPrimary ? theme.colors.background : theme.colors.text,
+    cursor: isDisabled ? 'not-allowed' : 'pointer',
+    opacity: isDisabled ? 0.5 : 1,
+  });
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Create a skill"
+      style={{
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+        padding: '12px 16px',
+        border: `1px solid ${theme.colors.primary}40`,
+        borderRadius: theme.radii[2],
+        background: theme.colors.surface,
+        fontFamily: theme.fonts.body,
+        color: theme.colors.text,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <Sparkles size={16} color={theme.colors.primary} />
+        <span style={{ fontWeight: 600, fontSize: theme.fontSizes[2] }}>Create a skill</span>
+        <span style={{ fontSize: theme.fontSizes[0], color: theme.colors.textSecondary }}>
+          Step {step === 'details' ? 1 : 2} of 2
+        </span>
+        <button
+          onClick={onCancel}
+          aria-label="Cancel"
+          title="Cancel"
+          style={{
+            marginLeft: 'auto',
+            display: 'flex',
+            padding: '2px',
+            background: 'none',
+            border: 'none',
+            color: theme.colors.textSecondary,
+            cursor: 'pointer',
+          }}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {step === 'details' ? (
+        <>
+          <label style={labelStyle}>
+            Name
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={() => setName(toSkillName(name))}
+              placeholder="pdf-processing"
+              style={{ ...inputStyle, fontFamily: theme.fonts.monospace }}
+            />
+            <span style={hintStyle(!!nameError)}>
+              {nameError ?? 'Also the folder name'}
+            </span>
+          </label>
+
+          <label style={labelStyle}>
+            Description
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What the skill does and when the agent should use it"
+              rows={3}
+              style={{ ...inputStyle, resize: 'vertical' }}
+            />
+            <span style={hintStyle(!!descriptionError)}>
+              {descriptionError ?? `${description.length}/${MAX_DESCRIPTION_LENGTH}`}
+            </span>
+          </label>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+            <button onClick={onCancel} style={buttonStyle(false)}>
+              Cancel
+            </button>
+            <button
+              onClick={() => setStep('location')}
+              disabled={!canContinue}
+              style={buttonStyle(true, !canContinue)}
+            >
+              Next
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <fieldset style={{ margin: 0, padding: 0, border: 'none', ...labelStyle }}>
+            <legend style={{ padding: 0, marginBottom: '4px' }}>Location</legend>
+            {targets.map(({ root, directory }) => (
+              <label
+                key={root.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  fontWeight: 400,
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="radio"
+                  name="skill-create-root"
+                  checked={root.id === target?.root.id}
+                  onChange={() => setRootId(root.id)}
+                  style={{ margin: 0, accentColor: theme.colors.primary }}
+                />
+                <span
+                  style={{ width: '8px', height: '8px', borderRadius: '50%', background: root.color }}
+                />
+                <span>{root.label}</span>
+                <span style={hintStyle(false)}>
+                  {getRootScope(root) === 'global' ? 'all repositories' : 'this repository'}
+                </span>
+                <span
+                  style={{
+                    ...hintStyle(false),
+                    marginLeft: 'auto',
+                    fontFamily: theme.fonts.monospace,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                  title={directory}
+                >
+                  {root.glob}
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset style={{ margin: 0, padding: 0, border: 'none', ...labelStyle }}>
+            <legend style={{ padding: 0, marginBottom: '4px' }}>Folders (optional)</legend>
+            {SKILL_RESOURCE_FOLDERS.map((folder) => (
+              <label
+                key={folder.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  fontWeight: 400,
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={folders.includes(folder.id)}
+                  onChange={() => toggleFolder(folder.id)}
+                  style={{ margin: 0, accentColor: theme.colors.primary }}
+                />
+                <span style={{ fontFamily: theme.fonts.monospace }}>{folder.label}</span>
+                <span style={hintStyle(false)}>{folder.description}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          {target && (
+            <div
+              style={{
+                ...hintStyle(false),
+                fontFamily: theme.fonts.monospace,
+                wordBreak: 'break-all',
+              }}
+            >
+              Writes {target.directory}/{name}/SKILL.md
+            </div>
+          )}
+
+          {error && (
+            <div role="alert" style={hintStyle(true)}>
+              {error}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+            <button
+              onClick={() => setStep('details')}
+              disabled={isCreating}
+              style={buttonStyle(false, isCreating)}
+            >
+              Back
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isCreating || !target}
+              style={buttonStyle(true, isCreating || !target)}
+            >
+              {isCreating && (
+                <Loader2 size={14} style={{ animation: 'spin 1s linear infinite' }} />
+              )}
+              Create skill
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
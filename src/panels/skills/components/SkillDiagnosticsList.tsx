@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { AlertCircle, AlertTriangle, Info, ChevronDown, ChevronRight } from 'lucide-react';
+import type { SkillDiagnostic } from '../hooks/useSkillsData';
+import { countDiagnostics } from '../utils/validateSkill';
+
+interface SkillDiagnosticsListProps {
+  diagnostics: SkillDiagnostic[];
+  onSelect?: (diagnostic: SkillDiagnostic) => void;
+}
+
+/**
+ * SkillDiagnosticsList - Collapsible list of linter diagnostics for a skill
+ */
+export const SkillDiagnosticsList: React.FC<SkillDiagnosticsListProps> = ({
+  diagnostics,
+  onSelect,
+}) => {
+  const { theme } = useTheme();
+  const { errors, warnings } = countDiagnostics(diagnostics);
+  const [isExpanded, setIsExpanded] = useState(errors > 0);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const getSeverityConfig = (severity: SkillDiagnostic['severity']) => {
+    switch (severity) {
+      case 'error':
+        return { icon: AlertCircle, color: theme.colors.error };
+      case 'warning':
+        return { icon: AlertTriangle, color: theme.colors.warning };
+      case 'info':
+        return { icon: Info, color: theme.colors.info };
+    }
+  };
+
+  const summary = [
+    errors > 0 && `${errors} ${errors === 1 ? 'error' : 'errors'}`,
+    warnings > 0 && `${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div
+      style={{
+        borderBottom: `1px solid ${theme.colors.border}`,
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        style={{
+          width: '100%',
+          padding: '0.5rem 1rem',
+          background: 'transparent',
+          border: 'none',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          cursor: 'pointer',
+          color: errors > 0 ? theme.colors.error : theme.colors.warning,
+          fontSize: theme.fontSizes[1],
+          fontFamily: theme.fonts.body,
+          fontWeight: 500,
+          textAlign: 'left',
+        }}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <span>Diagnostics</span>
+        <span style={{ color: theme.colors.textSecondary, fontWeight: 400 }}>
+          {summary || `${diagnostics.length} notes`}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <ul style={{ listStyle: 'none', margin: 0, padding: '0 0.5rem 0.5rem' }}>
+          {diagnostics.map((diagnostic, index) => {
+            const config = getSeverityConfig(diagnostic.severity);
+            const fileName = diagnostic.file.split('/').pop();
+
+            return (
+              <li key={`${diagnostic.code}-${index}`}>
+                <button
+                  onClick={() => onSelect?.(diagnostic)}
+                  disabled={!onSelect}
+                  style={{
+                    width: '100%',
+                    padding: '0.375rem 0.5rem',
+                    background: 'transparent',
+                    border: 'none',
+                    borderRadius: theme.radii[1],
+                    display: 'flex',
+                    alignItems: 'flex-start',
+                    gap: '0.5rem',
+                    cursor: onSelect ? 'pointer' : 'default',
+                    color: theme.colors.text,
+                    fontSize: theme.fontSizes[1],
+                    fontFamily: theme.fonts.body,
+                    textAlign: 'left',
+                  }}
+                  onMouseEnter={(e) => {
+                    if (onSelect) e.currentTarget.style.background = theme.colors.backgroundHover;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.background = 'transparent';
+                  }}
+                  title={onSelect ? 'Jump to line' : undefined}
+                >
+                  <config.icon size={14} color={config.color} style={{ flexShrink: 0, marginTop: '2px' }} />
+                  <span style={{ flex: 1, minWidth: 0 }}>{diagnostic.message}</span>
+                  <span
+                    style={{
+                      flexShrink: 0,
+                      color: theme.colors.textMuted,
+                      fontFamily: theme.fonts.monospace,
+                      fontSize: theme.fontSizes[0],
+                    }}
+                  >
+                    {diagnostic.code} · {fileName}
+                    {diagnostic.line ? `:${diagnostic.line}` : ''}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,415 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { SkillMarkdown } from 'themed-markdown';
+import { Save, X, Eye, EyeOff, Loader2, AlertTriangle, GitBranch } from 'lucide-react';
+import { SkillConflictPrompt } from './SkillConflictPrompt';
+import { mergeThreeWay, hasConflictMarkers } from '../utils/threeWayMerge';
+import {
+  EDITABLE_FRONTMATTER_FIELDS,
+  getFrontmatterFieldText,
+  setFrontmatterField,
+  getSkillBody,
+  setSkillBody,
+} from '../utils/skillEditing';
+
+interface SkillEditorProps {
+  // SKILL.md content when the editor opened
+  initialContent: string;
+  // fileTree SHA; when it changes, SKILL.md is re-read to see whether it changed too
+  treeSha?: string;
+  // Read the file as it is on disk now
+  readDiskContent: () => Promise<string>;
+  writeContent: (content: string) => Promise<void>;
+  // Called with the saved content once it's on disk
+  onSaved?: (content: string) => void;
+  onClose: () => void;
+  onDirtyChange?: (isDirty: boolean) => void;
+}
+
+/**
+ * SkillEditor - Edits a SKILL.md in place
+ * A form for the common frontmatter fields, a markdown editor for the body and
+ * an optional live preview. Saving checks the file on disk first and asks how
+ * to combine the versions when it changed since the editor opened.
+ */
+export const SkillEditor: React.FC<SkillEditorProps> = ({
+  initialContent,
+  treeSha,
+  readDiskContent,
+  writeContent,
+  onSaved,
+  onClose,
+  onDirtyChange,
+}) => {
+  const { theme } = useTheme();
+  const [content, setContent] = useState(initialContent);
+  // Last content known to match the disk: the common base for a merge
+  const [base, setBase] = useState(initialContent);
+  // Whether SKILL.md on disk no longer matches the base
+  const [diskChanged, setDiskChanged] = useState(false);
+  const [conflict, setConflict] = useState<{ theirs: string } | null>(null);
+  const [showPreview, setShowPreview] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isConfirmingClose, setIsConfirmingClose] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Form text as typed; the file only keeps what YAML can represent (e.g. no
+  // trailing separator in a sequence)
+  const [fieldDrafts, setFieldDrafts] = useState<Record<string, string>>({});
+
+  const isDirty = content !== base;
+  const hasMarkers = hasConflictMarkers(content);
+
+  useEffect(() => {
+    onDirtyChange?.(isDirty);
+  }, [isDirty, onDirtyChange]);
+
+  // Compare the file itself with the base whenever the repo (or the base) moves;
+  // our own saves leave the two equal, unrelated changes leave SKILL.md alone
+  useEffect(() => {
+    let cancelled = false;
+    readDiskContent()
+      .then((theirs) => {
+        if (!cancelled) setDiskChanged(theirs !== base);
+      })
+      .catch(() => {
+        if (!cancelled) setDiskChanged(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [treeSha, base, readDiskContent]);
+
+  const write = useCallback(
+    async (next: string) => {
+      setIsSaving(true);
+      setError(null);
+      try {
+        await writeContent(next);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save SKILL.md');
+        setIsSaving(false);
+        return;
+      }
+      setBase(next);
+      setConflict(null);
+      setIsSaving(false);
+      onSaved?.(next);
+    },
+    [writeContent, onSaved]
+  );
+
+  const handleSave = useCallback(async () => {
+    if (isSaving || hasConflictMarkers(content)) return;
+    setIsSaving(true);
+    setError(null);
+
+    let theirs: string;
+    try {
+      theirs = await readDiskContent();
+    } catch (err) {
+      setIsSaving(false);
+      setError(err instanceof Error ? err.message : 'Failed to read SKILL.md from disk');
+      return;
+    }
+
+    setIsSaving(false);
+    if (theirs !== base) {
+      setConflict({ theirs });
+      return;
+    }
+    await write(content);
+  }, [isSaving, content, base, readDiskContent, write]);
+
+  // Cmd/Ctrl+S saves while focus is anywhere in the editor
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 's') {
+      event.preventDefault();
+      void handleSave();
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty) {
+      setIsConfirmingClose(true);
+    } else {
+      onClose();
+    }
+  };
+
+  // Conflict resolutions: the disk version becomes the new base in every case
+  const resolveConflict = (nextContent: string, theirs: string) => {
+    setContent(nextContent);
+    setBase(theirs);
+    setFieldDrafts({});
+    setConflict(null);
+  };
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    resolveConflict(mergeThreeWay(base, content, conflict.theirs).merged, conflict.theirs);
+  };
+
+  const handleKeepMine = () => {
+    void write(content);
+  };
+
+  const handleTakeTheirs = () => {
+    if (!conflict) return;
+    resolveConflict(conflict.theirs, conflict.theirs);
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '0.25rem',
+    fontSize: theme.fontSizes[0],
+    fontWeight: 600,
+    color: theme.colors.textSecondary,
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '0.375rem 0.5rem',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.background,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    outline: 'none',
+  };
+
+  const buttonStyle = (disabled = false): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.375rem',
+    padding: '0.25rem 0.625rem',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.backgroundSecondary,
+    color: theme.colors.text,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  const canSave = isDirty && !isSaving && !hasMarkers && !conflict;
+
+  return (
+    <div
+      onKeyDown={handleKeyDown}
+      style={{
+        flex: 1,
+        minHeight: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        fontFamily: theme.fonts.body,
+        color: theme.colors.text,
+      }}
+    >
+      <div
+        style={{
+          flexShrink: 0,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          padding: '0.5rem 1rem',
+          borderBottom: `1px solid ${theme.colors.border}`,
+          backgroundColor: theme.colors.backgroundSecondary,
+        }}
+      >
+        <span style={{ fontSize: theme.fontSizes[1], fontWeight: 600 }}>Editing SKILL.md</span>
+        {isDirty && (
+          <span
+            title="Unsaved changes"
+            style={{ fontSize: theme.fontSizes[0], color: theme.colors.warning }}
+          >
+            ● Unsaved
+          </span>
+        )}
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
+          <button
+            onClick={() => setShowPreview(!showPreview)}
+            aria-pressed={showPreview}
+            style={buttonStyle()}
+            title={showPreview ? 'Hide preview' : 'Show preview'}
+          >
+            {showPreview ? <EyeOff size={14} /> : <Eye size={14} />}
+            Preview
+          </button>
+          <button
+            onClick={() => void handleSave()}
+            disabled={!canSave}
+            style={buttonStyle(!canSave)}
+            title={hasMarkers ? 'Resolve the conflict markers before saving' : 'Save (Ctrl+S)'}
+          >
+            {isSaving ? (
+              <Loader2 size={14} style={{ animation: 'spin 1s linear infinite' }} />
+            ) : (
+              <Save size={14} />
+            )}
+            Save
+          </button>
+          <button onClick={handleClose} style={buttonStyle()} title="Close the editor">
+            <X size={14} />
+            Close
+          </button>
+        </div>
+      </div>
+
+      {isConfirmingClose && (
+        <div
+          role="alertdialog"
+          aria-label="Discard changes"
+          style={{
+            flexShrink: 0,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            padding: '0.5rem 1rem',
+            borderBottom: `1px solid ${theme.colors.border}`,
+            backgroundColor: `${theme.colors.warning}15`,
+            fontSize: theme.fontSizes[1],
+          }}
+        >
+          <span>Discard unsaved changes?</span>
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: '0.5rem' }}>
+            <button onClick={onClose} style={{ ...buttonStyle(), color: theme.colors.error }}>
+              Discard
+            </button>
+            <button onClick={() => setIsConfirmingClose(false)} style={buttonStyle()}>
+              Keep editing
+            </button>
+          </div>
+        </div>
+      )}
+
+      {conflict && (
+        <SkillConflictPrompt
+          base={base}
+          ours={content}
+          theirs={conflict.theirs}
+          onMerge={handleMerge}
+          onKeepMine={handleKeepMine}
+          onTakeTheirs={handleTakeTheirs}
+          onCancel={() => setConflict(null)}
+          isBusy={isSaving}
+        />
+      )}
+
+      {!conflict && (diskChanged || hasMarkers || error) && (
+        <div
+          style={{
+            flexShrink: 0,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            padding: '0.5rem 1rem',
+            borderBottom: `1px solid ${theme.colors.border}`,
+            fontSize: theme.fontSizes[0],
+            color: error ? theme.colors.error : theme.colors.warning,
+          }}
+        >
+          {error ? <AlertTriangle size={14} /> : <GitBranch size={14} />}
+          <span>
+            {error
+              ? error
+              : hasMarkers
+                ? 'Resolve the conflict markers (<<<<<<< / >>>>>>>) before saving'
+                : 'SKILL.md changed on disk since you started editing; saving will ask how to combine the versions'}
+          </span>
+        </div>
+      )}
+
+      <div style={{ flex: 1, minHeight: 0, display: 'flex' }}>
+        <div
+          style={{
+            flex: 1,
+            minWidth: 0,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.75rem',
+            padding: '1rem',
+            overflow: 'auto',
+          }}
+        >
+          {EDITABLE_FRONTMATTER_FIELDS.map((field) => {
+            const id = `skill-editor-${field.key}`;
+            const value = fieldDrafts[field.key] ?? getFrontmatterFieldText(content, field.key);
+            const onChange = (
+              event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+            ) => {
+              setFieldDrafts({ ...fieldDrafts, [field.key]: event.target.value });
+              setContent(setFrontmatterField(content, field.key, event.target.value));
+            };
+
+            return (
+              <div key={field.key}>
+                <label htmlFor={id} style={labelStyle}>
+                  {field.label}
+                </label>
+                {field.multiline ? (
+                  <textarea
+                    id={id}
+                    value={value}
+                    onChange={onChange}
+                    placeholder={field.placeholder}
+                    rows={3}
+                    style={{ ...inputStyle, resize: 'vertical' }}
+                  />
+                ) : (
+                  <input
+                    id={id}
+                    value={value}
+                    onChange={onChange}
+                    placeholder={field.placeholder}
+                    style={inputStyle}
+                  />
+                )}
+              </div>
+            );
+          })}
+          <div style={{ flex: 1, display: 'flex', flexDirection: 'column', minHeight: '240px' }}>
+            <label htmlFor="skill-editor-body" style={labelStyle}>
+              Instructions (markdown)
+            </label>
+            <textarea
+              id="skill-editor-body"
+              value={getSkillBody(content)}
+              onChange={(event) => setContent(setSkillBody(content, event.target.value))}
+              spellCheck={false}
+              style={{
+                ...inputStyle,
+                flex: 1,
+                resize: 'none',
+                fontFamily: theme.fonts.monospace,
+                lineHeight: 1.5,
+              }}
+            />
+          </div>
+        </div>
+        {showPreview && (
+          <div
+            aria-label="Preview"
+            style={{
+              flex: 1,
+              minWidth: 0,
+              overflow: 'auto',
+              borderLeft: `1px solid ${theme.colors.border}`,
+            }}
+          >
+            <SkillMarkdown content={content} theme={theme} showRawOnError={true} />
+          </div>
+        )}
+      </div>
+      <style>
+        {`
+          @keyframes spin {
+            to { transform: rotate(360deg); }
+          }
+        `}
+      </style>
+    </div>
+  );
+};
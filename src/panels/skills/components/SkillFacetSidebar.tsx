@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ChevronDown, ChevronRight, PanelLeftClose } from 'lucide-react';
+import { findSkillRoot, type SkillDiscoveryRoot } from '../utils/discoveryRoots';
+import type { SkillFacet, SkillFacetId, SkillFacetSelection } from '../utils/facets';
+
+interface SkillFacetSidebarProps {
+  facets: SkillFacet[];
+  selection: SkillFacetSelection;
+  discoveryRoots: SkillDiscoveryRoot[];
+  onToggle: (facet: SkillFacetId, value: string) => void;
+  onClear: () => void;
+  onCollapse: () => void;
+}
+
+// Values listed before "Show more"
+const COLLAPSED_VALUE_COUNT = 6;
+
+const STRUCTURE_LABELS: Record<string, string> = {
+  scripts: 'Scripts',
+  references: 'References',
+  assets: 'Assets',
+};
+
+/**
+ * SkillFacetSidebar - Collapsible facet filters with live counts
+ */
+export const SkillFacetSidebar: React.FC<SkillFacetSidebarProps> = ({
+  facets,
+  selection,
+  discoveryRoots,
+  onToggle,
+  onClear,
+  onCollapse,
+}) => {
+  const { theme } = useTheme();
+  const [collapsedFacets, setCollapsedFacets] = useState<Set<SkillFacetId>>(new Set());
+  const [expandedFacets, setExpandedFacets] = useState<Set<SkillFacetId>>(new Set());
+  const selectedCount = Object.values(selection).reduce(
+    (sum, values) => sum + (values?.length ?? 0),
+    0
+  );
+
+  const toggleIn = (set: Set<SkillFacetId>, id: SkillFacetId) => {
+    const next = new Set(set);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    return next;
+  };
+
+  const renderValueLabel = (facet: SkillFacetId, value: string) => {
+    switch (facet) {
+      case 'source': {
+        const root = findSkillRoot(discoveryRoots, value);
+        return (
+          <>
+            <span
+              style={{
+                width: '8px',
+                height: '8px',
+                borderRadius: '50%',
+                background: root.color,
+                flexShrink: 0,
+              }}
+            />
+            {root.label}
+          </>
+        );
+      }
+      case 'structure':
+        return STRUCTURE_LABELS[value] ?? value;
+      case 'repo':
+        return <span style={{ fontFamily: theme.fonts.monospace }}>{value}</span>;
+      default:
+        return value;
+    }
+  };
+
+  return (
+    <aside
+      aria-label="Skill filters"
+      style={{
+        width: '220px',
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+        overflowY: 'auto',
+        paddingRight: '12px',
+        borderRight: `1px solid ${theme.colors.border}`,
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[1],
+        color: theme.colors.text,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{ fontWeight: 600 }}>Filters</span>
+        {selectedCount > 0 && (
+          <button
+            onClick={onClear}
+            style={{
+              padding: 0,
+              background: 'none',
+              border: 'none',
+              color: theme.colors.primary,
+              fontSize: theme.fontSizes[0],
+              fontFamily: theme.fonts.body,
+              cursor: 'pointer',
+            }}
+          >
+            Clear ({selectedCount})
+          </button>
+        )}
+        <button
+          onClick={onCollapse}
+          aria-label="Hide filters"
+          title="Hide filters"
+          style={{
+            marginLeft: 'auto',
+            display: 'flex',
+            padding: '2px',
+            background: 'none',
+            border: 'none',
+            color: theme.colors.textSecondary,
+            cursor: 'pointer',
+          }}
+        >
+          <PanelLeftClose size={14} />
+        </button>
+      </div>
+
+      {facets
+        .filter((facet) => facet.values.length > 0)
+        .map((facet) => {
+          const isCollapsed = collapsedFacets.has(facet.id);
+          const isExpanded = expandedFacets.has(facet.id);
+          const selected = selection[facet.id] ?? [];
+          const visibleValues = isExpanded
+            ? facet.values
+            : facet.values.slice(0, COLLAPSED_VALUE_COUNT);
+          const hiddenCount = facet.values.length - visibleValues.length;
+          const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+
+          return (
+            <section key={facet.id} style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+              <button
+                onClick={() => setCollapsedFacets(toggleIn(collapsedFacets, facet.id))}
+                aria-expanded={!isCollapsed}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                  padding: 0,
+                  background: 'none',
+                  border: 'none',
+                  color: theme.colors.textSecondary,
+                  fontSize: theme.fontSizes[0],
+                  fontFamily: theme.fonts.body,
+                  fontWeight: 600,
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.04em',
+                  cursor: 'pointer',
+                }}
+              >
+                <Chevron size={12} />
+                {facet.label}
+              </button>
+
+              {!isCollapsed && (
+                <>
+                  {visibleValues.map(({ value, count }) => {
+                    const isSelected = selected.includes(value);
+                    return (
+                      <label
+                        key={value}
+                        style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '6px',
+                          padding: '2px 0',
+                          cursor: 'pointer',
+                          opacity: count === 0 && !isSelected ? 0.5 : 1,
+                        }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => onToggle(facet.id, value)}
+                          style={{ margin: 0, accentColor: theme.colors.primary }}
+                        />
+                        <span
+                          style={{
+                            flex: 1,
+                            minWidth: 0,
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '6px',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                          }}
+                          title={value}
+                        >
+                          {renderValueLabel(facet.id, value)}
+                        </span>
+                        <span
+                          style={{
+                            color: theme.colors.textSecondary,
+                            fontSize: theme.fontSizes[0],
+                            fontVariantNumeric: 'tabular-nums',
+                          }}
+                        >
+                          {count}
+                        </span>
+                      </label>
+                    );
+                  })}
+                  {(hiddenCount > 0 || isExpanded) && facet.values.length > COLLAPSED_VALUE_COUNT && (
+                    <button
+                      onClick={() => setExpandedFacets(toggleIn(expandedFacets, facet.id))}
+                      style={{
+                        alignSelf: 'flex-start',
+                        padding: 0,
+                        background: 'none',
+                        border: 'none',
+                        color: theme.colors.primary,
+                        fontSize: theme.fontSizes[0],
+                        fontFamily: theme.fonts.body,
+                        cursor: 'pointer',
+                      }}
+                    >
+                      {isExpanded ? 'Show less' : `Show ${hiddenCount} more`}
+                    </button>
+                  )}
+                </>
+              )}
+            </section>
+          );
+        })}
+    </aside>
+  );
+};
@@ -0,0 +1,323 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { DocumentView } from 'themed-markdown';
+import {
+  ChevronDown,
+  ChevronRight,
+  ExternalLink,
+  File,
+  FileCode,
+  FileText,
+  Folder,
+  FolderOpen,
+  Image,
+  Loader2,
+  Table,
+} from 'lucide-react';
+import { SkillCodePreview } from './SkillCodePreview';
+import { SkillAssetPreview } from './SkillAssetPreview';
+import {
+  buildSkillFileTree,
+  getFileLanguage,
+  getFilePreviewKind,
+  isBinaryPreviewKind,
+  type SkillFileNode,
+  type SkillFilePreviewKind,
+} from '../utils/skillFiles';
+
+interface SkillFileExplorerProps {
+  // Paths relative to the skill folder
+  files: string[];
+  selectedPath: string | null;
+  onSelectPath: (path: string) => void;
+  // File contents that are already loaded, keyed by path
+  contents: Record<string, string>;
+  // Read any other file on demand; without them only loaded contents preview
+  readFile?: (path: string) => Promise<string>;
+  readBinaryFile?: (path: string) => Promise<Uint8Array>;
+  onOpenFile?: (path: string) => void;
+}
+
+type LoadedFile = { content: string } | { bytes: Uint8Array } | { error: string };
+
+const FILE_ICONS: Record<SkillFilePreviewKind, typeof File> = {
+  markdown: FileText,
+  code: FileCode,
+  image: Image,
+  svg: Image,
+  data: FileCode,
+  csv: Table,
+  binary: File,
+};
+
+/**
+ * SkillFileExplorer - Folder tree of a skill with an inline preview of the selected file
+ */
+export const SkillFileExplorer: React.FC<SkillFileExplorerProps> = ({
+  files,
+  selectedPath,
+  onSelectPath,
+  contents,
+  readFile,
+  readBinaryFile,
+  onOpenFile,
+}) => {
+  const { theme } = useTheme();
+  const tree = useMemo(() => buildSkillFileTree(files), [files]);
+  const [collapsedDirs, setCollapsedDirs] = useState<Set<string>>(new Set());
+  const [loadedFiles, setLoadedFiles] = useState<Record<string, LoadedFile>>({});
+
+  const previewKind = selectedPath ? getFilePreviewKind(selectedPath) : null;
+  const loaded: LoadedFile | undefined =
+    selectedPath && contents[selectedPath] !== undefined
+      ? { content: contents[selectedPath] }
+      : selectedPath
+        ? loadedFiles[selectedPath]
+        : undefined;
+  const isLoaded = loaded !== undefined;
+
+  // Read files that weren't loaded with the skill details
+  useEffect(() => {
+    if (!selectedPath || !previewKind || isLoaded) return;
+    const isBinary = isBinaryPreviewKind(previewKind);
+    if (isBinary ? !readBinaryFile : !readFile) {
+      setLoadedFiles((prev) => ({ ...prev, [selectedPath]: { error: 'No file system available' } }));
+      return;
+    }
+
+    let cancelled = false;
+    const read: Promise<LoadedFile> =
+      isBinary && readBinaryFile
+        ? readBinaryFile(selectedPath).then((bytes) => ({ bytes }))
+        : (readFile as (path: string) => Promise<string>)(selectedPath).then((content) => ({
+            content,
+          }));
+    read
+      .then((file) => {
+        if (!cancelled) setLoadedFiles((prev) => ({ ...prev, [selectedPath]: file }));
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setLoadedFiles((prev) => ({
+          ...prev,
+          [selectedPath]: { error: err instanceof Error ? err.message : 'Failed to read file' },
+        }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPath, isLoaded, previewKind, readFile, readBinaryFile]);
+
+  const toggleDir = (path: string) => {
+    const next = new Set(collapsedDirs);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setCollapsedDirs(next);
+  };
+
+  const renderNode = (node: SkillFileNode, depth: number): React.ReactNode => {
+    const rowStyle: React.CSSProperties = {
+      width: '100%',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '0.375rem',
+      padding: `0.25rem 0.5rem 0.25rem ${0.5 + depth * 0.875}rem`,
+      background: 'none',
+      border: 'none',
+      borderRadius: theme.radii[1],
+      fontSize: theme.fontSizes[1],
+      fontFamily: theme.fonts.body,
+      color: theme.colors.text,
+      textAlign: 'left',
+      cursor: 'pointer',
+      whiteSpace: 'nowrap',
+    };
+
+    if (node.children) {
+      const isCollapsed = collapsedDirs.has(node.path);
+      const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+      const FolderIcon = isCollapsed ? Folder : FolderOpen;
+      return (
+        <li key={node.path}>
+          <button
+            onClick={() => toggleDir(node.path)}
+            aria-expanded={!isCollapsed}
+            style={rowStyle}
+          >
+            <Chevron size={12} color={theme.colors.textSecondary} />
+            <FolderIcon size={14} color={theme.colors.textSecondary} />
+            {node.name}
+          </button>
+          {!isCollapsed && (
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+              {node.children.map((child) => renderNode(child, depth + 1))}
+            </ul>
+          )}
+        </li>
+      );
+    }
+
+    const isSelected = node.path === selectedPath;
+    const FileIcon = FILE_ICONS[getFilePreviewKind(node.path)];
+    return (
+      <li key={node.path}>
+        <button
+          onClick={() => onSelectPath(node.path)}
+          aria-current={isSelected ? 'true' : undefined}
+          title={node.path}
+          style={{
+            ...rowStyle,
+            // Line files up with folder names, past the chevron
+            paddingLeft: `${0.5 + depth * 0.875 + 1.125}rem`,
+            background: isSelected ? `${theme.colors.primary}20` : 'none',
+            color: isSelected ? theme.colors.primary : theme.colors.text,
+          }}
+        >
+          <FileIcon size={14} />
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{node.name}</span>
+        </button>
+      </li>
+    );
+  };
+
+  const renderPreview = () => {
+    if (!selectedPath) {
+      return <p style={{ margin: 0 }}>Select a file to preview it</p>;
+    }
+    if (!loaded) {
+      return (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <Loader2 size={16} style={{ animation: 'spin 1s linear infinite' }} />
+          <span>Loading file...</span>
+          <style>
+            {`
+              @keyframes spin {
+                to { transform: rotate(360deg); }
+              }
+            `}
+          </style>
+        </div>
+      );
+    }
+    if ('error' in loaded) {
+      return <p style={{ margin: 0, color: theme.colors.error }}>Failed to read file: {loaded.error}</p>;
+    }
+    return null;
+  };
+
+  const renderFileContent = (): React.ReactNode => {
+    if (!selectedPath || !previewKind || !loaded || 'error' in loaded) return null;
+    if ('content' in loaded && previewKind === 'markdown') {
+      return <DocumentView content={loaded.content} theme={theme} maxWidth="100%" />;
+    }
+    if ('content' in loaded && previewKind === 'code') {
+      return (
+        <SkillCodePreview
+          content={loaded.content}
+          language={getFileLanguage(selectedPath, loaded.content)}
+        />
+      );
+    }
+    if (previewKind === 'markdown' || previewKind === 'code') return null;
+    return (
+      <SkillAssetPreview
+        key={selectedPath}
+        path={selectedPath}
+        kind={previewKind}
+        content={'content' in loaded ? loaded.content : undefined}
+        bytes={'bytes' in loaded ? loaded.bytes : undefined}
+      />
+    );
+  };
+
+  const placeholder = renderPreview();
+
+  return (
+    <div style={{ flex: 1, minHeight: 0, display: 'flex' }}>
+      <nav
+        aria-label="Skill files"
+        style={{
+          width: '220px',
+          flexShrink: 0,
+          overflow: 'auto',
+          padding: '0.5rem 0.25rem',
+          borderRight: `1px solid ${theme.colors.border}`,
+          backgroundColor: theme.colors.backgroundSecondary,
+        }}
+      >
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {tree.map((node) => renderNode(node, 0))}
+        </ul>
+      </nav>
+
+      <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+        {selectedPath && (
+          <div
+            style={{
+              flexShrink: 0,
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.5rem',
+              padding: '0.5rem 1rem',
+              borderBottom: `1px solid ${theme.colors.border}`,
+              fontFamily: theme.fonts.monospace,
+              fontSize: theme.fontSizes[1],
+              color: theme.colors.textSecondary,
+            }}
+          >
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {selectedPath}
+            </span>
+            {onOpenFile && (
+              <button
+                onClick={() => onOpenFile(selectedPath)}
+                style={{
+                  marginLeft: 'auto',
+                  flexShrink: 0,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '0.375rem',
+                  padding: '0.25rem 0.625rem',
+                  fontSize: theme.fontSizes[0],
+                  fontFamily: theme.fonts.body,
+                  border: `1px solid ${theme.colors.border}`,
+                  borderRadius: theme.radii[1],
+                  background: theme.colors.background,
+                  color: theme.colors.text,
+                  cursor: 'pointer',
+                }}
+              >
+                <ExternalLink size={12} />
+                Open in editor
+              </button>
+            )}
+          </div>
+        )}
+
+        <div style={{ flex: 1, overflow: 'auto' }}>
+          {placeholder ? (
+            <div
+              style={{
+                height: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                padding: '2rem',
+                color: theme.colors.textSecondary,
+                fontFamily: theme.fonts.body,
+              }}
+            >
+              {placeholder}
+            </div>
+          ) : (
+            renderFileContent()
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
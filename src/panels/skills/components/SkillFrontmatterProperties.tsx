@@ -0,0 +1,235 @@
+import React, { useMemo } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { AlertCircle, AlertTriangle, Info, CheckCircle2 } from 'lucide-react';
+import type { SkillDiagnostic, SkillFrontmatter } from '../hooks/useSkillsData';
+import type { FrontmatterValue } from '../utils/frontmatter';
+import { isKnownTool, MAX_DESCRIPTION_LENGTH } from '../utils/validateSkill';
+import {
+  getFrontmatterProperties,
+  type FrontmatterProperty,
+  type FrontmatterPropertyStatus,
+} from '../utils/frontmatterProperties';
+
+interface SkillFrontmatterPropertiesProps {
+  frontmatter: SkillFrontmatter | null;
+  // Why the frontmatter couldn't be parsed, if it couldn't
+  parseError?: string;
+  diagnostics?: SkillDiagnostic[];
+  // Reveal a SKILL.md line in the editor
+  onSelectLine?: (line: number) => void;
+}
+
+/**
+ * SkillFrontmatterProperties - Properties table for a skill's frontmatter
+ * Lists each field with its value and validation state, so frontmatter reads
+ * the same whether or not the markdown renderer understands it.
+ */
+export const SkillFrontmatterProperties: React.FC<SkillFrontmatterPropertiesProps> = ({
+  frontmatter,
+  parseError,
+  diagnostics,
+  onSelectLine,
+}) => {
+  const { theme } = useTheme();
+  const properties = useMemo(
+    () => (frontmatter ? getFrontmatterProperties(frontmatter, diagnostics) : []),
+    [frontmatter, diagnostics]
+  );
+
+  const getStatusConfig = (status: FrontmatterPropertyStatus) => {
+    switch (status) {
+      case 'error':
+        return { icon: AlertCircle, color: theme.colors.error, label: 'Error' };
+      case 'warning':
+        return { icon: AlertTriangle, color: theme.colors.warning, label: 'Warning' };
+      case 'info':
+        return { icon: Info, color: theme.colors.info, label: 'Note' };
+      case 'valid':
+        return { icon: CheckCircle2, color: theme.colors.success, label: 'Valid' };
+      case 'unset':
+        return null;
+    }
+  };
+
+  const chipStyle = (color: string): React.CSSProperties => ({
+    display: 'inline-block',
+    padding: '0.125rem 0.5rem',
+    borderRadius: '10px',
+    border: `1px solid ${color}40`,
+    backgroundColor: `${color}15`,
+    color,
+    fontFamily: theme.fonts.monospace,
+    fontSize: theme.fontSizes[0],
+  });
+
+  const renderPlainValue = (value: FrontmatterValue) => {
+    if (Array.isArray(value)) {
+      return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem' }}>
+          {value.map((item, index) => (
+            <span key={`${item}-${index}`} style={chipStyle(theme.colors.textSecondary)}>
+              {item}
+            </span>
+          ))}
+        </div>
+      );
+    }
+    if (typeof value === 'object') {
+      return (
+        <div style={{ fontFamily: theme.fonts.monospace, fontSize: theme.fontSizes[0] }}>
+          {Object.entries(value).map(([entryKey, entryValue]) => (
+            <div key={entryKey}>
+              {entryKey}: {entryValue}
+            </div>
+          ))}
+        </div>
+      );
+    }
+    return <span style={{ wordBreak: 'break-word' }}>{value}</span>;
+  };
+
+  const renderValue = ({ key, value }: FrontmatterProperty) => {
+    if (value === undefined || (typeof value === 'string' && !value.trim())) {
+      return <span style={{ color: theme.colors.textMuted, fontStyle: 'italic' }}>Not set</span>;
+    }
+
+    if (key === 'allowed-tools' && Array.isArray(value)) {
+      return (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem' }}>
+          {value.map((tool) => (
+            <span
+              key={tool}
+              style={chipStyle(isKnownTool(tool) ? theme.colors.primary : theme.colors.warning)}
+              title={isKnownTool(tool) ? undefined : 'Unknown tool'}
+            >
+              {tool}
+            </span>
+          ))}
+        </div>
+      );
+    }
+
+    if (key === 'description' && typeof value === 'string') {
+      const isTooLong = value.length > MAX_DESCRIPTION_LENGTH;
+      return (
+        <>
+          <div style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{value}</div>
+          <div
+            style={{
+              marginTop: '0.25rem',
+              fontSize: theme.fontSizes[0],
+              color: isTooLong ? theme.colors.warning : theme.colors.textMuted,
+            }}
+          >
+            {value.length} / {MAX_DESCRIPTION_LENGTH} characters
+          </div>
+        </>
+      );
+    }
+
+    return renderPlainValue(value);
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '0.375rem 0.5rem',
+    borderTop: `1px solid ${theme.colors.border}`,
+    verticalAlign: 'top',
+    textAlign: 'left',
+  };
+
+  return (
+    <div
+      style={{
+        padding: '0.75rem 1rem',
+        borderBottom: `1px solid ${theme.colors.border}`,
+        fontFamily: theme.fonts.body,
+        fontSize: theme.fontSizes[1],
+        color: theme.colors.text,
+      }}
+    >
+      <div
+        style={{
+          marginBottom: '0.5rem',
+          fontSize: theme.fontSizes[0],
+          fontWeight: 600,
+          textTransform: 'uppercase',
+          letterSpacing: '0.5px',
+          color: theme.colors.textSecondary,
+        }}
+      >
+        Properties
+      </div>
+
+      {!frontmatter ? (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: theme.colors.error }}>
+          <AlertCircle size={14} />
+          <span>
+            {parseError ?? 'No frontmatter; agents need `name` and `description` to load this skill'}
+          </span>
+        </div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            {properties.map((property) => {
+              const status = getStatusConfig(property.status);
+              const canReveal = !!onSelectLine && property.line !== undefined;
+
+              return (
+                <tr key={property.key}>
+                  <th
+                    scope="row"
+                    style={{
+                      ...cellStyle,
+                      width: '8.5rem',
+                      fontWeight: 500,
+                      color: theme.colors.textSecondary,
+                      wordBreak: 'break-word',
+                    }}
+                  >
+                    {canReveal ? (
+                      <button
+                        onClick={() => onSelectLine?.(property.line as number)}
+                        title={`Go to line ${property.line}`}
+                        style={{
+                          padding: 0,
+                          background: 'none',
+                          border: 'none',
+                          color: 'inherit',
+                          font: 'inherit',
+                          textAlign: 'left',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        {property.label}
+                      </button>
+                    ) : (
+                      property.label
+                    )}
+                  </th>
+                  <td style={cellStyle}>
+                    {renderValue(property)}
+                    {property.messages.map((message) => (
+                      <div
+                        key={message}
+                        style={{ marginTop: '0.25rem', fontSize: theme.fontSizes[0], color: status?.color }}
+                      >
+                        {message}
+                      </div>
+                    ))}
+                  </td>
+                  <td style={{ ...cellStyle, width: '1.5rem' }}>
+                    {status && (
+                      <span title={status.label} aria-label={status.label} style={{ display: 'flex' }}>
+                        <status.icon size={14} color={status.color} />
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
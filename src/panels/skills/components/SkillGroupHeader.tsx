@@ -0,0 +1,108 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  Github,
+  Globe,
+  Layers,
+  Package,
+  Puzzle,
+} from 'lucide-react';
+import { getRootScope } from '../utils/discoveryRoots';
+import type { SkillGroup } from '../utils/sortAndGroup';
+
+interface SkillGroupHeaderProps {
+  group: SkillGroup;
+  isCollapsed: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * Helper to get the icon, colour and secondary text for a group
+ */
+const getGroupConfig = (group: SkillGroup) => {
+  switch (group.kind) {
+    case 'all':
+      return { icon: Layers };
+    case 'source':
+      return {
+        icon: getRootScope(group.root) === 'global' ? Globe : Folder,
+        color: group.root.color,
+        title: group.root.glob || undefined,
+      };
+    case 'origin':
+      return {
+        icon:
+          group.origin.kind === 'plugin' ? Puzzle : group.origin.kind === 'package' ? Package : Folder,
+        detail: group.origin.kind === 'plugin' ? 'plugin' : undefined,
+        title: group.origin.path || undefined,
+        monospace: group.origin.kind === 'package',
+      };
+    case 'repo':
+      return { icon: group.repo ? Github : Folder, monospace: !!group.repo };
+  }
+};
+
+/**
+ * SkillGroupHeader - Collapsible section header for a group of skills
+ */
+export const SkillGroupHeader: React.FC<SkillGroupHeaderProps> = ({
+  group,
+  isCollapsed,
+  onToggle,
+}) => {
+  const { theme } = useTheme();
+  const config: {
+    icon: React.ComponentType<{ size?: number; color?: string }>;
+    color?: string;
+    detail?: string;
+    title?: string;
+    monospace?: boolean;
+  } = getGroupConfig(group);
+  const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+
+  return (
+    <button
+      onClick={onToggle}
+      aria-expanded={!isCollapsed}
+      style={{
+        width: '100%',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '6px 4px',
+        background: 'none',
+        border: 'none',
+        borderBottom: `1px solid ${theme.colors.border}`,
+        color: theme.colors.text,
+        fontSize: theme.fontSizes[1],
+        fontFamily: theme.fonts.body,
+        fontWeight: 600,
+        cursor: 'pointer',
+        textAlign: 'left',
+      }}
+      title={config.title}
+    >
+      <Chevron size={14} color={theme.colors.textSecondary} />
+      <config.icon size={14} color={config.color ?? theme.colors.textSecondary} />
+      <span
+        style={{
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          fontFamily: config.monospace ? theme.fonts.monospace : theme.fonts.body,
+        }}
+      >
+        {group.label}
+      </span>
+      {config.detail && (
+        <span style={{ color: theme.colors.textSecondary, fontWeight: 400 }}>{config.detail}</span>
+      )}
+      <span style={{ marginLeft: 'auto', color: theme.colors.textSecondary, fontWeight: 400 }}>
+        {group.skills.length}
+      </span>
+    </button>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { useTheme, type Theme } from '@principal-ade/industry-theme';
+import {
+  ChevronDown,
+  ChevronRight,
+  FileMinus,
+  FilePlus,
+  FileDiff,
+  FileCheck,
+  FileQuestion,
+  ShieldCheck,
+  ShieldAlert,
+  ShieldQuestion,
+} from 'lucide-react';
+import type {
+  SkillFileIntegrity,
+  SkillIntegrityReport as IntegrityReport,
+  SkillIntegrityStatus,
+} from '../utils/integrity';
+
+interface SkillIntegrityReportProps {
+  report: IntegrityReport;
+  // Where the skill was installed from, shown in the summary
+  installedFrom?: string;
+  onSelectFile?: (path: string) => void;
+}
+
+/**
+ * Helper to get badge configuration for an integrity status
+ */
+export const getIntegrityConfig = (status: SkillIntegrityStatus, theme: Theme) => {
+  switch (status) {
+    case 'pristine':
+      return { label: 'Pristine', icon: ShieldCheck, color: theme.colors.success };
+    case 'modified':
+      return { label: 'Modified', icon: ShieldAlert, color: theme.colors.warning };
+    case 'missing-files':
+      return { label: 'Missing files', icon: ShieldAlert, color: theme.colors.error };
+    case 'extra-files':
+      return { label: 'Extra files', icon: ShieldAlert, color: theme.colors.info };
+    case 'unverified':
+      return { label: 'Unverified', icon: ShieldQuestion, color: theme.colors.textMuted };
+  }
+};
+
+/**
+ * Helper to get row configuration for a single file's status
+ */
+const getFileConfig = (status: SkillFileIntegrity['status'], theme: Theme) => {
+  switch (status) {
+    case 'unchanged':
+      return { label: 'unchanged', icon: FileCheck, color: theme.colors.success };
+    case 'modified':
+      return { label: 'modified', icon: FileDiff, color: theme.colors.warning };
+    case 'missing':
+      return { label: 'missing', icon: FileMinus, color: theme.colors.error };
+    case 'extra':
+      return { label: 'added', icon: FilePlus, color: theme.colors.info };
+    case 'unknown':
+      return { label: 'not verified', icon: FileQuestion, color: theme.colors.textMuted };
+  }
+};
+
+/**
+ * SkillIntegrityReport - File-by-file comparison of an installed skill with its .metadata.json
+ */
+export const SkillIntegrityReport: React.FC<SkillIntegrityReportProps> = ({
+  report,
+  installedFrom,
+  onSelectFile,
+}) => {
+  const { theme } = useTheme();
+  const [isExpanded, setIsExpanded] = useState(report.status !== 'pristine');
+  const config = getIntegrityConfig(report.status, theme);
+
+  const changedCount = report.files.filter((file) => file.status !== 'unchanged').length;
+  // Only the tree hash differs when per-file hashes weren't recorded
+  const treeMismatch =
+    !!report.actualTreeSha &&
+    report.actualTreeSha !== report.expectedTreeSha &&
+    !report.files.some((file) => file.status === 'modified');
+
+  return (
+    <div
+      style={{
+        borderBottom: `1px solid ${theme.colors.border}`,
+        backgroundColor: theme.colors.backgroundSecondary,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        style={{
+          width: '100%',
+          padding: '0.5rem 1rem',
+          background: 'transparent',
+          border: 'none',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          cursor: 'pointer',
+          color: config.color,
+          fontSize: theme.fontSizes[1],
+          fontFamily: theme.fonts.body,
+          fontWeight: 500,
+          textAlign: 'left',
+        }}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <config.icon size={14} />
+        <span>Integrity: {config.label}</span>
+        <span style={{ color: theme.colors.textSecondary, fontWeight: 400 }}>
+          {changedCount > 0
+            ? `${changedCount} of ${report.files.length} files differ or are unverified`
+            : `${report.files.length} files match`}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div style={{ padding: '0 0.5rem 0.5rem' }}>
+          {(installedFrom || treeMismatch) && (
+            <p
+              style={{
+                margin: '0 0.5rem 0.5rem',
+                fontSize: theme.fontSizes[0],
+                color: theme.colors.textSecondary,
+              }}
+            >
+              {installedFrom && <>Installed from {installedFrom}. </>}
+              {treeMismatch &&
+                'Contents differ from the recorded tree SHA. Per-file hashes were not recorded, so the changed files cannot be pinpointed.'}
+            </p>
+          )}
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+            {report.files.map((file) => {
+              const fileConfig = getFileConfig(file.status, theme);
+              const canOpen = !!onSelectFile && file.status !== 'missing';
+
+              return (
+                <li key={file.path}>
+                  <button
+                    onClick={() => canOpen && onSelectFile?.(file.path)}
+                    disabled={!canOpen}
+                    style={{
+                      width: '100%',
+                      padding: '0.25rem 0.5rem',
+                      background: 'transparent',
+                      border: 'none',
+                      borderRadius: theme.radii[1],
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '0.5rem',
+                      cursor: canOpen ? 'pointer' : 'default',
+                      color: theme.colors.text,
+                      fontSize: theme.fontSizes[1],
+                      fontFamily: theme.fonts.body,
+                      textAlign: 'left',
+                    }}
+                    onMouseEnter={(e) => {
+                      if (canOpen) e.currentTarget.style.background = theme.colors.backgroundHover;
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.background = 'transparent';
+                    }}
+                    title={
+                      file.expectedHash || file.actualHash
+                        ? `Installed: ${file.expectedHash ?? 'not recorded'}\nCurrent: ${file.actualHash ?? 'unreadable'}`
+                        : undefined
+                    }
+                  >
+                    <fileConfig.icon size={14} color={fileConfig.color} style={{ flexShrink: 0 }} />
+                    <span
+                      style={{
+                        flex: 1,
+                        minWidth: 0,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                        fontFamily: theme.fonts.monospace,
+                        fontSize: theme.fontSizes[0],
+                        textDecoration: file.status === 'missing' ? 'line-through' : 'none',
+                      }}
+                    >
+                      {file.path}
+                    </span>
+                    <span style={{ flexShrink: 0, color: fileConfig.color, fontSize: theme.fontSizes[0] }}>
+                      {fileConfig.label}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
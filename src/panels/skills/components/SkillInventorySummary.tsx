@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { BarChart3, ChevronDown, ChevronRight } from 'lucide-react';
+import type { SkillInventory } from '../utils/inventory';
+import { findSkillRoot, type SkillDiscoveryRoot } from '../utils/discoveryRoots';
+import { hasSkillQueryFilters, type SkillQueryFilter } from '../utils/skillQuery';
+
+interface SkillInventorySummaryProps {
+  inventory: SkillInventory;
+  discoveryRoots: SkillDiscoveryRoot[];
+  // Current search query and source filter, to highlight the active counts
+  searchQuery: string;
+  activeSourceId: string | null;
+  isSortedByFiles: boolean;
+  onSourceClick: (rootId: string) => void;
+  onQueryFiltersToggle: (filters: SkillQueryFilter[]) => void;
+  onFilesClick: () => void;
+}
+
+interface StatButtonProps {
+  label: string;
+  count: number;
+  isActive: boolean;
+  onClick: () => void;
+  color?: string;
+  monospace?: boolean;
+  title?: string;
+}
+
+/**
+ * StatButton - A labelled count that applies a filter when clicked
+ */
+const StatButton: React.FC<StatButtonProps> = ({
+  label,
+  count,
+  isActive,
+  onClick,
+  color,
+  monospace,
+  title,
+}) => {
+  const { theme } = useTheme();
+  const accent = color ?? theme.colors.primary;
+
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={isActive}
+      title={title}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '3px 8px',
+        fontSize: theme.fontSizes[0],
+        fontFamily: monospace ? theme.fonts.monospace : theme.fonts.body,
+        border: `1px solid ${isActive ? accent : theme.colors.border}`,
+        borderRadius: theme.radii[1],
+        background: isActive ? `${accent}15` : theme.colors.backgroundSecondary,
+        color: isActive ? accent : theme.colors.text,
+        cursor: 'pointer',
+      }}
+    >
+      {color && (
+        <span style={{ width: '8px', height: '8px', borderRadius: '50%', background: color }} />
+      )}
+      <span>{label}</span>
+      <span style={{ fontWeight: 600 }}>{count}</span>
+    </button>
+  );
+};
+
+/**
+ * SkillInventorySummary - Expandable overview of the skills in the repository
+ * Every count is a shortcut to the matching source filter or search qualifier.
+ */
+export const SkillInventorySummary: React.FC<SkillInventorySummaryProps> = ({
+  inventory,
+  discoveryRoots,
+  searchQuery,
+  activeSourceId,
+  isSortedByFiles,
+  onSourceClick,
+  onQueryFiltersToggle,
+  onFilesClick,
+}) => {
+  const { theme } = useTheme();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const Chevron = isExpanded ? ChevronDown : ChevronRight;
+
+  const hasFilter = (qualifier: SkillQueryFilter['qualifier'], value: string, negated = false) =>
+    hasSkillQueryFilters(searchQuery, [{ qualifier, value, negated }]);
+
+  const queryStat = (
+    label: string,
+    count: number,
+    qualifier: SkillQueryFilter['qualifier'],
+    value: string,
+    negated = false
+  ) => (
+    <StatButton
+      label={label}
+      count={count}
+      isActive={hasFilter(qualifier, value, negated)}
+      onClick={() => onQueryFiltersToggle([{ qualifier, value, negated }])}
+      title={`${negated ? '-' : ''}${qualifier}:${value}`}
+    />
+  );
+
+  const sectionLabelStyle: React.CSSProperties = {
+    width: '90px',
+    flexShrink: 0,
+    fontSize: theme.fontSizes[0],
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: '0.04em',
+    paddingTop: '4px',
+  };
+  const sectionStyle: React.CSSProperties = { display: 'flex', gap: '8px' };
+  const chipsStyle: React.CSSProperties = { display: 'flex', gap: '6px', flexWrap: 'wrap' };
+
+  // Sources in precedence order, skipping roots without skills
+  const sources = Object.keys(inventory.bySource)
+    .map((id) => findSkillRoot(discoveryRoots, id))
+    .sort((a, b) => a.precedence - b.precedence);
+
+  return (
+    <div
+      style={{
+        flexShrink: 0,
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: theme.radii[2],
+        background: theme.colors.surface,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '8px 12px',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          fontSize: theme.fontSizes[1],
+          fontFamily: theme.fonts.body,
+          color: theme.colors.text,
+          textAlign: 'left',
+        }}
+      >
+        <Chevron size={14} color={theme.colors.textSecondary} />
+        <BarChart3 size={14} color={theme.colors.primary} />
+        <span style={{ fontWeight: 600 }}>Inventory</span>
+        <span style={{ color: theme.colors.textSecondary }}>
+          {inventory.total} skills · {inventory.fromGitHub} from GitHub · {inventory.local} local ·{' '}
+          {inventory.totalFiles} files
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+            padding: '4px 12px 12px 34px',
+          }}
+        >
+          <div style={sectionStyle}>
+            <span style={sectionLabelStyle}>Sources</span>
+            <div style={chipsStyle}>
+              {sources.map((root) => (
+                <StatButton
+                  key={root.id}
+                  label={root.label}
+                  count={inventory.bySource[root.id]}
+                  color={root.color}
+                  isActive={activeSourceId === root.id}
+                  onClick={() => onSourceClick(root.id)}
+                  title={root.glob || root.id}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div style={sectionStyle}>
+            <span style={sectionLabelStyle}>Provenance</span>
+            <div style={chipsStyle}>
+              {queryStat('From GitHub', inventory.fromGitHub, 'has', 'github')}
+              {queryStat('Local', inventory.local, 'has', 'github', true)}
+            </div>
+          </div>
+
+          <div style={sectionStyle}>
+            <span style={sectionLabelStyle}>Contents</span>
+            <div style={chipsStyle}>
+              {queryStat('Scripts', inventory.withScripts, 'has', 'scripts')}
+              {queryStat('References', inventory.withReferences, 'has', 'references')}
+              {queryStat('Assets', inventory.withAssets, 'has', 'assets')}
+              <StatButton
+                label="Files"
+                count={inventory.totalFiles}
+                isActive={isSortedByFiles}
+                onClick={onFilesClick}
+                title="Sort by most files"
+              />
+            </div>
+          </div>
+
+          {inventory.repos.length > 0 && (
+            <div style={sectionStyle}>
+              <span style={sectionLabelStyle}>
+                Repos ({inventory.repos.length})
+              </span>
+              <div style={chipsStyle}>
+                {inventory.repos.map(({ owner, repo, count }) => {
+                  const filters: SkillQueryFilter[] = [
+                    { qualifier: 'owner', value: owner, negated: false },
+                    { qualifier: 'repo', value: repo, negated: false },
+                  ];
+                  return (
+                    <StatButton
+                      key={`${owner}/${repo}`}
+                      label={`${owner}/${repo}`}
+                      count={count}
+                      monospace
+                      isActive={hasSkillQueryFilters(searchQuery, filters)}
+                      onClick={() => onQueryFiltersToggle(filters)}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ArrowUpDown, LayoutGrid, List, ListChecks, Rows3, Table } from 'lucide-react';
+import {
+  SKILL_GROUP_OPTIONS,
+  SKILL_SORT_OPTIONS,
+  SKILL_VIEW_OPTIONS,
+  type SkillGroupBy,
+  type SkillSortKey,
+  type SkillViewMode,
+} from '../utils/sortAndGroup';
+
+interface SkillListControlsProps {
+  sortKey: SkillSortKey;
+  groupBy: SkillGroupBy;
+  viewMode: SkillViewMode;
+  isMultiSelect: boolean;
+  onSortChange: (sortKey: SkillSortKey) => void;
+  onGroupChange: (groupBy: SkillGroupBy) => void;
+  onViewModeChange: (viewMode: SkillViewMode) => void;
+  onMultiSelectChange: (isMultiSelect: boolean) => void;
+}
+
+const VIEW_MODE_ICONS: Record<SkillViewMode, React.ComponentType<{ size?: number }>> = {
+  grid: LayoutGrid,
+  compact: List,
+  table: Table,
+};
+
+/**
+ * SkillListControls - Sort order, grouping, view mode and multi-select toggles
+ * for the skills list
+ */
+export const SkillListControls: React.FC<SkillListControlsProps> = ({
+  sortKey,
+  groupBy,
+  viewMode,
+  isMultiSelect,
+  onSortChange,
+  onGroupChange,
+  onViewModeChange,
+  onMultiSelectChange,
+}) => {
+  const { theme } = useTheme();
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    color: theme.colors.textSecondary,
+  };
+
+  const selectStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    fontSize: theme.fontSizes[1],
+    fontFamily: theme.fonts.body,
+    border: `1px solid ${theme.colors.border}`,
+    borderRadius: theme.radii[1],
+    background: theme.colors.backgroundSecondary,
+    color: theme.colors.text,
+    cursor: 'pointer',
+  };
+
+  return (
+    <div style={{ flexShrink: 0, display: 'flex', alignItems: 'center', gap: '16px', flexWrap: 'wrap' }}>
+      {/* The table sorts by its column headers instead */}
+      {viewMode !== 'table' && (
+        <label style={labelStyle}>
+          <ArrowUpDown size={14} />
+          Sort
+          <select
+            value={sortKey}
+            onChange={(e) => onSortChange(e.target.value as SkillSortKey)}
+            style={selectStyle}
+          >
+            {SKILL_SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label style={labelStyle}>
+        <Rows3 size={14} />
+        Group
+        <select
+          value={groupBy}
+          onChange={(e) => onGroupChange(e.target.value as SkillGroupBy)}
+          style={selectStyle}
+        >
+          {SKILL_GROUP_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Multi-select mode */}
+      <button
+        onClick={() => onMultiSelectChange(!isMultiSelect)}
+        aria-pressed={isMultiSelect}
+        title="Select multiple skills (or Shift-click a skill)"
+        style={{
+          marginLeft: 'auto',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '4px 8px',
+          fontSize: theme.fontSizes[1],
+          fontFamily: theme.fonts.body,
+          border: `1px solid ${isMultiSelect ? theme.colors.primary : theme.colors.border}`,
+          borderRadius: theme.radii[1],
+          background: isMultiSelect ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
+          color: isMultiSelect ? theme.colors.primary : theme.colors.textSecondary,
+          cursor: 'pointer',
+        }}
+      >
+        <ListChecks size={14} />
+        Select
+      </button>
+
+      {/* View mode */}
+      <div
+        role="radiogroup"
+        aria-label="View mode"
+        style={{
+          display: 'flex',
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: theme.radii[1],
+          overflow: 'hidden',
+        }}
+      >
+        {SKILL_VIEW_OPTIONS.map((option) => {
+          const Icon = VIEW_MODE_ICONS[option.value];
+          const isActive = viewMode === option.value;
+          return (
+            <button
+              key={option.value}
+              role="radio"
+              aria-checked={isActive}
+              aria-label={option.label}
+              title={option.label}
+              onClick={() => onViewModeChange(option.value)}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                padding: '4px 8px',
+                border: 'none',
+                background: isActive ? `${theme.colors.primary}15` : theme.colors.backgroundSecondary,
+                color: isActive ? theme.colors.primary : theme.colors.textSecondary,
+                cursor: 'pointer',
+              }}
+            >
+              <Icon size={14} />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
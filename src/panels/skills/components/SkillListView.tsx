@@ -0,0 +1,455 @@
+import React, { useCallback, useId, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { Skill } from '../hooks/useSkillsData';
+import { useVirtualRows, type VirtualRow } from '../hooks/useVirtualRows';
+import type { SkillDiscoveryRoot } from '../utils/discoveryRoots';
+import type { SkillSearchMatches } from '../utils/fuzzySearch';
+import type { SkillGroup, SkillTableSort, SkillViewMode } from '../utils/sortAndGroup';
+import { SkillCard } from './SkillCard';
+import { SkillGroupHeader } from './SkillGroupHeader';
+import { SkillRow } from './SkillRow';
+import { SkillTableHeader, SkillTableRow } from './SkillTable';
+
+interface SkillListViewProps {
+  groups: SkillGroup[];
+  viewMode: SkillViewMode;
+  collapsedGroups: Set<string>;
+  onToggleGroup: (key: string) => void;
+  selectedSkillId: string | null;
+  onSkillClick: (skill: Skill) => void;
+  discoveryRoots: SkillDiscoveryRoot[];
+  searchMatches: Map<string, SkillSearchMatches>;
+  tableSort: SkillTableSort;
+  onTableSortChange: (sort: SkillTableSort) => void;
+  // Focusable listbox element, for moving focus into the list from outside
+  listRef?: React.Ref<HTMLDivElement>;
+  // Checked skills in multi-select mode; single-select when undefined
+  checkedSkillIds?: Set<string>;
+  // Toggle a skill's checkbox, or check a range from the last toggled skill.
+  // Shift-click calls this even outside multi-select mode
+  onSkillToggle?: (skill: Skill, options: { range: boolean }) => void;
+}
+
+// A virtualized row: a group header, a line of cards, or a single skill
+type ListItem =
+  | { kind: 'header'; key: string; group: SkillGroup; isCollapsed: boolean }
+  | { kind: 'cards'; key: string; groupKey: string; skills: Skill[] }
+  | { kind: 'skill'; key: string; groupKey: string; skill: Skill };
+
+const CARD_MIN_WIDTH = 300;
+const CARD_GAP = 16;
+const LIST_PADDING = 4;
+
+// Starting heights before rows are measured
+const ESTIMATED_HEIGHTS: Record<ListItem['kind'], number> = {
+  header: 40,
+  cards: 200,
+  skill: 36,
+};
+
+/**
+ * Helper function to flatten groups into virtual rows. Cards are chunked into
+ * rows of `columns` so each grid line can be windowed independently.
+ */
+const buildListItems = (
+  groups: SkillGroup[],
+  viewMode: SkillViewMode,
+  collapsedGroups: Set<string>,
+  columns: number
+): ListItem[] => {
+  const items: ListItem[] = [];
+  // A single group renders without a header
+  const isGrouped = groups.length > 1;
+
+  for (const group of groups) {
+    const isCollapsed = isGrouped && collapsedGroups.has(group.key);
+    if (isGrouped) {
+      items.push({ kind: 'header', key: `header:${group.key}`, group, isCollapsed });
+    }
+    if (isCollapsed) continue;
+
+    if (viewMode === 'grid') {
+      for (let i = 0; i < group.skills.length; i += columns) {
+        const skills = group.skills.slice(i, i + columns);
+        items.push({
+          kind: 'cards',
+          key: `cards:${group.key}:${skills[0].id}`,
+          groupKey: group.key,
+          skills,
+        });
+      }
+    } else {
+      for (const skill of group.skills) {
+        items.push({
+          kind: 'skill',
+          key: `skill:${group.key}:${skill.id}`,
+          groupKey: group.key,
+          skill,
+        });
+      }
+    }
+  }
+
+  return items;
+};
+
+// Where each skill sits: its virtual row, column within a card row, and list order
+interface SkillPosition {
+  itemIndex: number;
+  column: number;
+  order: number;
+}
+
+/**
+ * Helper function to index the skills in display order
+ */
+const getSkillPositions = (items: ListItem[]) => {
+  const orderedSkills: Skill[] = [];
+  const positions = new Map<string, SkillPosition>();
+  items.forEach((item, itemIndex) => {
+    const skills = item.kind === 'cards' ? item.skills : item.kind === 'skill' ? [item.skill] : [];
+    skills.forEach((skill, column) => {
+      positions.set(skill.id, { itemIndex, column, order: orderedSkills.length });
+      orderedSkills.push(skill);
+    });
+  });
+  return { orderedSkills, positions };
+};
+
+const getItemGroupKey = (item: ListItem): string =>
+  item.kind === 'header' ? item.group.key : item.groupKey;
+
+/**
+ * Helper function to find the card directly above or below in the grid view
+ */
+const findVerticalNeighbor = (
+  items: ListItem[],
+  position: SkillPosition,
+  direction: 1 | -1
+): Skill | undefined => {
+  for (let i = position.itemIndex + direction; i >= 0 && i < items.length; i += direction) {
+    const item = items[i];
+    if (item.kind === 'cards') {
+      return item.skills[Math.min(position.column, item.skills.length - 1)];
+    }
+  }
+  return undefined;
+};
+
+/**
+ * SkillListView - Windowed skills list rendered as cards, compact rows or a table
+ *
+ * Only rows near the viewport are mounted, so repositories with thousands of
+ * skills stay responsive in every view mode. The list is a single tab stop
+ * that tracks an active skill via aria-activedescendant: arrow keys move it,
+ * Home/End jump to the ends and Enter/Space select it. In multi-select mode
+ * clicks and Space toggle checkboxes instead, with Shift for ranges. Grouped
+ * skills sit in a group (rowgroup in the table) labelled by their header.
+ */
+export const SkillListView: React.FC<SkillListViewProps> = ({
+  groups,
+  viewMode,
+  collapsedGroups,
+  onToggleGroup,
+  selectedSkillId,
+  onSkillClick,
+  discoveryRoots,
+  searchMatches,
+  tableSort,
+  onTableSortChange,
+  listRef,
+  checkedSkillIds,
+  onSkillToggle,
+}) => {
+  const isMultiSelect = checkedSkillIds !== undefined;
+  const listId = useId();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(1);
+  const [activeSkillId, setActiveSkillId] = useState<string | null>(null);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const items = useMemo(
+    () => buildListItems(groups, viewMode, collapsedGroups, columns),
+    [groups, viewMode, collapsedGroups, columns]
+  );
+
+  const getKey = useCallback((index: number) => items[index].key, [items]);
+  const estimateSize = useCallback(
+    (index: number) => ESTIMATED_HEIGHTS[items[index].kind],
+    [items]
+  );
+
+  const { orderedSkills, positions } = useMemo(() => getSkillPositions(items), [items]);
+
+  const { rows, totalHeight, measureRef, viewportWidth, scrollToIndex } = useVirtualRows({
+    scrollRef,
+    count: items.length,
+    getKey,
+    estimateSize,
+  });
+
+  // Cards per line, matching an auto-fill grid with a 300px minimum
+  useLayoutEffect(() => {
+    setColumns(
+      Math.max(
+        1,
+        Math.floor((viewportWidth - LIST_PADDING * 2 + CARD_GAP) / (CARD_MIN_WIDTH + CARD_GAP))
+      )
+    );
+  }, [viewportWidth]);
+
+  // Fall back to the selected skill, then the first one, when the active skill
+  // is filtered out or hidden in a collapsed group
+  const activeId =
+    [activeSkillId, selectedSkillId].find((id) => id !== null && positions.has(id)) ??
+    orderedSkills[0]?.id ??
+    null;
+  const activePosition = activeId !== null ? positions.get(activeId) : undefined;
+
+  const getOptionId = (skillId: string) => `${listId}-option-${positions.get(skillId)?.order}`;
+
+  const isGrouped = groups.length > 1;
+  const getGroupHeaderId = (groupKey: string) =>
+    `${listId}-group-${groups.findIndex((group) => group.key === groupKey)}`;
+
+  const activateSkill = (skill: Skill | undefined) => {
+    if (!skill) return;
+    setActiveSkillId(skill.id);
+    scrollToIndex(positions.get(skill.id)?.itemIndex ?? -1);
+  };
+
+  const handleSkillClick = (skill: Skill, e: React.MouseEvent) => {
+    setActiveSkillId(skill.id);
+    if (onSkillToggle && (isMultiSelect || e.shiftKey)) {
+      onSkillToggle(skill, { range: e.shiftKey });
+    } else {
+      onSkillClick(skill);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Leave keys alone while a group header or column button has focus
+    if (e.target !== e.currentTarget || !activePosition) return;
+
+    const { order } = activePosition;
+    let next: Skill | undefined;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        next =
+          viewMode === 'grid'
+            ? findVerticalNeighbor(items, activePosition, 1)
+            : orderedSkills[order + 1];
+        break;
+      case 'ArrowUp':
+        next =
+          viewMode === 'grid'
+            ? findVerticalNeighbor(items, activePosition, -1)
+            : orderedSkills[order - 1];
+        break;
+      case 'ArrowRight':
+        if (viewMode !== 'grid') return;
+        next = orderedSkills[order + 1];
+        break;
+      case 'ArrowLeft':
+        if (viewMode !== 'grid') return;
+        next = orderedSkills[order - 1];
+        break;
+      case 'Home':
+        next = orderedSkills[0];
+        break;
+      case 'End':
+        next = orderedSkills[orderedSkills.length - 1];
+        break;
+      case ' ':
+        e.preventDefault();
+        if (isMultiSelect && onSkillToggle) {
+          onSkillToggle(orderedSkills[order], { range: e.shiftKey });
+        } else {
+          onSkillClick(orderedSkills[order]);
+        }
+        return;
+      case 'Enter':
+        e.preventDefault();
+        onSkillClick(orderedSkills[order]);
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    activateSkill(next);
+  };
+
+  const handleFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return;
+    setIsFocused(true);
+    // The active row may have been scrolled out of the window and unmounted
+    if (activePosition) scrollToIndex(activePosition.itemIndex);
+  };
+
+  // Checked skills read as selected in multi-select mode
+  const isSkillSelected = (skill: Skill) =>
+    isMultiSelect ? checkedSkillIds.has(skill.id) : selectedSkillId === skill.id;
+
+  const renderItem = (item: ListItem) => {
+    switch (item.kind) {
+      case 'header': {
+        const header = (
+          <SkillGroupHeader
+            group={item.group}
+            isCollapsed={item.isCollapsed}
+            onToggle={() => onToggleGroup(item.group.key)}
+          />
+        );
+        return (
+          <div
+            id={getGroupHeaderId(item.group.key)}
+            role={viewMode === 'table' ? 'row' : 'presentation'}
+            style={{ paddingTop: '4px', paddingBottom: '8px' }}
+          >
+            {viewMode === 'table' ? <div role="rowheader">{header}</div> : header}
+          </div>
+        );
+      }
+      case 'cards':
+        return (
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+              gap: `${CARD_GAP}px`,
+              paddingBottom: `${CARD_GAP}px`,
+            }}
+          >
+            {item.skills.map((skill) => (
+              <SkillCard
+                key={skill.id}
+                id={getOptionId(skill.id)}
+                skill={skill}
+                onClick={handleSkillClick}
+                isSelected={isSkillSelected(skill)}
+                isChecked={checkedSkillIds?.has(skill.id)}
+                isActive={isFocused && activeId === skill.id}
+                discoveryRoots={discoveryRoots}
+                matches={searchMatches.get(skill.id)}
+              />
+            ))}
+          </div>
+        );
+      case 'skill':
+        return viewMode === 'table' ? (
+          <SkillTableRow
+            id={getOptionId(item.skill.id)}
+            skill={item.skill}
+            onClick={handleSkillClick}
+            isSelected={isSkillSelected(item.skill)}
+            isChecked={checkedSkillIds?.has(item.skill.id)}
+            isActive={isFocused && activeId === item.skill.id}
+            discoveryRoots={discoveryRoots}
+            matches={searchMatches.get(item.skill.id)}
+          />
+        ) : (
+          <SkillRow
+            id={getOptionId(item.skill.id)}
+            skill={item.skill}
+            onClick={handleSkillClick}
+            isSelected={isSkillSelected(item.skill)}
+            isChecked={checkedSkillIds?.has(item.skill.id)}
+            isActive={isFocused && activeId === item.skill.id}
+            discoveryRoots={discoveryRoots}
+            matches={searchMatches.get(item.skill.id)}
+          />
+        );
+    }
+  };
+
+  const renderRow = (row: VirtualRow) => (
+    <div
+      key={row.key}
+      ref={measureRef}
+      data-row-key={row.key}
+      style={{
+        position: 'absolute',
+        top: row.start + LIST_PADDING,
+        left: LIST_PADDING,
+        right: LIST_PADDING,
+      }}
+    >
+      {renderItem(items[row.index])}
+    </div>
+  );
+
+  // Consecutive mounted rows of the same group, in display order
+  const splitRowsByGroup = (visibleRows: VirtualRow[]) => {
+    const result: { groupKey: string; rows: VirtualRow[] }[] = [];
+    for (const row of visibleRows) {
+      const groupKey = getItemGroupKey(items[row.index]);
+      const last = result[result.length - 1];
+      if (last?.groupKey === groupKey) {
+        last.rows.push(row);
+      } else {
+        result.push({ groupKey, rows: [row] });
+      }
+    }
+    return result;
+  };
+
+  return (
+    <div
+      ref={listRef}
+      tabIndex={0}
+      role={viewMode === 'table' ? 'grid' : 'listbox'}
+      aria-label="Skills"
+      aria-multiselectable={isMultiSelect || undefined}
+      aria-activedescendant={activeId !== null ? getOptionId(activeId) : undefined}
+      aria-rowcount={viewMode === 'table' ? items.length + 1 : undefined}
+      onKeyDown={handleKeyDown}
+      onFocus={handleFocus}
+      onBlur={() => setIsFocused(false)}
+      style={{
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        minHeight: 0,
+        outline: 'none',
+      }}
+    >
+      {/* Header stays outside the scroller; width follows it so columns line up */}
+      {viewMode === 'table' && (
+        <div
+          style={{
+            flexShrink: 0,
+            width: viewportWidth || '100%',
+            padding: `0 ${LIST_PADDING}px`,
+            boxSizing: 'border-box',
+          }}
+        >
+          <SkillTableHeader sort={tableSort} onSortChange={onTableSortChange} />
+        </div>
+      )}
+
+      <div ref={scrollRef} style={{ flex: 1, minHeight: 0, overflowY: 'auto' }}>
+        <div style={{ position: 'relative', height: totalHeight + LIST_PADDING * 2 }}>
+          {isGrouped
+            ? splitRowsByGroup(rows).map(({ groupKey, rows: groupRows }) => {
+                // The header may be scrolled out of the window and unmounted
+                const hasHeader = items[groupRows[0].index].kind === 'header';
+                return (
+                  <div
+                    key={groupKey}
+                    role={viewMode === 'table' ? 'rowgroup' : 'group'}
+                    aria-labelledby={hasHeader ? getGroupHeaderId(groupKey) : undefined}
+                    aria-label={
+                      hasHeader ? undefined : groups.find((group) => group.key === groupKey)?.label
+                    }
+                  >
+                    {groupRows.map(renderRow)}
+                  </div>
+                );
+              })
+            : rows.map(renderRow)}
+        </div>
+      </div>
+    </div>
+  );
+};
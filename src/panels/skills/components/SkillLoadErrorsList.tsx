@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { AlertCircle, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import type { SkillLoadError, SkillLoadPhase } from '../hooks/useSkillsData';
+
+interface SkillLoadErrorsListProps {
+  loadErrors: SkillLoadError[];
+  onRetry: (path: string) => Promise<void>;
+}
+
+/**
+ * Helper to describe the step a skill failed at
+ */
+export const getLoadPhaseLabel = (phase: SkillLoadPhase): string => {
+  switch (phase) {
+    case 'read':
+      return 'Could not read SKILL.md';
+    case 'parse':
+      return 'Could not process skill';
+  }
+};
+
+/**
+ * SkillLoadErrorsList - Collapsible list of skills that were found but failed to load
+ */
+export const SkillLoadErrorsList: React.FC<SkillLoadErrorsListProps> = ({
+  loadErrors,
+  onRetry,
+}) => {
+  const { theme } = useTheme();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [retryingPath, setRetryingPath] = useState<string | null>(null);
+
+  if (loadErrors.length === 0) {
+    return null;
+  }
+
+  const handleRetry = async (path: string) => {
+    setRetryingPath(path);
+    try {
+      await onRetry(path);
+    } finally {
+      setRetryingPath(null);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        flexShrink: 0,
+        border: `1px solid ${theme.colors.error}40`,
+        borderRadius: theme.radii[2],
+        background: `${theme.colors.error}10`,
+        fontFamily: theme.fonts.body,
+      }}
+    >
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          background: 'transparent',
+          border: 'none',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          cursor: 'pointer',
+          color: theme.colors.error,
+          fontSize: theme.fontSizes[1],
+          fontFamily: theme.fonts.body,
+          fontWeight: 500,
+          textAlign: 'left',
+        }}
+      >
+        {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <AlertCircle size={14} />
+        <span>
+          {loadErrors.length} {loadErrors.length === 1 ? 'skill' : 'skills'} failed to load
+        </span>
+      </button>
+
+      {isExpanded && (
+        <ul style={{ listStyle: 'none', margin: 0, padding: '0 8px 8px' }}>
+          {loadErrors.map((loadError) => {
+            const isRetrying = retryingPath === loadError.path;
+
+            return (
+              <li
+                key={loadError.path}
+                style={{
+                  padding: '6px 4px',
+                  display: 'flex',
+                  alignItems: 'flex-start',
+                  gap: '8px',
+                  borderTop: `1px solid ${theme.colors.error}20`,
+                }}
+              >
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div
+                    style={{
+                      fontFamily: theme.fonts.monospace,
+                      fontSize: theme.fontSizes[0],
+                      color: theme.colors.text,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                    title={loadError.path}
+                  >
+                    {loadError.path}
+                  </div>
+                  <div style={{ fontSize: theme.fontSizes[0], color: theme.colors.textSecondary }}>
+                    {getLoadPhaseLabel(loadError.phase)}: {loadError.message}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRetry(loadError.path)}
+                  disabled={retryingPath !== null}
+                  style={{
+                    flexShrink: 0,
+                    padding: '4px 8px',
+                    fontSize: theme.fontSizes[0],
+                    fontFamily: theme.fonts.body,
+                    border: `1px solid ${theme.colors.border}`,
+                    borderRadius: theme.radii[1],
+                    background: theme.colors.backgroundSecondary,
+                    color: theme.colors.text,
+                    cursor: retryingPath !== null ? 'not-allowed' : 'pointer',
+                    opacity: retryingPath !== null && !isRetrying ? 0.5 : 1,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                  }}
+                  title="Try loading this skill again"
+                >
+                  <RefreshCw
+                    size={12}
+                    style={{ animation: isRetrying ? 'spin 1s linear infinite' : 'none' }}
+                  />
+                  Retry
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { AlertCircle, AlertTriangle, BookOpen, Code, EyeOff, Package } from 'lucide-react';
+import type { Skill } from '../hooks/useSkillsData';
+import type { SkillDiscoveryRoot } from '../utils/discoveryRoots';
+import { countDiagnostics } from '../utils/validateSkill';
+import type { SkillSearchMatches } from '../utils/fuzzySearch';
+import { getSourceConfig, SkillCheckbox } from './SkillCard';
+import { HighlightedText } from './HighlightedText';
+
+interface SkillRowProps {
+  skill: Skill;
+  onClick?: (skill: Skill, event: React.MouseEvent) => void;
+  isSelected?: boolean;
+  // Checkbox state in multi-select mode; no checkbox when undefined
+  isChecked?: boolean;
+  // Keyboard cursor of the surrounding listbox; draws the focus ring
+  isActive?: boolean;
+  id?: string;
+  discoveryRoots?: SkillDiscoveryRoot[];
+  matches?: SkillSearchMatches;
+}
+
+/**
+ * SkillRow - Single-line summary of a skill for the compact list view
+ */
+export const SkillRow: React.FC<SkillRowProps> = ({
+  skill,
+  onClick,
+  isSelected = false,
+  isActive = false,
+  isChecked,
+  id,
+  discoveryRoots,
+  matches,
+}) => {
+  const { theme } = useTheme();
+  const sourceConfig = getSourceConfig(skill.source, discoveryRoots);
+  const { errors, warnings } = countDiagnostics(skill.diagnostics);
+
+  const counts = [
+    { icon: Code, count: skill.scriptFiles?.length ?? 0, color: theme.colors.primary, label: 'Scripts' },
+    { icon: BookOpen, count: skill.referenceFiles?.length ?? 0, color: theme.colors.secondary, label: 'References' },
+    { icon: Package, count: skill.assetFiles?.length ?? 0, color: theme.colors.accent, label: 'Assets' },
+  ].filter((item) => item.count > 0);
+
+  return (
+    <div
+      id={id}
+      role="option"
+      aria-selected={isSelected}
+      onClick={(e) => onClick?.(skill, e)}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+        padding: '8px 10px',
+        borderBottom: `1px solid ${theme.colors.border}`,
+        background: isSelected ? `${theme.colors.primary}10` : 'transparent',
+        boxShadow: isSelected ? `inset 3px 0 0 ${theme.colors.primary}` : undefined,
+        outline: isActive ? `2px solid ${theme.colors.primary}` : undefined,
+        outlineOffset: '-2px',
+        cursor: onClick ? 'pointer' : 'default',
+        fontSize: theme.fontSizes[1],
+        fontFamily: theme.fonts.body,
+        minWidth: 0,
+      }}
+      onMouseEnter={(e) => {
+        if (onClick && !isSelected) {
+          e.currentTarget.style.background = theme.colors.backgroundHover;
+        }
+      }}
+      onMouseLeave={(e) => {
+        if (onClick && !isSelected) {
+          e.currentTarget.style.background = 'transparent';
+        }
+      }}
+      title={skill.path}
+    >
+      {isChecked !== undefined && <SkillCheckbox isChecked={isChecked} />}
+      <span
+        style={{
+          flexShrink: 0,
+          maxWidth: '40%',
+          fontWeight: theme.fontWeights.semibold,
+          color: theme.colors.text,
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+          textTransform: 'capitalize',
+        }}
+      >
+        <HighlightedText text={skill.name} indices={matches?.name} />
+      </span>
+
+      <span
+        style={{
+          flexShrink: 0,
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: '4px',
+          padding: '1px 6px',
+          borderRadius: theme.radii[1],
+          backgroundColor: sourceConfig.bgColor,
+          border: `1px solid ${sourceConfig.borderColor}`,
+          fontSize: theme.fontSizes[0],
+          color: sourceConfig.color,
+          fontWeight: 500,
+        }}
+      >
+        <sourceConfig.icon size={10} />
+        {sourceConfig.label}
+      </span>
+
+      {skill.shadowedBy && (
+        <span title={`Shadowed by: ${skill.shadowedBy}`} style={{ display: 'flex', flexShrink: 0 }}>
+          <EyeOff size={12} color={theme.colors.textMuted} />
+        </span>
+      )}
+
+      <span
+        style={{
+          flex: 1,
+          minWidth: 0,
+          color: theme.colors.textSecondary,
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {skill.description && (
+          <HighlightedText text={skill.description} indices={matches?.description} />
+        )}
+      </span>
+
+      {(errors > 0 || warnings > 0) && (
+        <span
+          style={{ display: 'inline-flex', alignItems: 'center', gap: '3px', flexShrink: 0 }}
+          title={skill.diagnostics?.map((d) => `${d.severity}: ${d.message}`).join('\n')}
+        >
+          {errors > 0 ? (
+            <AlertCircle size={12} color={theme.colors.error} />
+          ) : (
+            <AlertTriangle size={12} color={theme.colors.warning} />
+          )}
+        </span>
+      )}
+
+      {counts.map((item) => (
+        <span
+          key={item.label}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '3px',
+            flexShrink: 0,
+            fontSize: theme.fontSizes[0],
+            color: item.color,
+          }}
+          title={`${item.label}: ${item.count}`}
+        >
+          <item.icon size={12} />
+          {item.count}
+        </span>
+      ))}
+    </div>
+  );
+};
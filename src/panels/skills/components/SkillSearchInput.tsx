@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { Search, X } from 'lucide-react';
+import type { Skill } from '../hooks/useSkillsData';
+import {
+  applySkillQuerySuggestion,
+  getSkillQuerySuggestions,
+  type SkillQuerySuggestion,
+} from '../utils/skillQuery';
+
+interface SkillSearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Loaded skills, used to suggest qualifier values
+  skills: Skill[];
+  inputRef?: React.Ref<HTMLInputElement>;
+}
+
+/**
+ * SkillSearchInput - Search box with autocomplete for query qualifiers
+ */
+export const SkillSearchInput: React.FC<SkillSearchInputProps> = ({
+  value,
+  onChange,
+  skills,
+  inputRef,
+}) => {
+  const { theme } = useTheme();
+  const [isFocused, setIsFocused] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(() => getSkillQuerySuggestions(value, skills), [value, skills]);
+  const isOpen = isFocused && !isDismissed && suggestions.length > 0;
+
+  const handleChange = (next: string) => {
+    onChange(next);
+    setIsDismissed(false);
+    setActiveIndex(0);
+  };
+
+  const acceptSuggestion = (suggestion: SkillQuerySuggestion) => {
+    handleChange(applySkillQuerySuggestion(value, suggestion));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) {
+      // Escape clears the query once there are no suggestions to dismiss
+      if (e.key === 'Escape' && value) {
+        e.preventDefault();
+        handleChange('');
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((activeIndex + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        acceptSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setIsDismissed(true);
+        break;
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        flex: 1,
+        minWidth: '150px',
+      }}
+    >
+      <Search
+        size={16}
+        color={theme.colors.textSecondary}
+        style={{
+          position: 'absolute',
+          left: '10px',
+          top: '50%',
+          transform: 'translateY(-50%)',
+          pointerEvents: 'none',
+        }}
+      />
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="Search skills... (try has:scripts or source:)"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls="skill-search-suggestions"
+        aria-autocomplete="list"
+        aria-activedescendant={isOpen ? `skill-search-suggestion-${activeIndex}` : undefined}
+        style={{
+          width: '100%',
+          padding: '8px 32px 8px 32px',
+          fontSize: theme.fontSizes[1],
+          fontFamily: theme.fonts.body,
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: theme.radii[2],
+          background: theme.colors.backgroundSecondary,
+          color: theme.colors.text,
+          outline: 'none',
+          boxSizing: 'border-box',
+        }}
+      />
+      {value && (
+        <button
+          onClick={() => handleChange('')}
+          style={{
+            position: 'absolute',
+            right: '6px',
+            top: '50%',
+            transform: 'translateY(-50%)',
+            background: 'transparent',
+            border: 'none',
+            padding: '4px',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: theme.colors.textSecondary,
+          }}
+          aria-label="Clear search"
+        >
+          <X size={14} />
+        </button>
+      )}
+
+      {isOpen && (
+        <ul
+          id="skill-search-suggestions"
+          role="listbox"
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 4px)',
+            left: 0,
+            right: 0,
+            zIndex: 10,
+            margin: 0,
+            padding: '4px',
+            listStyle: 'none',
+            background: theme.colors.surface,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: theme.radii[2],
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+          }}
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.insertText}
+              id={`skill-search-suggestion-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so typing can continue
+              onMouseDown={(e) => {
+                e.preventDefault();
+                acceptSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              style={{
+                padding: '6px 8px',
+                borderRadius: theme.radii[1],
+                background: index === activeIndex ? theme.colors.backgroundHover : 'transparent',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'baseline',
+                gap: '8px',
+                fontSize: theme.fontSizes[1],
+                fontFamily: theme.fonts.body,
+              }}
+            >
+              <span style={{ fontFamily: theme.fonts.monospace, color: theme.colors.text }}>
+                {suggestion.label}
+              </span>
+              {suggestion.description && (
+                <span
+                  style={{
+                    color: theme.colors.textSecondary,
+                    fontSize: theme.fontSizes[0],
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {suggestion.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
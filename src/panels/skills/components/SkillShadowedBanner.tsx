@@ -0,0 +1,70 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { EyeOff } from 'lucide-react';
+import type { Skill } from '../hooks/useSkillsData';
+import type { SkillDiscoveryRoot } from '../utils/discoveryRoots';
+import { getSourceConfig } from './SkillCard';
+
+interface SkillShadowedBannerProps {
+  // The higher-precedence skill agents load instead
+  winner: Skill;
+  onSelectWinner?: (winner: Skill) => void;
+  discoveryRoots?: SkillDiscoveryRoot[];
+}
+
+/**
+ * SkillShadowedBanner - Explains that the displayed skill is not the live copy
+ */
+export const SkillShadowedBanner: React.FC<SkillShadowedBannerProps> = ({
+  winner,
+  onSelectWinner,
+  discoveryRoots,
+}) => {
+  const { theme } = useTheme();
+  const winnerSource = getSourceConfig(winner.source, discoveryRoots);
+
+  return (
+    <div
+      role="status"
+      style={{
+        padding: '0.75rem 1rem',
+        borderBottom: `1px solid ${theme.colors.warning}40`,
+        backgroundColor: `${theme.colors.warning}15`,
+        color: theme.colors.text,
+        fontSize: theme.fontSizes[1],
+        fontFamily: theme.fonts.body,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.5rem',
+        flexWrap: 'wrap',
+      }}
+    >
+      <EyeOff size={14} color={theme.colors.warning} style={{ flexShrink: 0 }} />
+      <span>
+        Shadowed by{' '}
+        {onSelectWinner ? (
+          <button
+            onClick={() => onSelectWinner(winner)}
+            style={{
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              color: theme.colors.primary,
+              fontSize: 'inherit',
+              fontFamily: 'inherit',
+              fontWeight: 600,
+              textDecoration: 'underline',
+              cursor: 'pointer',
+            }}
+            title={winner.path}
+          >
+            {winner.name}
+          </button>
+        ) : (
+          <strong title={winner.path}>{winner.name}</strong>
+        )}{' '}
+        ({winnerSource.label}). Agents load that copy instead of this one.
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React from 'react';
+import { useTheme } from '@principal-ade/industry-theme';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import type { Skill } from '../hooks/useSkillsData';
+import type { SkillDiscoveryRoot } from '../utils/discoveryRoots';
+import type { SkillSearchMatches } from '../utils/fuzzySearch';
+import type { SkillTableColumn, SkillTableSort } from '../utils/sortAndGroup';
+import { getSourceConfig, SkillCheckbox } from './SkillCard';
+import { HighlightedText } from './HighlightedText';
+
+const SKILL_TABLE_COLUMNS: { column: SkillTableColumn; label: string; numeric?: boolean }[] = [
+  { column: 'name', label: 'Name' },
+  { column: 'source', label: 'Source' },
+  { column: 'scripts', label: 'Scripts', numeric: true },
+  { column: 'references', label: 'Refs', numeric: true },
+  { column: 'assets', label: 'Assets', numeric: true },
+  { column: 'path', label: 'Path' },
+];
+
+// Shared by the header and every row so the columns line up
+export const SKILL_TABLE_GRID =
+  'minmax(120px, 2fr) minmax(90px, 1fr) 64px 56px 64px minmax(120px, 3fr)';
+
+interface SkillTableHeaderProps {
+  sort: SkillTableSort;
+  onSortChange: (sort: SkillTableSort) => void;
+}
+
+/**
+ * SkillTableHeader - Column headers for the table view; click to sort
+ */
+export const SkillTableHeader: React.FC<SkillTableHeaderProps> = ({ sort, onSortChange }) => {
+  const { theme } = useTheme();
+
+  const handleClick = (column: SkillTableColumn) => {
+    onSortChange(
+      sort.column === column
+        ? { column, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+        : { column, direction: 'asc' }
+    );
+  };
+
+  return (
+    <div
+      role="row"
+      style={{
+        display: 'grid',
+        gridTemplateColumns: SKILL_TABLE_GRID,
+        borderBottom: `1px solid ${theme.colors.border}`,
+        background: theme.colors.backgroundSecondary,
+      }}
+    >
+      {SKILL_TABLE_COLUMNS.map(({ column, label, numeric }) => {
+        const isSorted = sort.column === column;
+        const SortIcon = !isSorted ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+        return (
+          <div
+            key={column}
+            role="columnheader"
+            aria-sort={isSorted ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+          >
+            <button
+              onClick={() => handleClick(column)}
+              style={{
+                width: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: numeric ? 'flex-end' : 'flex-start',
+                gap: '4px',
+                padding: '6px 10px',
+                background: 'none',
+                border: 'none',
+                fontSize: theme.fontSizes[0],
+                fontFamily: theme.fonts.body,
+                fontWeight: 600,
+                color: isSorted ? theme.colors.text : theme.colors.textSecondary,
+                cursor: 'pointer',
+              }}
+            >
+              {label}
+              <SortIcon size={12} style={{ opacity: isSorted ? 1 : 0.4 }} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+interface SkillTableRowProps {
+  skill: Skill;
+  onClick?: (skill: Skill, event: React.MouseEvent) => void;
+  isSelected?: boolean;
+  // Checkbox state in multi-select mode; no checkbox when undefined
+  isChecked?: boolean;
+  // Keyboard cursor of the surrounding grid; draws the focus ring
+  isActive?: boolean;
+  id?: string;
+  discoveryRoots?: SkillDiscoveryRoot[];
+  matches?: SkillSearchMatches;
+}
+
+/**
+ * SkillTableRow - One skill in the table view
+ */
+export const SkillTableRow: React.FC<SkillTableRowProps> = ({
+  skill,
+  onClick,
+  isSelected = false,
+  isActive = false,
+  isChecked,
+  id,
+  discoveryRoots,
+  matches,
+}) => {
+  const { theme } = useTheme();
+  const sourceConfig = getSourceConfig(skill.source, discoveryRoots);
+
+  const cellStyle: React.CSSProperties = {
+    padding: '7px 10px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  };
+  const numericCellStyle: React.CSSProperties = {
+    ...cellStyle,
+    textAlign: 'right',
+    fontVariantNumeric: 'tabular-nums',
+  };
+
+  return (
+    <div
+      id={id}
+      role="row"
+      aria-selected={isSelected}
+      onClick={(e) => onClick?.(skill, e)}
+      style={{
+        display: 'grid',
+        gridTemplateColumns: SKILL_TABLE_GRID,
+        borderBottom: `1px solid ${theme.colors.border}`,
+        background: isSelected ? `${theme.colors.primary}10` : 'transparent',
+        boxShadow: isSelected ? `inset 3px 0 0 ${theme.colors.primary}` : undefined,
+        outline: isActive ? `2px solid ${theme.colors.primary}` : undefined,
+        outlineOffset: '-2px',
+        cursor: onClick ? 'pointer' : 'default',
+        fontSize: theme.fontSizes[1],
+        fontFamily: theme.fonts.body,
+        color: theme.colors.text,
+      }}
+      onMouseEnter={(e) => {
+        if (onClick && !isSelected) {
+          e.currentTarget.style.background = theme.colors.backgroundHover;
+        }
+      }}
+      onMouseLeave={(e) => {
+        if (onClick && !isSelected) {
+          e.currentTarget.style.background = 'transparent';
+        }
+      }}
+    >
+      <div
+        role="cell"
+        style={{
+          ...cellStyle,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          fontWeight: 500,
+          textTransform: 'capitalize',
+        }}
+      >
+        {isChecked !== undefined && <SkillCheckbox isChecked={isChecked} />}
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>
+          <HighlightedText text={skill.name} indices={matches?.name} />
+        </span>
+      </div>
+      <div role="cell" style={{ ...cellStyle, color: sourceConfig.color }} title={`Source: ${skill.source}`}>
+        {sourceConfig.label}
+      </div>
+      <div role="cell" style={numericCellStyle}>
+        {skill.scriptFiles?.length ?? 0}
+      </div>
+      <div role="cell" style={numericCellStyle}>
+        {skill.referenceFiles?.length ?? 0}
+      </div>
+      <div role="cell" style={numericCellStyle}>
+        {skill.assetFiles?.length ?? 0}
+      </div>
+      <div
+        role="cell"
+        style={{
+          ...cellStyle,
+          fontFamily: theme.fonts.monospace,
+          fontSize: theme.fontSizes[0],
+          color: theme.colors.textMuted,
+        }}
+        title={skill.path}
+      >
+        <HighlightedText text={skill.path} indices={matches?.path} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PanelContextValue } from '../../../types';
+import {
+  getViewStateKey,
+  readViewState,
+  resolvePanelStateStorage,
+  writeViewState,
+} from '../utils/viewStateStorage';
+
+// Coalesce writes while the user is typing in the search box
+const SAVE_DELAY_MS = 300;
+
+interface UsePersistedViewStateParams<T extends object> {
+  context: PanelContextValue;
+  // Identifies the panel within a repository's saved state
+  panelId: string;
+  // Current state to save; memoize it so unrelated renders don't trigger a write
+  state: T;
+  // Called with the saved state for the current repository ({} when none),
+  // on mount and whenever the repository changes
+  onRestore: (saved: Partial<T>) => void;
+}
+
+/**
+ * Hook to save panel view state per repository and restore it on mount
+ * Returns whether the state for the current repository has been restored yet.
+ */
+export const usePersistedViewState = <T extends object>({
+  context,
+  panelId,
+  state,
+  onRestore,
+}: UsePersistedViewStateParams<T>): boolean => {
+  const repoPath = context.currentScope.repository?.path;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const hostStorage = (context as any).adapters?.storage;
+  const storage = useMemo(() => resolvePanelStateStorage(hostStorage), [hostStorage]);
+  const key = getViewStateKey(panelId, repoPath);
+
+  // Key whose saved state has been applied; writes wait for it so the initial
+  // defaults never overwrite what's stored
+  const [restoredKey, setRestoredKey] = useState<string | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Debounced write that hasn't run yet, flushed rather than dropped on unmount
+  const pendingWriteRef = useRef<{ key: string; write: () => void } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const stateBeforeRestore = stateRef.current;
+
+    const restore = async () => {
+      const saved = storage ? await readViewState<T>(storage, key) : null;
+      if (cancelled) return;
+      // A slow host store mustn't undo what the user changed in the meantime
+      if (stateRef.current === stateBeforeRestore) {
+        onRestoreRef.current(saved ?? {});
+      }
+      setRestoredKey(key);
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, key]);
+
+  useEffect(() => {
+    // Switching repositories: save the previous one's last change first
+    if (pendingWriteRef.current && pendingWriteRef.current.key !== key) {
+      pendingWriteRef.current.write();
+    }
+    if (!storage || restoredKey !== key) return;
+
+    const write = () => {
+      pendingWriteRef.current = null;
+      writeViewState(storage, key, state);
+    };
+    pendingWriteRef.current = { key, write };
+    const timer = setTimeout(write, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [storage, key, restoredKey, state]);
+
+  useEffect(
+    () => () => {
+      pendingWriteRef.current?.write();
+    },
+    []
+  );
+
+  return restoredKey === key;
+};
@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react';
+import type { PanelContextValue } from '../../../types';
+import { GLOBAL_SCOPE_KEY, type Skill } from './useSkillsData';
+import { getCachedSkillDetails } from '../utils/skillCache';
+import { toFileSystemPath } from '../utils/paths';
+
+/**
+ * Full contents of a skill, loaded on demand when the skill is selected
+ */
+export interface SkillDetails {
+  // Full SKILL.md content, frontmatter included
+  content: string;
+  // Reference file contents keyed by path relative to the skill folder
+  references: Record<string, string>;
+  // Script sources keyed by path relative to the skill folder
+  scripts: Record<string, string>;
+  // Folder files that couldn't be read
+  failedFiles: string[];
+}
+
+interface UseSkillDetailsParams {
+  context: PanelContextValue;
+  skill: Skill | null;
+}
+
+interface UseSkillDetailsReturn {
+  details: SkillDetails | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Helper function to read a skill's body, references and scripts
+ */
+const loadSkillDetails = async (
+  skill: Skill,
+  repoPath: string | undefined,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fileSystem: any
+): Promise<SkillDetails> => {
+  const content =
+    skill.content ?? ((await fileSystem.readFile(toFileSystemPath(repoPath, skill.path))) as string);
+
+  const failedFiles: string[] = [];
+
+  const readFolderFiles = async (paths: string[]) => {
+    const entries = await Promise.all(
+      paths.map(async (relativePath) => {
+        try {
+          const fullPath = toFileSystemPath(repoPath, `${skill.skillFolderPath}/${relativePath}`);
+          return [relativePath, (await fileSystem.readFile(fullPath)) as string] as const;
+        } catch {
+          failedFiles.push(relativePath);
+          return null;
+        }
+      })
+    );
+    return Object.fromEntries(
+      entries.filter((entry): entry is readonly [string, string] => entry !== null)
+    );
+  };
+
+  const [references, scripts] = await Promise.all([
+    readFolderFiles(skill.referenceFiles ?? []),
+    readFolderFiles(skill.scriptFiles ?? []),
+  ]);
+
+  return { content, references, scripts, failedFiles };
+};
+
+/**
+ * Hook to load a skill's full body and folder contents when it is selected
+ * Loaded details are cached until the skill changes on disk.
+ */
+export const useSkillDetails = ({
+  context,
+  skill,
+}: UseSkillDetailsParams): UseSkillDetailsReturn => {
+  // Results are tagged with the skill they belong to, so a newly selected skill
+  // never renders with the previous skill's body
+  const [loaded, setLoaded] = useState<{
+    skillId: string;
+    details: SkillDetails | null;
+    error: string | null;
+  } | null>(null);
+
+  const repoPath = context.currentScope.repository?.path;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const fileSystem = (context as any).adapters?.fileSystem;
+
+  useEffect(() => {
+    if (!skill) return;
+
+    // Nothing to read: host-provided skills without a file system keep their inline content
+    if (!fileSystem?.readFile) {
+      setLoaded({
+        skillId: skill.id,
+        details:
+          skill.content !== undefined
+            ? { content: skill.content, references: {}, scripts: {}, failedFiles: [] }
+            : null,
+        error: skill.content !== undefined ? null : 'No file system available to load this skill',
+      });
+      return;
+    }
+
+    let cancelled = false;
+
+    getCachedSkillDetails(repoPath ?? GLOBAL_SCOPE_KEY, skill.id, () =>
+      loadSkillDetails(skill, repoPath, fileSystem)
+    )
+      .then((details) => {
+        if (cancelled) return;
+        setLoaded({ skillId: skill.id, details, error: null });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setLoaded({
+          skillId: skill.id,
+          details: null,
+          error: err instanceof Error ? err.message : 'Failed to load skill',
+        });
+        console.error(`Failed to load details for skill at ${skill.path}:`, err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [skill, repoPath, fileSystem]);
+
+  const current = skill && loaded?.skillId === skill.id ? loaded : null;
+
+  return {
+    details: current?.details ?? null,
+    isLoading: !!skill && !current,
+    error: current?.error ?? null,
+  };
+};
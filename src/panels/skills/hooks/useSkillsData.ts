@@ -1,13 +1,52 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { FileTree } from '@principal-ai/repository-abstraction';
+import { useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { FileTree, FileInfo } from '@principal-ai/repository-abstraction';
 import type { PanelContextValue } from '../../../types';
-
-export type SkillSource =
-  | 'project-universal'  // ./.agent/skills/ (from fileTree)
-  | 'global-universal'   // ~/.agent/skills/ (from globalSkills slice)
-  | 'project-claude'     // ./.claude/skills/ (from fileTree)
-  | 'global-claude'      // ~/.claude/skills/ (from globalSkills slice)
-  | 'project-other';     // any other location in project (from fileTree)
+import { parseFrontmatter, type SkillFrontmatter } from '../utils/frontmatter';
+import { validateSkill, type SkillDiagnostic } from '../utils/validateSkill';
+import { resolveSkillPrecedence } from '../utils/precedence';
+import {
+  computeSkillSignature,
+  getCachedSkill,
+  getCachedSkillIntegrity,
+  invalidateSkillCache,
+  pruneSkillCache,
+  setCachedSkill,
+  type SkillCacheStats,
+} from '../utils/skillCache';
+import { getSkillsStore, type SkillsLoadResult } from '../store/skillsStore';
+import { toFileSystemPath } from '../utils/paths';
+import {
+  checkSkillIntegrity,
+  METADATA_FILE_NAME,
+  type SkillIntegrityReport,
+} from '../utils/integrity';
+import {
+  createSkillRootMatcher,
+  getDiscoveryRootsKey,
+  parseDiscoveryRootsKey,
+  type SkillDiscoveryRoot,
+  type SkillRootMatch,
+  type SkillRootMatcher,
+} from '../utils/discoveryRoots';
+import {
+  determineSkillOrigin,
+  findPackageDirs,
+  getOriginKey,
+  type SkillOrigin,
+} from '../utils/origin';
+
+export type { SkillFrontmatter } from '../utils/frontmatter';
+export type { SkillDiagnostic, SkillDiagnosticSeverity } from '../utils/validateSkill';
+export type { SkillDiscoveryRoot } from '../utils/discoveryRoots';
+export type { SkillOrigin, SkillOriginKind } from '../utils/origin';
+export type {
+  SkillIntegrityReport,
+  SkillIntegrityStatus,
+  SkillFileIntegrity,
+} from '../utils/integrity';
+
+// Id of the discovery root a skill was found under (see DEFAULT_SKILL_ROOTS)
+export type SkillSource = string;
 
 export interface SkillMetadata {
   installedFrom?: string;
@@ -17,8 +56,12 @@ export interface SkillMetadata {
   branch?: string;
   installedAt?: string;
   destination?: string;
+  // Git tree SHA of the skill folder at install time
   sha?: string;
+  // Installed files, relative to the skill folder
   files?: string[];
+  // Git blob SHA of each installed file, keyed like `files`
+  fileHashes?: Record<string, string>;
 }
 
 export interface Skill {
@@ -26,21 +69,53 @@ export interface Skill {
   name: string;
   path: string;
   description?: string;
+  // Full SKILL.md content. Only set for host-provided skills; skills read from
+  // the file tree load their body on demand (see useSkillDetails)
   content?: string;
   capabilities?: string[];
+  // Parsed SKILL.md frontmatter (undefined when the file has none)
+  frontmatter?: SkillFrontmatter;
+  license?: string;
+  allowedTools?: string[];
   // Skill folder structure metadata
   skillFolderPath: string;
   hasScripts: boolean;
   hasReferences: boolean;
   hasAssets: boolean;
+  // Script, reference and asset files, relative to skillFolderPath
   scriptFiles?: string[];
   referenceFiles?: string[];
   assetFiles?: string[];
-  // Source and priority metadata (for display purposes only)
+  // Every file in the skill folder, relative to skillFolderPath (excluding SKILL.md)
+  folderFiles?: string[];
+  // Source and priority metadata (lower priority wins when names collide)
   source: SkillSource;
-  priority: 1 | 2 | 3 | 4 | 5;  // 1=project-universal, 2=global-universal, 3=project-claude, 4=global-claude, 5=project-other
+  priority: number;  // Precedence rank of the source's discovery root
+  // Repository root, plugin or monorepo package the skill ships with.
+  // Absent for host-provided skills, which count as root skills
+  origin?: SkillOrigin;
+  // Id of the higher-precedence skill with the same name, if this copy isn't live
+  shadowedBy?: string;
   // Installation metadata (from .metadata.json)
   metadata?: SkillMetadata;
+  // Drift of an installed skill from its .metadata.json, once checked (see checkIntegrity)
+  integrity?: SkillIntegrityReport;
+  // Problems found by the skill linter while loading
+  diagnostics?: SkillDiagnostic[];
+}
+
+/**
+ * Step of loading a skill that failed
+ * - read: SKILL.md couldn't be read
+ * - parse: the skill was read but couldn't be processed
+ */
+export type SkillLoadPhase = 'read' | 'parse';
+
+export interface SkillLoadError {
+  // SKILL.md path of the skill that failed (same form as Skill.path / Skill.id)
+  path: string;
+  phase: SkillLoadPhase;
+  message: string;
 }
 
 /**
@@ -52,60 +127,151 @@ export interface GlobalSkillsSlice {
 
 interface UseSkillsDataParams {
   context: PanelContextValue;
+  /**
+   * Also treat loose .md files directly inside a skills/ directory as skills.
+   * Only folders containing a SKILL.md are skills otherwise.
+   */
+  includeLegacySkillFiles?: boolean;
+  /**
+   * Directories to discover skills in, with their badge and precedence rank.
+   * Defaults to DEFAULT_SKILL_ROOTS.
+   */
+  discoveryRoots?: SkillDiscoveryRoot[];
 }
 
 interface UseSkillsDataReturn {
   skills: Skill[];
   isLoading: boolean;
   error: string | null;
+  // Skills that were found but failed to load
+  loadErrors: SkillLoadError[];
+  // Reload every skill, bypassing the parse cache
   refreshSkills: () => Promise<void>;
+  // Reload a single failed skill
+  retrySkill: (path: string) => Promise<void>;
+  // Compare an installed skill with its .metadata.json; the report lands on the skill
+  checkIntegrity: (skill: Skill) => Promise<void>;
+  // Cumulative parse cache hit/miss counts, for debugging
+  cacheStats: SkillCacheStats;
+  // Resolved discovery roots, ordered by precedence
+  discoveryRoots: SkillDiscoveryRoot[];
 }
 
+const SKILL_FILE_NAME = 'SKILL.md';
+
+// Pause before each background integrity check so hashing doesn't starve the UI
+const INTEGRITY_CHECK_DELAY_MS = 50;
+
+const textEncoder = new TextEncoder();
+
 /**
- * Helper function to determine skill source and priority from path
+ * Helper function to compare an installed skill with its .metadata.json
+ * Reads and hashes every file of the skill, so it runs after the load, not during it.
  */
-const determineSkillSource = (path: string): { source: SkillSource; priority: 1 | 2 | 3 | 4 | 5 } => {
-  if (path.includes('.agent/skills/')) {
-    return { source: 'project-universal', priority: 1 };
-  } else if (path.includes('.claude/skills/')) {
-    return { source: 'project-claude', priority: 3 };
-  } else {
-    return { source: 'project-other', priority: 5 };
-  }
+const checkInstalledSkill = async (
+  skill: Skill,
+  repoPath: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fileSystem: any
+): Promise<SkillIntegrityReport | null> => {
+  if (!skill.metadata || !skill.path.endsWith(`/${SKILL_FILE_NAME}`)) return null;
+
+  const report = await checkSkillIntegrity({
+    metadata: skill.metadata,
+    currentFiles: [SKILL_FILE_NAME, ...(skill.folderFiles ?? [])],
+    readFile: async (path) => {
+      const fullPath = toFileSystemPath(repoPath, `${skill.skillFolderPath}/${path}`);
+      return fileSystem.readBinaryFile
+        ? fileSystem.readBinaryFile(fullPath)
+        : textEncoder.encode(await fileSystem.readFile(fullPath));
+    },
+  });
+  return report ?? null;
 };
 
 /**
- * Helper function to find skill markdown files from the FileTree's allFiles array
- * Looks for any .md files in .agent/skills/ or .claude/skills/ directories
+ * Helper function to check whether a file sits directly in its root's skills directory
+ */
+const isDirectlyInRootDir = (path: string, match: SkillRootMatch): boolean =>
+  path.substring(0, path.lastIndexOf('/')) === match.rootDir;
+
+/**
+ * Helper function to find skill files from the FileTree's allFiles array
+ * Every folder under a discovery root that contains a SKILL.md is one skill.
+ * Loose .md files directly inside a root directory are only treated as skills
+ * when legacy standalone files are enabled.
  */
-const findSkillFiles = (fileTree: FileTree): string[] => {
-  // Filter allFiles for .md files in skill directories
+const findSkillFiles = (
+  fileTree: FileTree,
+  matchRoot: SkillRootMatcher,
+  includeLegacySkillFiles = false
+): string[] => {
   const skillFiles = fileTree.allFiles.filter(file => {
     const path = file.relativePath;
-    const isMarkdown = file.name.endsWith('.md');
-    const isInSkillDir = path.includes('.agent/skills/') || path.includes('.claude/skills/');
-
-    // Exclude metadata files
-    const isMetadata = file.name === '.metadata.json' || file.name.startsWith('.');
-
-    return isMarkdown && isInSkillDir && !isMetadata;
+    const match = matchRoot(path);
+    if (!match) return false;
+
+    if (file.name === SKILL_FILE_NAME) return true;
+
+    // Legacy: standalone markdown file directly in the skills directory
+    const isStandaloneFile = isDirectlyInRootDir(path, match);
+    return (
+      includeLegacySkillFiles &&
+      isStandaloneFile &&
+      file.name.endsWith('.md') &&
+      !file.name.startsWith('.')
+    );
   });
 
   // Return their relative paths
   return skillFiles.map(file => file.relativePath);
 };
 
+/**
+ * Helper function to group files under the skill folder that owns them
+ * Each file belongs to its nearest enclosing skill folder, so files of a nested
+ * skill aren't attributed to the outer one.
+ */
+const groupFilesBySkillDir = (
+  fileTree: FileTree,
+  skillPaths: string[],
+  matchRoot: SkillRootMatcher
+): Map<string, FileInfo[]> => {
+  const skillDirs = new Set(
+    skillPaths
+      .filter(p => p.endsWith(`/${SKILL_FILE_NAME}`))
+      .map(p => p.substring(0, p.lastIndexOf('/')))
+  );
+  const groups = new Map<string, FileInfo[]>();
+  if (skillDirs.size === 0) return groups;
+
+  for (const file of fileTree.allFiles) {
+    if (!matchRoot(file.relativePath)) continue;
+
+    let dir = file.relativePath.substring(0, file.relativePath.lastIndexOf('/'));
+    while (dir && !skillDirs.has(dir)) {
+      dir = dir.includes('/') ? dir.substring(0, dir.lastIndexOf('/')) : '';
+    }
+    if (dir) {
+      const group = groups.get(dir) ?? [];
+      group.push(file);
+      groups.set(dir, group);
+    }
+  }
+
+  return groups;
+};
+
 /**
  * Helper function to analyze skill folder structure
+ * `folderFiles` are the files owned by the skill folder (see groupFilesBySkillDir).
  */
-const analyzeSkillStructure = (fileTree: FileTree, skillPath: string) => {
+const analyzeSkillStructure = (skillPath: string, folderFiles: FileInfo[]) => {
   // Get skill directory path (parent of skill markdown file)
   const skillDir = skillPath.substring(0, skillPath.lastIndexOf('/'));
-  const pathParts = skillPath.split('/');
-  const parentDir = pathParts[pathParts.length - 2];
 
-  // Check if this is a standalone file directly in the skills directory
-  const isStandaloneFile = parentDir === 'skills';
+  // Check if this is a standalone file rather than a SKILL.md folder
+  const isStandaloneFile = !skillPath.endsWith(`/${SKILL_FILE_NAME}`);
 
   // For standalone files, there's no skill-specific folder structure
   if (isStandaloneFile) {
@@ -117,27 +283,22 @@ const analyzeSkillStructure = (fileTree: FileTree, skillPath: string) => {
       scriptFiles: [],
       referenceFiles: [],
       assetFiles: [],
+      folderFiles: [],
     };
   }
 
-  // For skills in subdirectories, analyze the folder structure
-  // Find all files in the skill directory
-  const skillFiles = fileTree.allFiles.filter(file =>
-    file.relativePath.startsWith(`${skillDir}/`)
-  );
+  const skillFiles = folderFiles.filter(file => file.relativePath !== skillPath);
+  const relativePaths = skillFiles.map(f => f.relativePath.substring(skillDir.length + 1));
 
   // Detect folder structure
-  const scriptFiles = skillFiles
-    .filter(f => f.relativePath.startsWith(`${skillDir}/scripts/`))
-    .map(f => f.name);
-
-  const referenceFiles = skillFiles
-    .filter(f => f.relativePath.startsWith(`${skillDir}/references/`))
-    .map(f => f.name);
+  const scriptFiles = relativePaths.filter(path => path.startsWith('scripts/'));
+  const assetFiles = relativePaths.filter(path => path.startsWith('assets/'));
 
-  const assetFiles = skillFiles
-    .filter(f => f.relativePath.startsWith(`${skillDir}/assets/`))
-    .map(f => f.name);
+  // Any other markdown in the folder (README.md, forms.md, ...) is reference material
+  const referenceFiles = relativePaths.filter(path =>
+    path.startsWith('references/') ||
+    (path.endsWith('.md') && !path.startsWith('scripts/') && !path.startsWith('assets/'))
+  );
 
   return {
     skillFolderPath: skillDir,
@@ -147,17 +308,49 @@ const analyzeSkillStructure = (fileTree: FileTree, skillPath: string) => {
     scriptFiles,
     referenceFiles,
     assetFiles,
+    folderFiles: relativePaths,
+  };
+};
+
+/**
+ * Helper function to bring a host-provided skill's file lists in line with local skills
+ * Hosts list scripts, references and assets by bare file name (`scan.sh`), so
+ * entries without a folder are put back under theirs (`scripts/scan.sh`).
+ */
+const normalizeHostSkillFiles = (skill: Skill): Skill => {
+  const withFolder = (folder: string, files?: string[]) =>
+    files?.map(file => (file.includes('/') ? file : `${folder}/${file}`));
+
+  const scriptFiles = withFolder('scripts', skill.scriptFiles);
+  const referenceFiles = withFolder('references', skill.referenceFiles);
+  const assetFiles = withFolder('assets', skill.assetFiles);
+
+  return {
+    ...skill,
+    scriptFiles,
+    referenceFiles,
+    assetFiles,
+    folderFiles: skill.folderFiles ?? [
+      ...(scriptFiles ?? []),
+      ...(referenceFiles ?? []),
+      ...(assetFiles ?? []),
+    ],
   };
 };
 
 /**
  * Helper function to parse skill markdown content and extract metadata
+ * The full content is only used while parsing; it isn't kept on the Skill so the
+ * list stays lightweight. Bodies load on demand through useSkillDetails.
  */
 const parseSkillContent = async (
   content: string,
   path: string,
-  fileTree: FileTree,
-  fileSystemAdapter?: any
+  folderFiles: FileInfo[],
+  match: SkillRootMatch,
+  origin: SkillOrigin,
+  // Read a file by path relative to the skill folder
+  readFolderFile?: (path: string) => Promise<string>
 ): Promise<Skill> => {
   // Extract skill name from path
   const pathParts = path.split('/');
@@ -166,159 +359,317 @@ const parseSkillContent = async (
 
   // If the file is directly in a skills directory, use the filename as the skill name
   // Otherwise, use the parent directory name (for skills in subdirectories)
-  const isDirectlyInSkillsDir = parentDir === 'skills';
+  const isDirectlyInSkillsDir = isDirectlyInRootDir(path, match);
   const skillDirName = isDirectlyInSkillsDir
     ? fileName.replace(/\.md$/, '') // Remove .md extension
     : parentDir;
 
-  // Try to extract description from the first paragraph after a heading
-  let description = '';
-  const lines = content.split('\n');
-  let foundHeading = false;
+  // Frontmatter is the source of truth for name and description
+  const parsed = parseFrontmatter(content);
+  const { frontmatter } = parsed;
 
-  for (const line of lines) {
-    if (line.startsWith('#')) {
-      foundHeading = true;
-      continue;
-    }
-    if (foundHeading && line.trim() && !line.startsWith('#')) {
-      description = line.trim();
-      break;
+  let description = frontmatter?.description?.trim() ?? '';
+  const capabilities: string[] = [];
+
+  // Without frontmatter, fall back to guessing from the markdown body
+  if (!frontmatter) {
+    // Try to extract description from the first paragraph after a heading
+    const lines = content.split('\n');
+    let foundHeading = false;
+
+    for (const line of lines) {
+      if (line.startsWith('#')) {
+        foundHeading = true;
+        continue;
+      }
+      if (foundHeading && line.trim() && !line.startsWith('#')) {
+        description = line.trim();
+        break;
+      }
     }
-  }
 
-  // Extract capabilities (look for bullet points or numbered lists)
-  const capabilities: string[] = [];
-  for (const line of lines) {
-    const bulletMatch = line.match(/^[\s]*[-*]\s+(.+)/);
-    if (bulletMatch) {
-      capabilities.push(bulletMatch[1].trim());
+    // Extract capabilities (look for bullet points or numbered lists)
+    for (const line of lines) {
+      const bulletMatch = line.match(/^[\s]*[-*]\s+(.+)/);
+      if (bulletMatch) {
+        capabilities.push(bulletMatch[1].trim());
+      }
     }
   }
 
   // Analyze skill folder structure
-  const structure = analyzeSkillStructure(fileTree, path);
+  const structure = analyzeSkillStructure(path, folderFiles);
 
-  // Determine source and priority
-  const { source, priority } = determineSkillSource(path);
+  // Lint the skill against the Agent Skills spec
+  const diagnostics = validateSkill({
+    path,
+    content,
+    parsed,
+    folderName: isDirectlyInSkillsDir ? undefined : parentDir,
+    folderFiles: isDirectlyInSkillsDir
+      ? []
+      : folderFiles.map(file => file.relativePath.substring(structure.skillFolderPath.length + 1)),
+  });
 
-  // Try to read .metadata.json if it exists
+  // Read .metadata.json if the skill was installed; a broken one is a warning
   let metadata: SkillMetadata | undefined;
-  if (fileSystemAdapter && structure.skillFolderPath) {
+  if (readFolderFile && structure.folderFiles.includes(METADATA_FILE_NAME)) {
+    const metadataPath = `${structure.skillFolderPath}/${METADATA_FILE_NAME}`;
+    let metadataContent: string | undefined;
     try {
-      const metadataPath = `${structure.skillFolderPath}/.metadata.json`;
-      const metadataContent = await fileSystemAdapter.readFile(metadataPath);
-      metadata = JSON.parse(metadataContent);
-      console.log('[useSkillsData] Loaded metadata for skill:', skillDirName, metadata);
-    } catch (error) {
-      // .metadata.json doesn't exist or couldn't be read - this is fine
-      console.debug('[useSkillsData] No metadata file for skill:', skillDirName);
+      metadataContent = await readFolderFile(METADATA_FILE_NAME);
+    } catch (err) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'invalid-metadata',
+        message: `Could not read ${METADATA_FILE_NAME}: ${err instanceof Error ? err.message : String(err)}`,
+        file: metadataPath,
+      });
+    }
+
+    if (metadataContent !== undefined) {
+      try {
+        const parsedMetadata: unknown = JSON.parse(metadataContent);
+        if (!parsedMetadata || typeof parsedMetadata !== 'object' || Array.isArray(parsedMetadata)) {
+          throw new Error('expected a JSON object');
+        }
+        metadata = parsedMetadata as SkillMetadata;
+      } catch (err) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'invalid-metadata',
+          message: `${METADATA_FILE_NAME} is malformed: ${err instanceof Error ? err.message : String(err)}`,
+          file: metadataPath,
+        });
+      }
     }
   }
 
   return {
     id: path,
-    name: skillDirName.replace(/-/g, ' ').replace(/_/g, ' '),
+    name: frontmatter?.name?.trim() || skillDirName.replace(/-/g, ' ').replace(/_/g, ' '),
     path,
     description: description || 'No description available',
-    content,
     capabilities: capabilities.slice(0, 3), // Limit to first 3 capabilities
+    frontmatter: frontmatter ?? undefined,
+    license: frontmatter?.license,
+    allowedTools: frontmatter?.allowedTools,
     ...structure,
-    source,
-    priority,
+    source: match.root.id,
+    priority: match.root.precedence,
+    origin,
     metadata,
+    diagnostics,
   };
 };
 
+/**
+ * Store and cache key used when no repository is open (global skills only)
+ */
+export const GLOBAL_SCOPE_KEY = '__global__';
+
 /**
  * Hook to discover and read SKILL.md files from the file tree
+ * Panels showing the same repository share one store, so they load, refresh
+ * and fail together.
  */
 export const useSkillsData = ({
   context,
+  includeLegacySkillFiles = false,
+  discoveryRoots,
 }: UseSkillsDataParams): UseSkillsDataReturn => {
-  const [skills, setSkills] = useState<Skill[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
   // Extract stable references from context to avoid unnecessary re-renders
   const fileTreeSlice = context.getSlice<FileTree>('fileTree');
   const fileTree = fileTreeSlice?.data;
   const fileTreeSha = fileTree?.sha; // Use SHA as stable identity
   const globalSkillsSlice = context.getSlice<GlobalSkillsSlice>('globalSkills');
-  const globalSkills = globalSkillsSlice?.data?.skills || [];
+  const globalSkillsData = globalSkillsSlice?.data?.skills;
   const repoPath = context.currentScope.repository?.path;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const fileSystem = (context as any).adapters?.fileSystem;
 
-  const loadSkills = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+  // Key roots by content so a fresh array literal doesn't trigger a reload
+  const rootsKey = getDiscoveryRootsKey(discoveryRoots);
+  const roots = useMemo(() => parseDiscoveryRootsKey(rootsKey), [rootsKey]);
 
-    try {
-      let localSkills: Skill[] = [];
-
-      if (fileTree && fileSystem?.readFile && repoPath) {
-        // eslint-disable-next-line no-console
-        console.log('[useSkillsData] fileTree:', fileTree);
-        // eslint-disable-next-line no-console
-        console.log('[useSkillsData] typeof fileTree:', typeof fileTree);
-        // eslint-disable-next-line no-console
-        console.log('[useSkillsData] fileTree keys:', Object.keys(fileTree));
-
-        // Find all SKILL.md files in project
-        const skillPaths = findSkillFiles(fileTree);
-
-        // eslint-disable-next-line no-console
-        console.log('[useSkillsData] Found skill paths:', skillPaths);
-
-        // Read content for each local skill
-        const skillPromises = skillPaths.map(async (skillPath) => {
-          try {
-            const fullPath = `${repoPath}/${skillPath}`;
-            const content = await fileSystem.readFile(fullPath);
-            return parseSkillContent(content as string, skillPath, fileTree, fileSystem);
-          } catch (err) {
-            console.error(`Failed to read skill at ${skillPath}:`, err);
-            return null;
-          }
-        });
+  // Legacy discovery and other roots yield a different skill set, so they get their own store
+  const storeKey = `${repoPath ?? GLOBAL_SCOPE_KEY}${includeLegacySkillFiles ? '#legacy' : ''}#${rootsKey}`;
+  const store = useMemo(() => getSkillsStore(storeKey), [storeKey]);
+  const { skills, isLoading, error, loadErrors, cacheStats } = useSyncExternalStore(
+    store.subscribe,
+    store.getState
+  );
 
-        localSkills = (await Promise.all(skillPromises)).filter(
-          (skill): skill is Skill => skill !== null
-        );
-      }
+  const loadSkills = useCallback(async (): Promise<SkillsLoadResult> => {
+    const globalSkills = globalSkillsData || [];
+    let localSkills: Skill[] = [];
+    const loadErrors: SkillLoadError[] = [];
 
+    if (fileTree && fileSystem?.readFile && repoPath) {
+      // eslint-disable-next-line no-console
+      console.log('[useSkillsData] fileTree:', fileTree);
+      // eslint-disable-next-line no-console
+      console.log('[useSkillsData] typeof fileTree:', typeof fileTree);
       // eslint-disable-next-line no-console
-      console.log('[useSkillsData] Global skills:', globalSkills);
+      console.log('[useSkillsData] fileTree keys:', Object.keys(fileTree));
 
-      // Merge local and global skills
-      const allSkills = [...localSkills, ...globalSkills];
+      // Find all SKILL.md files in project
+      const matchRoot = createSkillRootMatcher(roots);
+      const skillPaths = findSkillFiles(fileTree, matchRoot, includeLegacySkillFiles);
 
       // eslint-disable-next-line no-console
-      console.log('[useSkillsData] Total skills:', allSkills.length);
-
-      setSkills(allSkills);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load skills';
-      setError(errorMessage);
-      console.error('Error loading skills:', err);
-    } finally {
-      setIsLoading(false);
+      console.log('[useSkillsData] Found skill paths:', skillPaths);
+
+      const filesBySkillDir = groupFilesBySkillDir(fileTree, skillPaths, matchRoot);
+      const filesByPath = new Map(fileTree.allFiles.map(file => [file.relativePath, file]));
+      const packageDirs = findPackageDirs(fileTree.allFiles.map(file => file.relativePath));
+
+      // Read content for each local skill, reusing cached parses of unchanged folders
+      const skillPromises = skillPaths.map(async (skillPath) => {
+        const skillDir = skillPath.substring(0, skillPath.lastIndexOf('/'));
+        const folderFiles = skillPath.endsWith(`/${SKILL_FILE_NAME}`)
+          ? filesBySkillDir.get(skillDir) ?? []
+          : [filesByPath.get(skillPath)].filter((file): file is FileInfo => !!file);
+        const match = matchRoot(skillPath) as SkillRootMatch;
+        const origin = determineSkillOrigin(match.rootDir, packageDirs);
+        // Root and origin are stored on the skill, so changing either invalidates the parse
+        const signature = [
+          `${match.root.id}:${match.root.precedence}`,
+          getOriginKey(origin),
+          computeSkillSignature(folderFiles),
+        ].join('|');
+
+        const cached = getCachedSkill(repoPath, skillPath, signature);
+        if (cached) return cached;
+
+        const fail = (phase: SkillLoadPhase, err: unknown) => {
+          loadErrors.push({
+            path: skillPath,
+            phase,
+            message: err instanceof Error ? err.message : String(err),
+          });
+          return null;
+        };
+
+        let content: string;
+        try {
+          content = await fileSystem.readFile(toFileSystemPath(repoPath, skillPath));
+        } catch (err) {
+          return fail('read', err);
+        }
+
+        try {
+          const skill = await parseSkillContent(content, skillPath, folderFiles, match, origin, (path) =>
+            fileSystem.readFile(toFileSystemPath(repoPath, `${skillDir}/${path}`))
+          );
+          setCachedSkill(repoPath, skillPath, signature, skill);
+          return skill;
+        } catch (err) {
+          return fail('parse', err);
+        }
+      });
+
+      localSkills = (await Promise.all(skillPromises)).filter(
+        (skill): skill is Skill => skill !== null
+      );
+
+      // Failures follow the order skills were found in, not completion order
+      loadErrors.sort((a, b) => skillPaths.indexOf(a.path) - skillPaths.indexOf(b.path));
+
+      // Forget skill folders that were removed
+      pruneSkillCache(repoPath, skillPaths);
     }
-  }, [fileTree, fileTreeSha, globalSkills, repoPath, fileSystem]);
 
+    // eslint-disable-next-line no-console
+    console.log('[useSkillsData] Global skills:', globalSkills);
+
+    // Host-provided skills take the precedence rank of their configured root
+    const rankedGlobalSkills = globalSkills.map((hostSkill) => {
+      const skill = normalizeHostSkillFiles(hostSkill);
+      const root = roots.find((candidate) => candidate.id === skill.source);
+      return root && root.precedence !== skill.priority
+        ? { ...skill, priority: root.precedence }
+        : skill;
+    });
+
+    // Merge local and global skills, then work out which copy of each name is live
+    const allSkills = resolveSkillPrecedence([...localSkills, ...rankedGlobalSkills]);
+
+    // eslint-disable-next-line no-console
+    console.log('[useSkillsData] Total skills:', allSkills.length);
+
+    return { skills: allSkills, loadErrors };
+  }, [fileTree, globalSkillsData, repoPath, fileSystem, includeLegacySkillFiles, roots]);
+
+  // Shared load: a no-op when another panel already loaded these inputs.
+  // A new tree object reloads even when its SHA is unchanged or missing;
+  // unchanged folders come from the parse cache
+  useEffect(() => {
+    store.load([fileTreeSha, fileTree, globalSkillsData, repoPath, fileSystem], loadSkills);
+  }, [store, fileTree, fileTreeSha, globalSkillsData, repoPath, fileSystem, loadSkills]);
+
+  // An explicit refresh re-reads every SKILL.md: edits within the same mtime
+  // second, or on hosts without mtimes, leave the signature unchanged
   const refreshSkills = useCallback(async () => {
-    await loadSkills();
-  }, [loadSkills]);
+    if (repoPath) invalidateSkillCache(repoPath);
+    await store.refresh();
+  }, [store, repoPath]);
+
+  // Failed skills are never cached, so a refresh only re-reads them (and any changed folders)
+  const retrySkill = useCallback(
+    async (path: string) => {
+      invalidateSkillCache(repoPath ?? GLOBAL_SCOPE_KEY, path);
+      await store.refresh();
+    },
+    [store, repoPath]
+  );
 
+  const checkIntegrity = useCallback(
+    async (skill: Skill) => {
+      if (!repoPath || !fileSystem?.readFile || skill.integrity || !skill.metadata) return;
+      const report = await getCachedSkillIntegrity(repoPath, skill.id, () =>
+        checkInstalledSkill(skill, repoPath, fileSystem)
+      );
+      if (report) store.updateSkill(skill.id, (current) => ({ ...current, integrity: report }));
+    },
+    [store, repoPath, fileSystem]
+  );
+
+  // Check installed skills one at a time in the background so list badges show
+  // drift without anyone opening them; each result restarts the pass on the rest
   useEffect(() => {
-    loadSkills();
-  }, [loadSkills]);
+    if (isLoading) return;
+    const unchecked = skills.filter((skill) => skill.metadata && !skill.integrity);
+    if (unchecked.length === 0) return;
+
+    let cancelled = false;
+    const checkInBackground = async () => {
+      for (const skill of unchecked) {
+        await new Promise((resolve) => setTimeout(resolve, INTEGRITY_CHECK_DELAY_MS));
+        if (cancelled) return;
+        try {
+          await checkIntegrity(skill);
+        } catch (err) {
+          console.error(`Failed to check integrity of ${skill.path}:`, err);
+        }
+      }
+    };
+    void checkInBackground();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [skills, isLoading, checkIntegrity]);
 
   return {
     skills,
     isLoading,
     error,
+    loadErrors,
     refreshSkills,
+    retrySkill,
+    checkIntegrity,
+    cacheStats,
+    discoveryRoots: roots,
   };
 };
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface UseVirtualRowsParams {
+  // Scrollable element that contains the rows
+  scrollRef: React.RefObject<HTMLElement | null>;
+  count: number;
+  getKey: (index: number) => string;
+  // Height used until a row has been measured
+  estimateSize: (index: number) => number;
+  // Extra rows rendered above and below the viewport
+  overscan?: number;
+}
+
+export interface VirtualRow {
+  index: number;
+  key: string;
+  // Offset from the top of the list
+  start: number;
+}
+
+interface UseVirtualRowsReturn {
+  rows: VirtualRow[];
+  totalHeight: number;
+  // Attach to each rendered row so its real height replaces the estimate
+  measureRef: (element: HTMLElement | null) => void;
+  // Width of the scroll container, for layouts that depend on it
+  viewportWidth: number;
+  scrollToIndex: (index: number) => void;
+}
+
+/**
+ * Hook to window a long list of variable-height rows
+ * Only rows intersecting the viewport (plus `overscan`) are returned. Rendered
+ * rows are measured with a ResizeObserver and must carry a `data-row-key`
+ * attribute matching `getKey`.
+ */
+export const useVirtualRows = ({
+  scrollRef,
+  count,
+  getKey,
+  estimateSize,
+  overscan = 4,
+}: UseVirtualRowsParams): UseVirtualRowsReturn => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [measured, setMeasured] = useState<Map<string, number>>(() => new Map());
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  // Track scroll position and viewport size of the container
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const updateViewport = () =>
+      setViewport({ width: element.clientWidth, height: element.clientHeight });
+    const handleScroll = () => setScrollTop(element.scrollTop);
+
+    updateViewport();
+    handleScroll();
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    const resizeObserver = new ResizeObserver(updateViewport);
+    resizeObserver.observe(element);
+
+    return () => {
+      element.removeEventListener('scroll', handleScroll);
+      resizeObserver.disconnect();
+    };
+  }, [scrollRef]);
+
+  // One observer measures every mounted row. It's created on first use, since
+  // row refs attach before effects run
+  const getObserver = useCallback((): ResizeObserver => {
+    if (!observerRef.current) {
+      const observer = new ResizeObserver((entries) => {
+        setMeasured((prev) => {
+          let next: Map<string, number> | null = null;
+          for (const entry of entries) {
+            // Rows scrolled out of the window are detached; keep their last height
+            if (!entry.target.isConnected) {
+              observer.unobserve(entry.target);
+              continue;
+            }
+            const key = (entry.target as HTMLElement).dataset.rowKey;
+            const height = (entry.target as HTMLElement).offsetHeight;
+            if (key && prev.get(key) !== height) {
+              next = next ?? new Map(prev);
+              next.set(key, height);
+            }
+          }
+          return next ?? prev;
+        });
+      });
+      observerRef.current = observer;
+    }
+    return observerRef.current;
+  }, []);
+
+  useEffect(
+    () => () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    },
+    []
+  );
+
+  const measureRef = useCallback(
+    (element: HTMLElement | null) => {
+      if (element) getObserver().observe(element);
+    },
+    [getObserver]
+  );
+
+  // Prefix sums of row heights
+  const offsets = useMemo(() => {
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (measured.get(getKey(i)) ?? estimateSize(i));
+    }
+    return result;
+  }, [count, getKey, estimateSize, measured]);
+
+  const totalHeight = offsets[count];
+
+  const rows = useMemo(() => {
+    if (count === 0) return [];
+
+    // Binary search for the first row ending below the top of the viewport
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= scrollTop) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const first = Math.max(0, low - overscan);
+    const bottom = scrollTop + (viewport.height || 800);
+    let last = low;
+    while (last < count - 1 && offsets[last + 1] < bottom) last++;
+    last = Math.min(count - 1, last + overscan);
+
+    const visible: VirtualRow[] = [];
+    for (let index = first; index <= last; index++) {
+      visible.push({ index, key: getKey(index), start: offsets[index] });
+    }
+    return visible;
+  }, [count, getKey, offsets, scrollTop, viewport.height, overscan]);
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const element = scrollRef.current;
+      if (!element || index < 0 || index >= count) return;
+      const start = offsets[index];
+      const end = offsets[index + 1];
+      if (start < element.scrollTop) {
+        element.scrollTop = start;
+      } else if (end > element.scrollTop + element.clientHeight) {
+        element.scrollTop = end - element.clientHeight;
+      }
+    },
+    [scrollRef, count, offsets]
+  );
+
+  return { rows, totalHeight, measureRef, viewportWidth: viewport.width, scrollToIndex };
+};
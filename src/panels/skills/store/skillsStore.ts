@@ -0,0 +1,126 @@
+/**
+ * Package-level skills store
+ *
+ * Every mounted skills panel for the same repository shares one store, so the
+ * list and detail panels see a single load, a single refresh and a single
+ * error state instead of each reading the file system on their own.
+ */
+
+import type { Skill, SkillLoadError } from '../hooks/useSkillsData';
+import { getSkillCacheStats, type SkillCacheStats } from '../utils/skillCache';
+
+export interface SkillsStoreState {
+  skills: Skill[];
+  isLoading: boolean;
+  // Total failure: no skills could be loaded at all
+  error: string | null;
+  // Individual skills that failed to load
+  loadErrors: SkillLoadError[];
+  cacheStats: SkillCacheStats;
+}
+
+export interface SkillsLoadResult {
+  skills: Skill[];
+  loadErrors: SkillLoadError[];
+}
+
+export type SkillsLoader = () => Promise<SkillsLoadResult>;
+
+export interface SkillsStore {
+  getState: () => SkillsStoreState;
+  subscribe: (listener: () => void) => () => void;
+  /**
+   * Load skills unless the same inputs were already loaded (or are loading).
+   * `inputs` are compared by reference against the previous call.
+   */
+  load: (inputs: readonly unknown[], loader: SkillsLoader) => Promise<void>;
+  // Re-run the most recent loader and notify every subscriber
+  refresh: () => Promise<void>;
+  // Replace one loaded skill, e.g. with results computed after the load
+  updateSkill: (id: string, update: (skill: Skill) => Skill) => void;
+}
+
+const sameInputs = (a: readonly unknown[] | null, b: readonly unknown[]): boolean =>
+  !!a && a.length === b.length && a.every((value, index) => Object.is(value, b[index]));
+
+const createSkillsStore = (): SkillsStore => {
+  let state: SkillsStoreState = {
+    skills: [],
+    isLoading: true,
+    error: null,
+    loadErrors: [],
+    cacheStats: getSkillCacheStats(),
+  };
+  const listeners = new Set<() => void>();
+  let currentInputs: readonly unknown[] | null = null;
+  let currentLoader: SkillsLoader | null = null;
+  let inFlight: Promise<void> | null = null;
+  let generation = 0;
+
+  const setState = (partial: Partial<SkillsStoreState>) => {
+    state = { ...state, ...partial };
+    listeners.forEach((listener) => listener());
+  };
+
+  const run = (loader: SkillsLoader): Promise<void> => {
+    const runGeneration = ++generation;
+    setState({ isLoading: true, error: null });
+
+    inFlight = loader()
+      .then(({ skills, loadErrors }) => {
+        // A newer load superseded this one
+        if (runGeneration !== generation) return;
+        setState({ skills, loadErrors, isLoading: false, cacheStats: getSkillCacheStats() });
+      })
+      .catch((err) => {
+        if (runGeneration !== generation) return;
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load skills';
+        setState({ error: errorMessage, isLoading: false });
+        console.error('Error loading skills:', err);
+      })
+      .finally(() => {
+        if (runGeneration === generation) inFlight = null;
+      });
+
+    return inFlight;
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    load: (inputs, loader) => {
+      if (sameInputs(currentInputs, inputs)) {
+        return inFlight ?? Promise.resolve();
+      }
+      currentInputs = inputs;
+      currentLoader = loader;
+      return run(loader);
+    },
+    refresh: () => (currentLoader ? run(currentLoader) : Promise.resolve()),
+    updateSkill: (id, update) => {
+      if (!state.skills.some((skill) => skill.id === id)) return;
+      setState({ skills: state.skills.map((skill) => (skill.id === id ? update(skill) : skill)) });
+    },
+  };
+};
+
+const stores = new Map<string, SkillsStore>();
+
+/**
+ * Get (or create) the shared store for a repository
+ * Stores are kept for the lifetime of the package so remounting panels reuse
+ * the last loaded skills.
+ */
+export const getSkillsStore = (key: string): SkillsStore => {
+  let store = stores.get(key);
+  if (!store) {
+    store = createSkillsStore();
+    stores.set(key, store);
+  }
+  return store;
+};
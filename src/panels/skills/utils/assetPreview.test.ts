@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'bun:test';
+import { toSvgDataUrl } from './assetPreview';
+
+describe('toSvgDataUrl', () => {
+  const decode = (url: string) =>
+    decodeURIComponent(url.slice('data:image/svg+xml;charset=utf-8,'.length));
+
+  test('loads a processing instruction payload as an image, not as HTML', () => {
+    const markup =
+      '<svg xmlns="http://www.w3.org/2000/svg"><?x > <img src=x onerror=alert(1)> ?></svg>';
+    const url = toSvgDataUrl(markup);
+
+    expect(url.startsWith('data:image/svg+xml;')).toBe(true);
+    expect(url).not.toContain('<');
+    expect(decode(url)).toBe(markup);
+  });
+
+  test('loads a comment payload as an image, not as HTML', () => {
+    const markup =
+      '<svg xmlns="http://www.w3.org/2000/svg"><!-- --><img src=x onerror=alert(1)> --></svg>';
+    const url = toSvgDataUrl(markup);
+
+    expect(url.startsWith('data:image/svg+xml;')).toBe(true);
+    expect(url).not.toContain('<');
+    expect(decode(url)).toBe(markup);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Helpers for previewing skill assets: byte sizes, hex dumps, CSV tables and
+ * SVG image URLs
+ */
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  avif: 'image/avif',
+};
+
+export interface HexDumpRow {
+  offset: string;
+  hex: string;
+  ascii: string;
+}
+
+/**
+ * Helper function to find the MIME type of a raster image, by extension
+ */
+export const getImageMimeType = (path: string): string | undefined =>
+  IMAGE_MIME_TYPES[path.substring(path.lastIndexOf('.') + 1).toLowerCase()];
+
+/**
+ * Helper function to format a byte count, e.g. 1536 -> "1.5 KB"
+ */
+export const formatByteSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(size < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/**
+ * Helper function to lay out bytes as a classic 16-column hex dump
+ */
+export const toHexDump = (bytes: Uint8Array, limit = 512): HexDumpRow[] => {
+  const rows: HexDumpRow[] = [];
+  const end = Math.min(bytes.length, limit);
+  for (let offset = 0; offset < end; offset += 16) {
+    const chunk = Array.from(bytes.subarray(offset, Math.min(offset + 16, end)));
+    rows.push({
+      offset: offset.toString(16).padStart(8, '0'),
+      hex: chunk.map((byte) => byte.toString(16).padStart(2, '0')).join(' '),
+      ascii: chunk
+        .map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'))
+        .join(''),
+    });
+  }
+  return rows;
+};
+
+/**
+ * Parse delimited text into rows of cells
+ * Handles quoted cells with embedded delimiters, doubled quotes and newlines.
+ */
+export const parseCsv = (content: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Helper function to turn SVG markup into a URL for an `<img>`
+ * SVGs are never inlined: loaded as an image, the document can't run scripts
+ * or fetch external resources, whatever markup the file contains.
+ */
+export const toSvgDataUrl = (markup: string): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+
+/**
+ * Helper function to read an SVG's intrinsic size from its width/height or viewBox
+ */
+export const getSvgSize = (markup: string): { width: number; height: number } | null => {
+  const svg = new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+  const viewBox = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  // Percentages and other relative lengths fall back to the viewBox
+  const toPixels = (value: string | null) =>
+    value && /^\d+(\.\d+)?(px)?$/.test(value.trim()) ? parseFloat(value) : NaN;
+
+  const width = toPixels(svg.getAttribute('width')) || viewBox[2];
+  const height = toPixels(svg.getAttribute('height')) || viewBox[3];
+  return width > 0 && height > 0 ? { width: Math.round(width), height: Math.round(height) } : null;
+};
@@ -0,0 +1,214 @@
+/**
+ * Bulk actions on selected skills: export, copy to another root, delete
+ *
+ * Each action works skill by skill and collects failures instead of stopping,
+ * so one unreadable folder doesn't abort the rest of the batch.
+ */
+
+import type { FileSystemAdapter } from '@principal-ai/repository-abstraction';
+import type { Skill } from '../hooks/useSkillsData';
+import { toFileSystemPath } from './paths';
+
+const SKILL_FILE_NAME = 'SKILL.md';
+
+export interface BulkActionResult {
+  succeeded: string[];
+  failed: { skillId: string; message: string }[];
+}
+
+export interface ExportedSkillFile {
+  // Relative to the skill folder
+  path: string;
+  encoding: 'utf8' | 'base64';
+  content: string;
+}
+
+export interface ExportedSkill {
+  name: string;
+  source: string;
+  path: string;
+  description?: string;
+  files: ExportedSkillFile[];
+}
+
+export interface SkillsExport {
+  exportedAt: string;
+  skills: ExportedSkill[];
+  // Skills (by id) whose files couldn't be read
+  failed: BulkActionResult['failed'];
+}
+
+const toMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : String(err);
+
+const isStandaloneSkill = (skill: Skill): boolean =>
+  !skill.path.endsWith(`/${SKILL_FILE_NAME}`) && skill.path !== SKILL_FILE_NAME;
+
+/**
+ * Helper function to list a skill's own files, relative to its folder
+ * Standalone (legacy) skills are a single markdown file sharing the skills directory.
+ */
+const getSkillOwnFiles = (skill: Skill): string[] =>
+  isStandaloneSkill(skill)
+    ? [skill.path.substring(skill.path.lastIndexOf('/') + 1)]
+    : [SKILL_FILE_NAME, ...(skill.folderFiles ?? [])];
+
+// Assets may be binary; everything else is read as text
+const isBinaryCandidate = (relativePath: string): boolean =>
+  relativePath.startsWith('assets/');
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++)
+    binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+/**
+ * Read every file of the given skills into a JSON-serializable bundle
+ */
+export const exportSkills = async (
+  skills: Skill[],
+  fileSystem: FileSystemAdapter,
+  repoPath: string | undefined
+): Promise<SkillsExport> => {
+  const exported: ExportedSkill[] = [];
+  const failed: BulkActionResult['failed'] = [];
+
+  for (const skill of skills) {
+    try {
+      const files: ExportedSkillFile[] = [];
+      for (const relativePath of getSkillOwnFiles(skill)) {
+        const fullPath = toFileSystemPath(
+          repoPath,
+          `${skill.skillFolderPath}/${relativePath}`
+        );
+        if (isBinaryCandidate(relativePath) && fileSystem.readBinaryFile) {
+          const bytes = await fileSystem.readBinaryFile(fullPath);
+          files.push({
+            path: relativePath,
+            encoding: 'base64',
+            content: toBase64(bytes),
+          });
+        } else {
+          const content =
+            relativePath === SKILL_FILE_NAME && skill.content !== undefined
+              ? skill.content
+              : await fileSystem.readFile(fullPath);
+          files.push({ path: relativePath, encoding: 'utf8', content });
+        }
+      }
+      exported.push({
+        name: skill.name,
+        source: skill.source,
+        path: skill.path,
+        description: skill.description,
+        files,
+      });
+    } catch (err) {
+      failed.push({ skillId: skill.id, message: toMessage(err) });
+    }
+  }
+
+  return { exportedAt: new Date().toISOString(), skills: exported, failed };
+};
+
+/**
+ * Copy skills into another skills directory, keeping each folder's name
+ * Skills that already exist at the destination are skipped, never overwritten.
+ */
+export const copySkills = async (
+  skills: Skill[],
+  targetDir: string,
+  fileSystem: FileSystemAdapter,
+  repoPath: string | undefined
+): Promise<BulkActionResult> => {
+  const result: BulkActionResult = { succeeded: [], failed: [] };
+
+  for (const skill of skills) {
+    try {
+      const sourceDir = toFileSystemPath(repoPath, skill.skillFolderPath);
+      const destDir = isStandaloneSkill(skill)
+        ? targetDir
+        : `${targetDir}/${skill.skillFolderPath.substring(skill.skillFolderPath.lastIndexOf('/') + 1)}`;
+      const files = getSkillOwnFiles(skill);
+
+      if (await fileSystem.exists(`${destDir}/${files[0]}`)) {
+        throw new Error(`${skill.name} already exists in ${targetDir}`);
+      }
+
+      for (const relativePath of files) {
+        const from = `${sourceDir}/${relativePath}`;
+        const to = `${destDir}/${relativePath}`;
+        await fileSystem.createDir(to.substring(0, to.lastIndexOf('/')), {
+          recursive: true,
+        });
+        if (
+          isBinaryCandidate(relativePath) &&
+          fileSystem.readBinaryFile &&
+          fileSystem.writeBinaryFile
+        ) {
+          await fileSystem.writeBinaryFile(
+            to,
+            await fileSystem.readBinaryFile(from)
+          );
+        } else {
+          await fileSystem.writeFile(to, await fileSystem.readFile(from));
+        }
+      }
+      result.succeeded.push(skill.id);
+    } catch (err) {
+      result.failed.push({ skillId: skill.id, message: toMessage(err) });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Delete skills from disk
+ * Only each skill's own files are removed, so skills nested inside its folder
+ * survive; directories left empty are removed afterwards.
+ */
+export const deleteSkills = async (
+  skills: Skill[],
+  fileSystem: FileSystemAdapter,
+  repoPath: string | undefined
+): Promise<BulkActionResult> => {
+  const result: BulkActionResult = { succeeded: [], failed: [] };
+
+  for (const skill of skills) {
+    try {
+      const skillDir = toFileSystemPath(repoPath, skill.skillFolderPath);
+      const dirs = new Set<string>();
+
+      for (const relativePath of getSkillOwnFiles(skill)) {
+        await fileSystem.deleteFile(`${skillDir}/${relativePath}`);
+        // Collect every directory between the file and the skill folder
+        let dir = relativePath;
+        while (dir.includes('/')) {
+          dir = dir.substring(0, dir.lastIndexOf('/'));
+          dirs.add(`${skillDir}/${dir}`);
+        }
+      }
+      if (!isStandaloneSkill(skill)) dirs.add(skillDir);
+
+      // Deepest first, so parents are empty by the time we reach them
+      if (fileSystem.deleteDir) {
+        const sorted = [...dirs].sort(
+          (a, b) => b.split('/').length - a.split('/').length
+        );
+        for (const dir of sorted) {
+          if ((await fileSystem.readDir(dir)).length === 0) {
+            await fileSystem.deleteDir(dir);
+          }
+        }
+      }
+      result.succeeded.push(skill.id);
+    } catch (err) {
+      result.failed.push({ skillId: skill.id, message: toMessage(err) });
+    }
+  }
+
+  return result;
+};
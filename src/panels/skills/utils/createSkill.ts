@@ -0,0 +1,124 @@
+/**
+ * Scaffolding for new skills
+ *
+ * Writes a skill folder with a SKILL.md whose frontmatter passes validation,
+ * plus any of the optional resource folders the spec describes.
+ */
+
+import type { FileSystemAdapter } from '@principal-ai/repository-abstraction';
+
+const SKILL_FILE_NAME = 'SKILL.md';
+
+export type SkillResourceFolder = 'scripts' | 'references' | 'assets';
+
+export const SKILL_RESOURCE_FOLDERS: {
+  id: SkillResourceFolder;
+  label: string;
+  description: string;
+}[] = [
+  { id: 'scripts', label: 'scripts/', description: 'Executable code the agent can run' },
+  { id: 'references', label: 'references/', description: 'Documentation loaded on demand' },
+  { id: 'assets', label: 'assets/', description: 'Templates, images and other files' },
+];
+
+export interface NewSkill {
+  name: string;
+  description: string;
+  folders: SkillResourceFolder[];
+}
+
+/**
+ * Helper function to turn free text into a valid skill name, e.g. "PDF Tools" -> "pdf-tools"
+ */
+export const toSkillName = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Helper function to write a double-quoted YAML scalar
+ */
+export const toDoubleQuotedScalar = (value: string): string => {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+};
+
+/**
+ * Helper function to write a frontmatter scalar, quoting it when plain YAML
+ * would misread it
+ */
+export const toYamlScalar = (value: string): string => {
+  const needsQuotes =
+    /[:#\n\r\t]|^\s|\s$/.test(value) || /^[-?[\]{},&*!|>'"%@`]/.test(value) || value === '';
+  return needsQuotes ? toDoubleQuotedScalar(value) : value;
+};
+
+/**
+ * Build the SKILL.md content for a new skill
+ */
+export const buildSkillMarkdown = ({ name, description, folders }: NewSkill): string => {
+  const title = name
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+  const resources = SKILL_RESOURCE_FOLDERS.filter((folder) => folders.includes(folder.id));
+  const resourceSection =
+    resources.length > 0
+      ? [
+          '',
+          '## Resources',
+          '',
+          ...resources.map((folder) => `- \`${folder.id}/\`: ${folder.description}`),
+        ]
+      : [];
+
+  return [
+    '---',
+    `name: ${name}`,
+    `description: ${toYamlScalar(description.trim())}`,
+    '---',
+    '',
+    `# ${title}`,
+    '',
+    '## Instructions',
+    '',
+    'Describe step by step how the agent should carry out this skill.',
+    ...resourceSection,
+    '',
+  ].join('\n');
+};
+
+/**
+ * Write a new skill folder into a skills directory
+ * Fails rather than overwriting when a skill with the same name exists there.
+ * Returns the path of the new SKILL.md.
+ */
+export const createSkill = async (
+  skill: NewSkill,
+  targetDir: string,
+  fileSystem: FileSystemAdapter
+): Promise<string> => {
+  const skillDir = `${targetDir}/${skill.name}`;
+  const skillFile = `${skillDir}/${SKILL_FILE_NAME}`;
+
+  if (await fileSystem.exists(skillDir)) {
+    throw new Error(`${skill.name} already exists in ${targetDir}`);
+  }
+
+  await fileSystem.createDir(skillDir, { recursive: true });
+  await fileSystem.writeFile(skillFile, buildSkillMarkdown(skill));
+
+  // Git doesn't track empty folders, so each one gets a placeholder
+  for (const folder of skill.folders) {
+    await fileSystem.createDir(`${skillDir}/${folder}`, { recursive: true });
+    await fileSystem.writeFile(`${skillDir}/${folder}/.gitkeep`, '');
+  }
+
+  return skillFile;
+};
@@ -0,0 +1,206 @@
+/**
+ * Skill discovery roots
+ *
+ * A discovery root is a directory that holds skills, matched by a glob relative
+ * to the repository root (or `~/` for roots the host scans outside the
+ * repository). Each root carries the label and colour of its source badge and a
+ * precedence rank: when two skills share a name, the one from the root with the
+ * lowest rank is the one agents load.
+ */
+
+export type SkillRootScope = 'project' | 'global';
+
+export interface SkillDiscoveryRoot {
+  // Stable identifier, stored on each skill as its `source`
+  id: string;
+  // Glob matching the skills directory, e.g. `**/.agent/skills` or `tools/agent-skills`
+  glob: string;
+  // Label shown on the source badge
+  label: string;
+  // Badge colour (hex)
+  color: string;
+  // Lower ranks win when skill names collide
+  precedence: number;
+  // Defaults to 'global' for globs starting with `~/`, 'project' otherwise
+  scope?: SkillRootScope;
+}
+
+export interface SkillRootMatch {
+  root: SkillDiscoveryRoot;
+  // Repository-relative path of the matched skills directory
+  rootDir: string;
+}
+
+/**
+ * Roots scanned when the panel configuration doesn't list any
+ */
+export const DEFAULT_SKILL_ROOTS: SkillDiscoveryRoot[] = [
+  {
+    id: 'project-universal',
+    glob: '**/.agent/skills',
+    label: 'Project',
+    color: '#16a34a', // green
+    precedence: 1,
+  },
+  {
+    id: 'global-universal',
+    glob: '~/.agent/skills',
+    label: 'Global',
+    color: '#7c3aed', // purple
+    precedence: 2,
+  },
+  {
+    id: 'project-claude',
+    glob: '**/.claude/skills',
+    label: 'Project Claude',
+    color: '#0284c7', // blue
+    precedence: 3,
+  },
+  {
+    id: 'global-claude',
+    glob: '~/.claude/skills',
+    label: 'Global Claude',
+    color: '#0891b2', // cyan
+    precedence: 4,
+  },
+  {
+    id: 'project-plugin',
+    glob: '**/plugins/*/skills',
+    label: 'Plugin',
+    color: '#db2777', // pink
+    precedence: 5,
+  },
+];
+
+/**
+ * Source of skills that don't belong to any configured root
+ */
+export const FALLBACK_SKILL_ROOT: SkillDiscoveryRoot = {
+  id: 'project-other',
+  glob: '',
+  label: 'Project',
+  color: '#64748b', // slate
+  precedence: Number.MAX_SAFE_INTEGER,
+  scope: 'project',
+};
+
+export const getRootScope = (root: SkillDiscoveryRoot): SkillRootScope =>
+  root.scope ?? (root.glob.startsWith('~/') ? 'global' : 'project');
+
+/**
+ * Helper function to look up the root a skill source refers to
+ */
+export const findSkillRoot = (
+  roots: SkillDiscoveryRoot[],
+  source: string
+): SkillDiscoveryRoot => roots.find((root) => root.id === source) ?? FALLBACK_SKILL_ROOT;
+
+/**
+ * Helper function to resolve the directory new skills are written to for a root
+ * Only roots naming one concrete directory qualify. A leading `**` maps to the
+ * repository root (so the project Claude root resolves to `<repo>/.claude/skills`)
+ * and `~` to the home directory; globs with other wildcards, like the plugin
+ * root, return null.
+ */
+export const resolveRootDirectory = (
+  root: SkillDiscoveryRoot,
+  { repoPath, homeDir }: { repoPath?: string; homeDir?: string }
+): string | null => {
+  const glob = root.glob.replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!glob) return null;
+
+  if (glob.startsWith('~/')) {
+    const rest = glob.slice(2);
+    return homeDir && !/[*?{]/.test(rest) ? `${homeDir}/${rest}` : null;
+  }
+
+  const rest = glob.replace(/^\*\*\//, '');
+  if (/[*?{]/.test(rest) || !repoPath) return null;
+  return `${repoPath}/${rest}`;
+};
+
+/**
+ * Helper function to serialize roots into a stable identity
+ * Panel configuration is often passed as a fresh array literal on every render,
+ * so hooks key on this string instead of the array reference.
+ */
+export const getDiscoveryRootsKey = (roots: SkillDiscoveryRoot[] = DEFAULT_SKILL_ROOTS): string =>
+  JSON.stringify(
+    [...roots].sort((a, b) => a.precedence - b.precedence)
+  );
+
+export const parseDiscoveryRootsKey = (key: string): SkillDiscoveryRoot[] =>
+  JSON.parse(key) as SkillDiscoveryRoot[];
+
+/**
+ * Helper function to convert a root glob into an anchored regular expression
+ * Supports `**`, `*`, `?` and `{a,b}` alternatives.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  const normalized = glob.replace(/^\.\//, '').replace(/\/+$/, '');
+  let pattern = '';
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*') {
+      if (normalized[i + 1] === '*') {
+        // `**/` matches zero or more whole directories
+        if (normalized[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      const end = normalized.indexOf('}', i);
+      if (end === -1) {
+        pattern += '\\{';
+      } else {
+        const options = normalized
+          .slice(i + 1, end)
+          .split(',')
+          .map((option) => option.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+        pattern += `(?:${options.join('|')})`;
+        i = end;
+      }
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+};
+
+/**
+ * Build a matcher that finds the root a repository file belongs to
+ * Only project roots are matched; global roots are scanned by the host. When a
+ * file sits under several roots, the one with the lowest precedence rank wins.
+ */
+export const createSkillRootMatcher = (roots: SkillDiscoveryRoot[]) => {
+  const compiled = roots
+    .filter((root) => getRootScope(root) === 'project' && root.glob)
+    .sort((a, b) => a.precedence - b.precedence)
+    .map((root) => ({ root, regex: globToRegExp(root.glob) }));
+
+  return (path: string): SkillRootMatch | null => {
+    const parts = path.split('/');
+    for (const { root, regex } of compiled) {
+      // Test every ancestor directory, shortest first
+      for (let i = 1; i < parts.length; i++) {
+        const dir = parts.slice(0, i).join('/');
+        if (regex.test(dir)) {
+          return { root, rootDir: dir };
+        }
+      }
+    }
+    return null;
+  };
+};
+
+export type SkillRootMatcher = ReturnType<typeof createSkillRootMatcher>;
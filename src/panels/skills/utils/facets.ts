@@ -0,0 +1,122 @@
+/**
+ * Facets for narrowing the skills list from the sidebar
+ *
+ * Values selected within one facet are alternatives (OR); facets combine with
+ * each other (AND). Counts follow the usual faceted-search rule: a facet's
+ * counts reflect every other facet's selection but not its own, so picking a
+ * value never hides its siblings.
+ */
+
+import type { Skill } from '../hooks/useSkillsData';
+import { getSkillRepo } from './sortAndGroup';
+import { getToolName } from './skillQuery';
+
+export type SkillFacetId = 'source' | 'repo' | 'structure' | 'tool' | 'license';
+
+export type SkillFacetSelection = Partial<Record<SkillFacetId, string[]>>;
+
+export interface SkillFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface SkillFacet {
+  id: SkillFacetId;
+  label: string;
+  values: SkillFacetValue[];
+}
+
+export const SKILL_FACETS: { id: SkillFacetId; label: string }[] = [
+  { id: 'source', label: 'Source' },
+  { id: 'repo', label: 'Upstream repo' },
+  { id: 'structure', label: 'Structure' },
+  { id: 'tool', label: 'Allowed tools' },
+  { id: 'license', label: 'License' },
+];
+
+/**
+ * Helper function to list the values a skill has for a facet
+ */
+export const getSkillFacetValues = (skill: Skill, facet: SkillFacetId): string[] => {
+  switch (facet) {
+    case 'source':
+      return [skill.source];
+    case 'repo': {
+      const repo = getSkillRepo(skill);
+      return repo ? [repo] : [];
+    }
+    case 'structure':
+      return [
+        ...(skill.hasScripts ? ['scripts'] : []),
+        ...(skill.hasReferences ? ['references'] : []),
+        ...(skill.hasAssets ? ['assets'] : []),
+      ];
+    case 'tool':
+      // `Bash(git:*)` and `Bash` count as one tool
+      return [...new Set((skill.allowedTools ?? []).map(getToolName))];
+    case 'license':
+      return skill.license ? [skill.license] : [];
+  }
+};
+
+const matchesFacet = (skill: Skill, facet: SkillFacetId, selected: string[] | undefined) =>
+  !selected?.length || getSkillFacetValues(skill, facet).some((value) => selected.includes(value));
+
+/**
+ * Whether any facet has a selected value
+ */
+export const hasActiveFacets = (selection: SkillFacetSelection): boolean =>
+  Object.values(selection).some((values) => values && values.length > 0);
+
+/**
+ * Keep the skills matching every facet selection
+ */
+export const applySkillFacets = (skills: Skill[], selection: SkillFacetSelection): Skill[] =>
+  hasActiveFacets(selection)
+    ? skills.filter((skill) =>
+        SKILL_FACETS.every(({ id }) => matchesFacet(skill, id, selection[id]))
+      )
+    : skills;
+
+/**
+ * Count facet values over the given skills, most common first
+ * Selected values are always listed, even when nothing matches them anymore.
+ */
+export const computeSkillFacets = (
+  skills: Skill[],
+  selection: SkillFacetSelection
+): SkillFacet[] =>
+  SKILL_FACETS.map(({ id, label }) => {
+    const counts = new Map<string, number>();
+    for (const value of selection[id] ?? []) counts.set(value, 0);
+
+    for (const skill of skills) {
+      const matchesOthers = SKILL_FACETS.every(
+        (other) => other.id === id || matchesFacet(skill, other.id, selection[other.id])
+      );
+      if (!matchesOthers) continue;
+      for (const value of getSkillFacetValues(skill, id)) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+
+    const values = [...counts.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    return { id, label, values };
+  });
+
+/**
+ * Select or deselect one facet value
+ */
+export const toggleSkillFacetValue = (
+  selection: SkillFacetSelection,
+  facet: SkillFacetId,
+  value: string
+): SkillFacetSelection => {
+  const current = selection[facet] ?? [];
+  const next = current.includes(value)
+    ? current.filter((selected) => selected !== value)
+    : [...current, value];
+  return { ...selection, [facet]: next };
+};
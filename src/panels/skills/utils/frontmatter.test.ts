@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test';
+import { parseFlowSequence, parseFrontmatter, unquote } from './frontmatter';
+
+describe('parseFrontmatter', () => {
+  test('reads the spec fields and the body', () => {
+    const parsed = parseFrontmatter(
+      [
+        '---',
+        'name: pdf-tools',
+        'description: "Fill and merge PDF forms"',
+        'license: MIT',
+        'allowed-tools: Read Bash(pdftk:*)',
+        'metadata:',
+        '  version: 1.2.0',
+        "  author: 'Jane'",
+        '---',
+        '# PDF tools',
+      ].join('\n')
+    );
+
+    expect(parsed.error).toBeUndefined();
+    expect(parsed.frontmatter?.name).toBe('pdf-tools');
+    expect(parsed.frontmatter?.description).toBe('Fill and merge PDF forms');
+    expect(parsed.frontmatter?.license).toBe('MIT');
+    expect(parsed.frontmatter?.allowedTools).toEqual(['Read', 'Bash(pdftk:*)']);
+    expect(parsed.frontmatter?.metadata).toEqual({ version: '1.2.0', author: 'Jane' });
+    expect(parsed.frontmatter?.lines).toEqual({
+      name: 2,
+      description: 3,
+      license: 4,
+      'allowed-tools': 5,
+      metadata: 6,
+    });
+    expect(parsed.body).toBe('# PDF tools');
+    expect(parsed.bodyStartLine).toBe(10);
+  });
+
+  test('joins literal and folded block scalars', () => {
+    const { frontmatter } = parseFrontmatter(
+      [
+        '---',
+        'literal: |',
+        '  first line',
+        '  second line',
+        'folded: >-',
+        '  one',
+        '  paragraph',
+        '',
+        '  next',
+        '---',
+      ].join('\n')
+    );
+
+    expect(frontmatter?.fields.literal).toBe('first line\nsecond line');
+    expect(frontmatter?.fields.folded).toBe('one paragraph\nnext');
+  });
+
+  test('reads block and flow sequences', () => {
+    const { frontmatter } = parseFrontmatter(
+      [
+        '---',
+        'allowed-tools:',
+        '  - Read',
+        '  - "Bash(git:*)"',
+        'tags: [pdf, "forms, fields"]',
+        '---',
+      ].join('\n')
+    );
+
+    expect(frontmatter?.allowedTools).toEqual(['Read', 'Bash(git:*)']);
+    expect(frontmatter?.fields.tags).toEqual(['pdf', 'forms, fields']);
+  });
+
+  test('splits comma-separated allowed tools', () => {
+    const { frontmatter } = parseFrontmatter('---\nallowed-tools: Read, Write ,Grep\n---\n');
+
+    expect(frontmatter?.allowedTools).toEqual(['Read', 'Write', 'Grep']);
+  });
+
+  test('folds indented continuation lines of a plain scalar', () => {
+    const { frontmatter } = parseFrontmatter(
+      '---\ndescription: Extracts text\n  from scanned PDFs # OCR\n---\n'
+    );
+
+    expect(frontmatter?.description).toBe('Extracts text from scanned PDFs');
+  });
+
+  test('handles CRLF line endings and a byte order mark', () => {
+    const parsed = parseFrontmatter('\uFEFF---\r\nname: crlf\r\n---\r\nBody\r\n');
+
+    expect(parsed.frontmatter?.name).toBe('crlf');
+    expect(parsed.body).toBe('Body\n');
+    expect(parsed.bodyStartLine).toBe(4);
+  });
+
+  test('returns no frontmatter when the file does not open a block', () => {
+    const content = '# Just markdown\n\nname: not frontmatter';
+    const parsed = parseFrontmatter(content);
+
+    expect(parsed.frontmatter).toBeNull();
+    expect(parsed.error).toBeUndefined();
+    expect(parsed.body).toBe(content);
+    expect(parsed.bodyStartLine).toBe(1);
+  });
+
+  test('reports a block that is never closed', () => {
+    const parsed = parseFrontmatter('---\nname: open\n# Body');
+
+    expect(parsed.frontmatter).toBeNull();
+    expect(parsed.error).toBe('Frontmatter block is never closed with ---');
+  });
+
+  test('reports the file line of a line it cannot parse', () => {
+    const parsed = parseFrontmatter('---\nname: ok\nnot a key\n---\n');
+
+    expect(parsed.frontmatter).toBeNull();
+    expect(parsed.error).toBe('Unable to parse frontmatter line 3: not a key');
+  });
+});
+
+describe('unquote', () => {
+  test('unescapes double-quoted scalars', () => {
+    expect(unquote('"say \\"hi\\"\\nthen \\\\ leave"')).toBe('say "hi"\nthen \\ leave');
+  });
+
+  test('unescapes doubled quotes in single-quoted scalars', () => {
+    expect(unquote("'it''s'")).toBe("it's");
+  });
+
+  test('drops trailing comments from plain scalars only', () => {
+    expect(unquote('value # comment')).toBe('value');
+    expect(unquote('"value # kept"')).toBe('value # kept');
+  });
+});
+
+describe('parseFlowSequence', () => {
+  test('keeps commas inside quoted items and drops empty items', () => {
+    expect(parseFlowSequence('[Read, "Bash(git add, commit)", ]')).toEqual([
+      'Read',
+      'Bash(git add, commit)',
+    ]);
+  });
+});
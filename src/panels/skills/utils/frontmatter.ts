@@ -0,0 +1,243 @@
+/**
+ * Minimal YAML frontmatter parser for SKILL.md files
+ *
+ * Supports the subset of YAML that Agent Skills use in their frontmatter:
+ * `key: value` scalars (plain, single- or double-quoted), literal and folded
+ * block scalars (`|` / `>`), block and flow sequences, and one level of
+ * nested mapping (used by `metadata`).
+ */
+
+export type FrontmatterValue = string | string[] | Record<string, string>;
+
+export interface SkillFrontmatter {
+  name?: string;
+  description?: string;
+  license?: string;
+  allowedTools?: string[];
+  metadata?: Record<string, string>;
+  // Every top-level key as parsed, including ones not covered above
+  fields: Record<string, FrontmatterValue>;
+  // 1-based line number of each top-level key within the SKILL.md file
+  lines: Record<string, number>;
+}
+
+export interface ParsedFrontmatter {
+  frontmatter: SkillFrontmatter | null;
+  body: string;
+  // 1-based line number in the original file where the body starts
+  bodyStartLine: number;
+  // Set when the file opens a frontmatter block that can't be parsed
+  error?: string;
+}
+
+const KEY_PATTERN = /^([A-Za-z0-9_.-]+)\s*:(?:\s+(.*)|\s*)$/;
+export const BLOCK_SCALAR_PATTERN = /^([|>])[-+]?$/;
+
+/**
+ * Helper function to strip YAML quoting from a scalar value
+ */
+export const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed
+      .slice(1, -1)
+      .replace(/\\n/g, '\n')
+      .replace(/\\t/g, '\t')
+      .replace(/\\"/g, '"')
+      .replace(/\\\\/g, '\\');
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  // Plain scalars may carry a trailing comment
+  return trimmed.replace(/\s+#.*$/, '');
+};
+
+/**
+ * Helper function to parse a flow sequence such as `[Read, "Bash(git:*)"]`
+ */
+export const parseFlowSequence = (value: string): string[] => {
+  const inner = value.trim().replace(/^\[/, '').replace(/\]$/, '');
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map(unquote).filter((item) => item.length > 0);
+};
+
+export const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+/**
+ * Helper function to join the lines of a block scalar
+ */
+export const joinBlockScalar = (lines: string[], style: string): string => {
+  const indents = lines.filter((l) => l.trim()).map(indentOf);
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+  const dedented = lines.map((l) => l.slice(minIndent));
+
+  if (style === '|') {
+    return dedented.join('\n').trimEnd();
+  }
+
+  // Folded: single newlines become spaces, blank lines become newlines
+  return dedented
+    .join('\n')
+    .trim()
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/\n/g, ' '))
+    .join('\n');
+};
+
+/**
+ * Helper function to split an `allowed-tools` value into individual tools.
+ * The spec uses a space-delimited string, but comma-separated strings and
+ * YAML sequences are common in the wild.
+ */
+const parseAllowedTools = (value: FrontmatterValue | undefined): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string') return undefined;
+
+  const separator = value.includes(',') ? /\s*,\s*/ : /\s+/;
+  return value
+    .split(separator)
+    .map((tool) => tool.trim())
+    .filter((tool) => tool.length > 0);
+};
+
+const asString = (value: FrontmatterValue | undefined): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+/**
+ * Parse the YAML frontmatter block at the top of a SKILL.md file.
+ * Returns `frontmatter: null` when the file has no frontmatter.
+ */
+export const parseFrontmatter = (content: string): ParsedFrontmatter => {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+
+  if (lines[0]?.trim() !== '---') {
+    return { frontmatter: null, body: content, bodyStartLine: 1 };
+  }
+
+  const closingIndex = lines.findIndex(
+    (line, index) => index > 0 && (line.trim() === '---' || line.trim() === '...')
+  );
+  if (closingIndex === -1) {
+    return {
+      frontmatter: null,
+      body: content,
+      bodyStartLine: 1,
+      error: 'Frontmatter block is never closed with ---',
+    };
+  }
+
+  const fields: Record<string, FrontmatterValue> = {};
+  const keyLines: Record<string, number> = {};
+  const yamlLines = lines.slice(1, closingIndex);
+
+  // Collect the indented (or blank) lines following a key
+  const collectNested = (start: number): { nested: string[]; next: number } => {
+    let next = start;
+    while (
+      next < yamlLines.length &&
+      (yamlLines[next].trim() === '' || indentOf(yamlLines[next]) > 0)
+    ) {
+      next++;
+    }
+    const nested = yamlLines.slice(start, next);
+    // Trailing blank lines belong to nothing
+    while (nested.length > 0 && nested[nested.length - 1].trim() === '') {
+      nested.pop();
+    }
+    return { nested, next };
+  };
+
+  let i = 0;
+  while (i < yamlLines.length) {
+    const line = yamlLines[i];
+
+    if (!line.trim() || line.trimStart().startsWith('#')) {
+      i++;
+      continue;
+    }
+
+    const match = indentOf(line) === 0 ? line.match(KEY_PATTERN) : null;
+    if (!match) {
+      return {
+        frontmatter: null,
+        body: content,
+        bodyStartLine: 1,
+        error: `Unable to parse frontmatter line ${i + 2}: ${line.trim()}`,
+      };
+    }
+
+    const key = match[1];
+    const rawValue = (match[2] ?? '').trim();
+    keyLines[key] = i + 2; // +1 for the opening ---, +1 for 1-based lines
+    const { nested, next } = collectNested(i + 1);
+    const blockMatch = rawValue.match(BLOCK_SCALAR_PATTERN);
+
+    if (blockMatch) {
+      fields[key] = joinBlockScalar(nested, blockMatch[1]);
+    } else if (rawValue.startsWith('[')) {
+      fields[key] = parseFlowSequence(rawValue);
+    } else if (rawValue === '') {
+      const items = nested.filter((l) => l.trim());
+      if (items.length > 0 && items[0].trimStart().startsWith('- ')) {
+        fields[key] = items.map((l) => unquote(l.trimStart().replace(/^-\s+/, '')));
+      } else if (items.length > 0) {
+        const map: Record<string, string> = {};
+        for (const entry of items) {
+          const entryMatch = entry.trim().match(KEY_PATTERN);
+          if (entryMatch) {
+            map[entryMatch[1]] = unquote(entryMatch[2] ?? '');
+          }
+        }
+        fields[key] = map;
+      } else {
+        fields[key] = '';
+      }
+    } else {
+      // Plain scalars may continue on indented lines
+      const continuation = nested.map((l) => l.trim()).filter(Boolean);
+      fields[key] = unquote([rawValue, ...continuation].join(' '));
+    }
+
+    i = next;
+  }
+
+  const metadata = fields.metadata;
+
+  return {
+    frontmatter: {
+      name: asString(fields.name),
+      description: asString(fields.description),
+      license: asString(fields.license),
+      allowedTools: parseAllowedTools(fields['allowed-tools']),
+      metadata:
+        metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+          ? metadata
+          : undefined,
+      fields,
+      lines: keyLines,
+    },
+    body: lines.slice(closingIndex + 1).join('\n'),
+    bodyStartLine: closingIndex + 2,
+  };
+};
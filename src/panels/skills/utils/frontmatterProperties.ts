@@ -0,0 +1,138 @@
+/**
+ * Frontmatter properties for the skill detail inspector
+ *
+ * Turns parsed frontmatter into rows for a properties table: the spec fields
+ * first, then custom `metadata` keys and any other top-level keys. Each row
+ * carries the linter's verdict so problems show next to the value they're about.
+ */
+
+import type { FrontmatterValue, SkillFrontmatter } from './frontmatter';
+import type { SkillDiagnostic, SkillDiagnosticCode, SkillDiagnosticSeverity } from './validateSkill';
+
+export type FrontmatterPropertyStatus = 'valid' | 'unset' | SkillDiagnosticSeverity;
+
+export interface FrontmatterProperty {
+  // Frontmatter key, with `metadata.` in front of custom metadata keys
+  key: string;
+  label: string;
+  value?: FrontmatterValue;
+  // 1-based line of the key in SKILL.md
+  line?: number;
+  status: FrontmatterPropertyStatus;
+  messages: string[];
+}
+
+// Top-level keys with a row of their own
+const SPEC_FIELDS = ['name', 'description', 'license', 'allowed-tools', 'version', 'metadata'];
+
+// Linter diagnostics that are about a single frontmatter key
+const DIAGNOSTIC_KEYS: Partial<Record<SkillDiagnosticCode, string>> = {
+  'missing-name': 'name',
+  'invalid-name': 'name',
+  'name-mismatch': 'name',
+  'missing-description': 'description',
+  'description-too-long': 'description',
+  'unknown-tool': 'allowed-tools',
+};
+
+const SEVERITY_RANK: Record<SkillDiagnosticSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+const SEMVER_PATTERN = /^v?\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.-]+)?$/;
+
+/**
+ * Helper function to find the most severe of a property's problems
+ */
+const worstSeverity = (severities: SkillDiagnosticSeverity[]): SkillDiagnosticSeverity | null =>
+  severities.reduce<SkillDiagnosticSeverity | null>(
+    (worst, severity) => (!worst || SEVERITY_RANK[severity] > SEVERITY_RANK[worst] ? severity : worst),
+    null
+  );
+
+const isEmptyValue = (value: FrontmatterValue | undefined): boolean =>
+  value === undefined ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Build the properties table for a skill's frontmatter
+ * `diagnostics` are the skill's linter results; only those about SKILL.md
+ * frontmatter keys are attached to rows.
+ */
+export const getFrontmatterProperties = (
+  frontmatter: SkillFrontmatter,
+  diagnostics: SkillDiagnostic[] = []
+): FrontmatterProperty[] => {
+  const { fields, lines, metadata } = frontmatter;
+  const problems = new Map<string, { severity: SkillDiagnosticSeverity; message: string }[]>();
+  for (const diagnostic of diagnostics) {
+    const key = DIAGNOSTIC_KEYS[diagnostic.code];
+    if (!key) continue;
+    problems.set(key, [...(problems.get(key) ?? []), diagnostic]);
+  }
+
+  const property = (
+    key: string,
+    label: string,
+    value: FrontmatterValue | undefined,
+    line: number | undefined,
+    extraProblems: { severity: SkillDiagnosticSeverity; message: string }[] = []
+  ): FrontmatterProperty => {
+    const found = [...(problems.get(key) ?? []), ...extraProblems];
+    const severity = worstSeverity(found.map((problem) => problem.severity));
+    return {
+      key,
+      label,
+      value,
+      line,
+      status: severity ?? (isEmptyValue(value) ? 'unset' : 'valid'),
+      messages: found.map((problem) => problem.message),
+    };
+  };
+
+  // `version` isn't a spec field; it's usually kept in metadata
+  const versionInMetadata = fields.version === undefined && metadata?.version !== undefined;
+  const version = versionInMetadata ? metadata?.version : fields.version;
+  const versionProblems =
+    typeof version === 'string' && version.trim() && !SEMVER_PATTERN.test(version.trim())
+      ? [{ severity: 'info' as const, message: `"${version}" is not a semantic version (e.g. 1.0.0)` }]
+      : [];
+
+  const properties: FrontmatterProperty[] = [
+    property('name', 'Name', fields.name, lines.name),
+    property('description', 'Description', fields.description, lines.description),
+    property('license', 'License', fields.license, lines.license),
+    property(
+      'allowed-tools',
+      'Allowed tools',
+      frontmatter.allowedTools,
+      lines['allowed-tools']
+    ),
+    property(
+      'version',
+      'Version',
+      version,
+      versionInMetadata ? lines.metadata : lines.version,
+      versionProblems
+    ),
+  ];
+
+  if (fields.metadata !== undefined && !metadata) {
+    properties.push(
+      property('metadata', 'Metadata', fields.metadata, lines.metadata, [
+        { severity: 'warning', message: '`metadata` should be a mapping of keys to values' },
+      ])
+    );
+  }
+
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    if (versionInMetadata && key === 'version') continue;
+    properties.push(property(`metadata.${key}`, key, value, lines.metadata));
+  }
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (SPEC_FIELDS.includes(key)) continue;
+    properties.push(property(key, key, value, lines[key]));
+  }
+
+  return properties;
+};
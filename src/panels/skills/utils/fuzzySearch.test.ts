@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test';
+import type { Skill } from '../hooks/useSkillsData';
+import { fuzzyMatch, searchSkills } from './fuzzySearch';
+
+const makeSkill = (name: string, description = '', capabilities: string[] = []): Skill => ({
+  id: `.claude/skills/${name}/SKILL.md`,
+  name,
+  path: `.claude/skills/${name}/SKILL.md`,
+  description,
+  capabilities,
+  skillFolderPath: `.claude/skills/${name}`,
+  hasScripts: false,
+  hasReferences: false,
+  hasAssets: false,
+  source: 'project',
+  priority: 1,
+});
+
+describe('fuzzyMatch', () => {
+  test('matches substrings case-insensitively', () => {
+    expect(fuzzyMatch('Extract', 'pdf-extract')?.indices).toEqual([4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  test('scores a match at the start above one in the middle', () => {
+    const atStart = fuzzyMatch('pdf', 'pdf-tools');
+    const inMiddle = fuzzyMatch('pdf', 'my-pdf-tools');
+
+    expect(atStart!.score).toBeGreaterThan(inMiddle!.score);
+  });
+
+  test('matches compact subsequences', () => {
+    expect(fuzzyMatch('pdfx', 'pdf-extract')?.indices).toEqual([0, 1, 2, 5]);
+  });
+
+  test('rejects subsequences spread too thin', () => {
+    expect(fuzzyMatch('pdfx', 'please document files by example')).toBeNull();
+  });
+
+  test('matches words within a small edit distance', () => {
+    const match = fuzzyMatch('prcoessing', 'batch processing jobs');
+
+    expect(match?.indices).toEqual([6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+  });
+
+  test('prefers a subsequence over a typo', () => {
+    expect(fuzzyMatch('procesing', 'batch processing jobs')?.indices).toEqual([
+      6, 7, 8, 9, 10, 11, 13, 14, 15,
+    ]);
+  });
+
+  test('does not forgive typos in short words', () => {
+    expect(fuzzyMatch('pdq', 'pdf tools')).toBeNull();
+  });
+
+  test('returns null for empty input', () => {
+    expect(fuzzyMatch('', 'pdf')).toBeNull();
+    expect(fuzzyMatch('pdf', '')).toBeNull();
+  });
+});
+
+describe('searchSkills', () => {
+  const skills = [
+    makeSkill('docx', 'Edit Word documents, including PDF exports'),
+    makeSkill('pdf-tools', 'Fill and merge forms'),
+    makeSkill('xlsx', 'Spreadsheets', ['Pivot tables from PDF data']),
+    makeSkill('brand', 'Brand guidelines'),
+  ];
+
+  test('returns every skill unranked for an empty query', () => {
+    expect(searchSkills(skills, '   ').map((result) => result.skill.name)).toEqual([
+      'docx',
+      'pdf-tools',
+      'xlsx',
+      'brand',
+    ]);
+  });
+
+  test('ranks name matches above description and capability matches', () => {
+    expect(searchSkills(skills, 'pdf').map((result) => result.skill.name)).toEqual([
+      'pdf-tools',
+      'docx',
+      'xlsx',
+    ]);
+  });
+
+  test('requires every query word to match', () => {
+    expect(searchSkills(skills, 'pdf merge').map((result) => result.skill.name)).toEqual([
+      'pdf-tools',
+    ]);
+  });
+
+  test('reports matched positions per field for highlighting', () => {
+    const [result] = searchSkills([skills[2]], 'pivot');
+
+    expect(result.matches.capabilities).toEqual({ 0: [0, 1, 2, 3, 4] });
+    expect(result.matches.name).toBeUndefined();
+  });
+
+  test('merges positions matched by several words', () => {
+    const [result] = searchSkills([skills[1]], 'pdf tools');
+
+    expect(result.matches.name).toEqual([0, 1, 2, 4, 5, 6, 7, 8]);
+  });
+
+  test('keeps the original order for equal scores', () => {
+    const twins = [makeSkill('alpha-notes'), makeSkill('gamma-notes')].map((skill) => ({
+      ...skill,
+      path: 'notes',
+    }));
+
+    expect(searchSkills(twins, 'notes').map((result) => result.skill.name)).toEqual([
+      'alpha-notes',
+      'gamma-notes',
+    ]);
+  });
+});
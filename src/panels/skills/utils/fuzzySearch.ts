@@ -0,0 +1,215 @@
+/**
+ * Fuzzy skill search
+ *
+ * Every word of the query has to match somewhere in the skill: as a substring,
+ * as a compact subsequence (`pdfx` finds `pdf-extract`) or within a small edit
+ * distance of a word (`procesing` finds `processing`). Matches in the name
+ * weigh more than matches in the description, which weigh more than the path.
+ */
+
+import type { Skill } from '../hooks/useSkillsData';
+
+export interface FuzzyMatch {
+  score: number;
+  // Character positions in the text that matched
+  indices: number[];
+}
+
+export interface SkillSearchMatches {
+  name?: number[];
+  description?: number[];
+  // Keyed by index into skill.capabilities
+  capabilities?: Record<number, number[]>;
+  path?: number[];
+}
+
+export interface SkillSearchResult {
+  skill: Skill;
+  score: number;
+  matches: SkillSearchMatches;
+}
+
+const FIELD_WEIGHTS = {
+  name: 3,
+  description: 2,
+  capabilities: 1.5,
+  path: 1,
+} as const;
+
+// Subsequence matches spread wider than this (matched chars / span) are noise
+const MIN_SUBSEQUENCE_DENSITY = 0.4;
+
+const isWordStart = (text: string, index: number): boolean =>
+  index === 0 || /[^a-z0-9]/i.test(text[index - 1]);
+
+const range = (start: number, length: number): number[] =>
+  Array.from({ length }, (_, offset) => start + offset);
+
+/**
+ * Helper function to compute the optimal string alignment distance (edit
+ * distance counting adjacent transpositions as one edit)
+ */
+const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+const substringMatch = (token: string, text: string): FuzzyMatch | null => {
+  let best: FuzzyMatch | null = null;
+  let index = text.indexOf(token);
+
+  while (index !== -1) {
+    const score =
+      1 +
+      (index === 0 ? 0.5 : 0) +
+      (isWordStart(text, index) ? 0.25 : 0) +
+      (token.length / text.length) * 0.25;
+    if (!best || score > best.score) {
+      best = { score, indices: range(index, token.length) };
+    }
+    index = text.indexOf(token, index + 1);
+  }
+
+  return best;
+};
+
+const subsequenceMatch = (token: string, text: string): FuzzyMatch | null => {
+  let best: FuzzyMatch | null = null;
+
+  for (let start = text.indexOf(token[0]); start !== -1; start = text.indexOf(token[0], start + 1)) {
+    const indices = [start];
+    let position = start + 1;
+    for (let i = 1; i < token.length && position <= text.length; i++) {
+      position = text.indexOf(token[i], position);
+      if (position === -1) break;
+      indices.push(position);
+      position++;
+    }
+    if (indices.length < token.length) break;
+
+    const span = indices[indices.length - 1] - start + 1;
+    const density = token.length / span;
+    if (density < MIN_SUBSEQUENCE_DENSITY) continue;
+
+    const wordStarts = indices.filter((index) => isWordStart(text, index)).length;
+    const score = 0.5 * density + 0.2 * (wordStarts / token.length);
+    if (!best || score > best.score) {
+      best = { score, indices };
+    }
+  }
+
+  return best;
+};
+
+const typoMatch = (token: string, text: string): FuzzyMatch | null => {
+  // Short tokens would match almost anything with one edit
+  if (token.length < 4) return null;
+  const maxDistance = token.length <= 6 ? 1 : 2;
+  let best: FuzzyMatch | null = null;
+
+  for (const word of text.matchAll(/[a-z0-9]+/g)) {
+    const start = word.index ?? 0;
+    // Compare against the whole word and against a prefix of similar length
+    const candidates = [word[0], word[0].slice(0, token.length)];
+    for (const candidate of candidates) {
+      if (Math.abs(candidate.length - token.length) > maxDistance) continue;
+      const distance = editDistance(token, candidate);
+      if (distance > maxDistance) continue;
+
+      const score = 0.4 * (1 - distance / (token.length + 1));
+      if (!best || score > best.score) {
+        best = { score, indices: range(start, candidate.length) };
+      }
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Match a single query word against a text, preferring exact substrings,
+ * then subsequences, then near-misses
+ */
+export const fuzzyMatch = (token: string, text: string): FuzzyMatch | null => {
+  const needle = token.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle || !haystack) return null;
+
+  return (
+    substringMatch(needle, haystack) ??
+    subsequenceMatch(needle, haystack) ??
+    typoMatch(needle, haystack)
+  );
+};
+
+const mergeIndices = (existing: number[] | undefined, added: number[]): number[] =>
+  [...new Set([...(existing ?? []), ...added])].sort((a, b) => a - b);
+
+/**
+ * Rank skills against a query. Skills that don't match every query word are
+ * left out; ties keep the original order.
+ */
+export const searchSkills = (skills: Skill[], query: string): SkillSearchResult[] => {
+  const tokens = query.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    return skills.map((skill) => ({ skill, score: 0, matches: {} }));
+  }
+
+  const results: { result: SkillSearchResult; order: number }[] = [];
+
+  skills.forEach((skill, order) => {
+    const matches: SkillSearchMatches = {};
+    let total = 0;
+
+    for (const token of tokens) {
+      const name = fuzzyMatch(token, skill.name);
+      const description = skill.description ? fuzzyMatch(token, skill.description) : null;
+      const path = fuzzyMatch(token, skill.path);
+      const capabilities = (skill.capabilities ?? []).map((capability) =>
+        fuzzyMatch(token, capability)
+      );
+      const bestCapability = Math.max(0, ...capabilities.map((match) => match?.score ?? 0));
+
+      const best = Math.max(
+        (name?.score ?? 0) * FIELD_WEIGHTS.name,
+        (description?.score ?? 0) * FIELD_WEIGHTS.description,
+        bestCapability * FIELD_WEIGHTS.capabilities,
+        (path?.score ?? 0) * FIELD_WEIGHTS.path
+      );
+      if (best === 0) return;
+      total += best;
+
+      if (name) matches.name = mergeIndices(matches.name, name.indices);
+      if (description) matches.description = mergeIndices(matches.description, description.indices);
+      if (path) matches.path = mergeIndices(matches.path, path.indices);
+      capabilities.forEach((match, index) => {
+        if (!match) return;
+        matches.capabilities = {
+          ...matches.capabilities,
+          [index]: mergeIndices(matches.capabilities?.[index], match.indices),
+        };
+      });
+    }
+
+    results.push({ result: { skill, score: total, matches }, order });
+  });
+
+  return results
+    .sort((a, b) => b.result.score - a.result.score || a.order - b.order)
+    .map(({ result }) => result);
+};
@@ -0,0 +1,148 @@
+import { describe, expect, test } from 'bun:test';
+import type { SkillMetadata } from '../hooks/useSkillsData';
+import {
+  METADATA_FILE_NAME,
+  checkSkillIntegrity,
+  computeGitBlobSha,
+  computeGitTreeSha,
+} from './integrity';
+
+const encoder = new TextEncoder();
+
+// Expected hashes come from `git hash-object` and `git write-tree` on the same files
+const FILES: Record<string, string> = {
+  'SKILL.md': '---\nname: pdf\n---\n',
+  'references/forms.md': '# Forms\n',
+  'scripts/fill.py': 'print("hi")\n',
+};
+const BLOB_SHAS: Record<string, string> = {
+  'SKILL.md': 'ae2ba28ff58f66c70c06b0f820a12d93dc070b53',
+  'references/forms.md': '130d855f5a7f80b877cd2280fc08193c16f08a4f',
+  'scripts/fill.py': 'b80e3222ab264bd7cafb376749bd18814fd66776',
+};
+const TREE_SHA = 'cb08e6aac8706253b0a279c7981faf40987cb102';
+// Same tree with scripts/fill.py committed as executable
+const EXECUTABLE_TREE_SHA = '32ff6039a8467f01b19480a24e4330bdd2d842a8';
+
+const check = (metadata: SkillMetadata, files: Record<string, string> = FILES) =>
+  checkSkillIntegrity({
+    metadata,
+    currentFiles: Object.keys(files),
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return encoder.encode(files[path]);
+    },
+  });
+
+describe('computeGitBlobSha', () => {
+  test('hashes contents like git hash-object', async () => {
+    expect(await computeGitBlobSha(encoder.encode('hello\n'))).toBe(
+      'ce013625030ba8dba906f756967f9e9ca394464a'
+    );
+  });
+});
+
+describe('computeGitTreeSha', () => {
+  const entries = Object.entries(BLOB_SHAS).map(([path, sha]) => ({ path, sha }));
+
+  test('hashes nested folders like git write-tree', async () => {
+    expect(await computeGitTreeSha(entries)).toBe(TREE_SHA);
+    expect(await computeGitTreeSha([...entries].reverse())).toBe(TREE_SHA);
+  });
+
+  test('hashes listed files as executables', async () => {
+    expect(await computeGitTreeSha(entries, new Set(['scripts/fill.py']))).toBe(
+      EXECUTABLE_TREE_SHA
+    );
+  });
+});
+
+describe('checkSkillIntegrity', () => {
+  test('returns null when nothing was recorded', async () => {
+    expect(await check({ installedFrom: 'github:acme/skills' })).toBeNull();
+  });
+
+  test('reports a pristine folder from per-file hashes', async () => {
+    const report = await check({ fileHashes: BLOB_SHAS });
+
+    expect(report?.status).toBe('pristine');
+    expect(report?.files.every((file) => file.status === 'unchanged')).toBe(true);
+  });
+
+  test('reports the files whose contents changed', async () => {
+    const report = await check({ fileHashes: BLOB_SHAS }, {
+      ...FILES,
+      'scripts/fill.py': 'print("bye")\n',
+    });
+
+    expect(report?.status).toBe('modified');
+    expect(report?.files.find((file) => file.status === 'modified')?.path).toBe('scripts/fill.py');
+  });
+
+  test('reports missing files ahead of extra files', async () => {
+    const report = await check({ fileHashes: BLOB_SHAS }, {
+      'SKILL.md': FILES['SKILL.md'],
+      'scripts/fill.py': FILES['scripts/fill.py'],
+      'notes.md': 'mine',
+    });
+
+    expect(report?.status).toBe('missing-files');
+    expect(report?.files.map((file) => [file.path, file.status])).toEqual([
+      ['SKILL.md', 'unchanged'],
+      ['notes.md', 'extra'],
+      ['references/forms.md', 'missing'],
+      ['scripts/fill.py', 'unchanged'],
+    ]);
+  });
+
+  test('reports added files on an otherwise unchanged folder', async () => {
+    const report = await check(
+      { files: Object.keys(FILES), sha: TREE_SHA },
+      { ...FILES, 'notes.md': 'mine' }
+    );
+
+    expect(report?.status).toBe('extra-files');
+    expect(report?.actualTreeSha).toBe(TREE_SHA);
+  });
+
+  test('vouches for every file when only the tree SHA matches', async () => {
+    const report = await check({ sha: TREE_SHA });
+
+    expect(report?.status).toBe('pristine');
+    expect(report?.files.every((file) => file.status === 'unchanged')).toBe(true);
+  });
+
+  test('accepts a tree whose scripts were committed as executables', async () => {
+    const report = await check({ sha: EXECUTABLE_TREE_SHA });
+
+    expect(report?.status).toBe('pristine');
+    expect(report?.actualTreeSha).toBe(EXECUTABLE_TREE_SHA);
+  });
+
+  test('reports a tree SHA mismatch as modified', async () => {
+    const report = await check({ sha: TREE_SHA }, {
+      ...FILES,
+      'SKILL.md': '---\nname: pdf2\n---\n',
+    });
+
+    expect(report?.status).toBe('modified');
+    expect(report?.expectedTreeSha).toBe(TREE_SHA);
+    expect(report?.actualTreeSha).not.toBe(TREE_SHA);
+  });
+
+  test('cannot verify contents from a file list alone', async () => {
+    const report = await check({ files: Object.keys(FILES) });
+
+    expect(report?.status).toBe('unverified');
+  });
+
+  test('ignores the metadata file itself', async () => {
+    const report = await check({ fileHashes: BLOB_SHAS }, {
+      ...FILES,
+      [METADATA_FILE_NAME]: '{}',
+    });
+
+    expect(report?.status).toBe('pristine');
+    expect(report?.files.map((file) => file.path)).not.toContain(METADATA_FILE_NAME);
+  });
+});
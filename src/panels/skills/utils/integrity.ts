@@ -0,0 +1,223 @@
+/**
+ * Integrity check for installed skills
+ *
+ * Skills installed from GitHub record what was installed in `.metadata.json`:
+ * the file list, the git tree SHA of the skill folder (`sha`) and optionally
+ * the git blob SHA of each file (`fileHashes`). Hashing the folder as it is now
+ * and comparing against those tells whether a vendored skill has drifted.
+ */
+
+import type { SkillMetadata } from '../hooks/useSkillsData';
+
+export type SkillIntegrityStatus =
+  | 'pristine'        // Files and contents match what was installed
+  | 'modified'        // Same files, different contents
+  | 'missing-files'   // Installed files were deleted
+  | 'extra-files'     // Files were added after installing
+  | 'unverified';     // Nothing recorded to compare contents against
+
+export type SkillFileIntegrityStatus = 'unchanged' | 'modified' | 'missing' | 'extra' | 'unknown';
+
+export interface SkillFileIntegrity {
+  // Path relative to the skill folder
+  path: string;
+  status: SkillFileIntegrityStatus;
+  expectedHash?: string;
+  actualHash?: string;
+}
+
+export interface SkillIntegrityReport {
+  status: SkillIntegrityStatus;
+  files: SkillFileIntegrity[];
+  // Git tree SHA recorded at install time and computed from the folder now
+  expectedTreeSha?: string;
+  actualTreeSha?: string;
+}
+
+// Written by the installer next to the skill; never part of the installed files
+export const METADATA_FILE_NAME = '.metadata.json';
+
+const textEncoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+const sha1 = async (bytes: Uint8Array): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-1', bytes as BufferSource));
+
+/**
+ * Hash file contents the way git hashes a blob
+ */
+export const computeGitBlobSha = (content: Uint8Array): Promise<string> =>
+  sha1(concatBytes([textEncoder.encode(`blob ${content.length}\0`), content]));
+
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array(hex.match(/../g)?.map((pair) => parseInt(pair, 16)) ?? []);
+
+/**
+ * Hash a folder the way git hashes a tree
+ * File modes aren't available from the file tree, so every file is hashed as a
+ * regular file unless listed in `executablePaths`.
+ */
+export const computeGitTreeSha = async (
+  entries: { path: string; sha: string }[],
+  executablePaths: Set<string> = new Set()
+): Promise<string> => {
+  const files: { name: string; sha: string; mode: string }[] = [];
+  const subtrees = new Map<string, { path: string; sha: string }[]>();
+
+  for (const entry of entries) {
+    const slash = entry.path.indexOf('/');
+    if (slash === -1) {
+      files.push({
+        name: entry.path,
+        sha: entry.sha,
+        mode: executablePaths.has(entry.path) ? '100755' : '100644',
+      });
+    } else {
+      const dir = entry.path.substring(0, slash);
+      const children = subtrees.get(dir) ?? [];
+      children.push({ path: entry.path.substring(slash + 1), sha: entry.sha });
+      subtrees.set(dir, children);
+    }
+  }
+
+  const nestedExecutables = (dir: string) =>
+    new Set(
+      [...executablePaths]
+        .filter((path) => path.startsWith(`${dir}/`))
+        .map((path) => path.substring(dir.length + 1))
+    );
+
+  const treeEntries = [
+    ...files,
+    ...(await Promise.all(
+      [...subtrees].map(async ([name, children]) => ({
+        name,
+        sha: await computeGitTreeSha(children, nestedExecutables(name)),
+        mode: '40000',
+      }))
+    )),
+  ];
+
+  // Git sorts trees as if directory names ended with '/'
+  const sortKey = (entry: { name: string; mode: string }) =>
+    entry.mode === '40000' ? `${entry.name}/` : entry.name;
+  treeEntries.sort((a, b) => (sortKey(a) < sortKey(b) ? -1 : sortKey(a) > sortKey(b) ? 1 : 0));
+
+  const body = concatBytes(
+    treeEntries.flatMap((entry) => [
+      textEncoder.encode(`${entry.mode} ${entry.name}\0`),
+      hexToBytes(entry.sha),
+    ])
+  );
+  return sha1(concatBytes([textEncoder.encode(`tree ${body.length}\0`), body]));
+};
+
+interface CheckSkillIntegrityParams {
+  metadata: SkillMetadata;
+  // Files currently in the skill folder (SKILL.md included), relative to it
+  currentFiles: string[];
+  // Read a file by path relative to the skill folder
+  readFile: (path: string) => Promise<Uint8Array>;
+}
+
+/**
+ * Compare an installed skill folder with its `.metadata.json`
+ * Returns null when the metadata records nothing to check against.
+ */
+export const checkSkillIntegrity = async ({
+  metadata,
+  currentFiles,
+  readFile,
+}: CheckSkillIntegrityParams): Promise<SkillIntegrityReport | null> => {
+  const { files: installedFiles, fileHashes, sha: expectedTreeSha } = metadata;
+  if (!installedFiles && !fileHashes && !expectedTreeSha) return null;
+
+  const current = currentFiles.filter((path) => path !== METADATA_FILE_NAME);
+  const currentSet = new Set(current);
+  const installedSet = new Set(installedFiles ?? Object.keys(fileHashes ?? {}));
+
+  // Hash everything present now; unreadable files can't be verified
+  const actualHashes = new Map<string, string>();
+  await Promise.all(
+    current.map(async (path) => {
+      try {
+        actualHashes.set(path, await computeGitBlobSha(await readFile(path)));
+      } catch {
+        // Left out of actualHashes and reported as unknown
+      }
+    })
+  );
+
+  const files: SkillFileIntegrity[] = [];
+  for (const path of [...new Set([...installedSet, ...current])].sort()) {
+    const expectedHash = fileHashes?.[path];
+    const actualHash = actualHashes.get(path);
+    let status: SkillFileIntegrityStatus;
+
+    if (!currentSet.has(path)) {
+      status = 'missing';
+    } else if (installedSet.size > 0 && !installedSet.has(path)) {
+      status = 'extra';
+    } else if (!actualHash || !expectedHash) {
+      status = 'unknown';
+    } else {
+      status = actualHash === expectedHash ? 'unchanged' : 'modified';
+    }
+
+    files.push({ path, status, expectedHash, actualHash });
+  }
+
+  // Without per-file hashes, fall back to comparing the folder's tree SHA.
+  // Only installed files are hashed, so added files don't hide content changes
+  let actualTreeSha: string | undefined;
+  const treeFiles = installedSet.size > 0 ? current.filter((path) => installedSet.has(path)) : current;
+  if (expectedTreeSha && treeFiles.every((path) => actualHashes.has(path))) {
+    const entries = treeFiles.map((path) => ({ path, sha: actualHashes.get(path) as string }));
+    actualTreeSha = await computeGitTreeSha(entries);
+    if (actualTreeSha !== expectedTreeSha) {
+      // Scripts are often committed as executables
+      const scripts = new Set(treeFiles.filter((path) => path.startsWith('scripts/')));
+      if (scripts.size > 0) {
+        const withExecutables = await computeGitTreeSha(entries, scripts);
+        if (withExecutables === expectedTreeSha) actualTreeSha = withExecutables;
+      }
+    }
+
+    // A matching tree vouches for every installed file
+    if (!fileHashes && actualTreeSha === expectedTreeSha) {
+      for (const file of files) {
+        if (file.status === 'unknown') file.status = 'unchanged';
+      }
+    }
+  }
+
+  const has = (status: SkillFileIntegrityStatus) => files.some((file) => file.status === status);
+  const treeMismatch = !!actualTreeSha && actualTreeSha !== expectedTreeSha;
+
+  let status: SkillIntegrityStatus;
+  if (has('missing')) {
+    status = 'missing-files';
+  } else if (has('modified') || treeMismatch) {
+    status = 'modified';
+  } else if (has('extra')) {
+    status = 'extra-files';
+  } else if (has('unknown')) {
+    status = 'unverified';
+  } else {
+    status = 'pristine';
+  }
+
+  return { status, files, expectedTreeSha, actualTreeSha };
+};
@@ -0,0 +1,74 @@
+/**
+ * Inventory of the skills available in a repository, for the summary header
+ */
+
+import type { Skill } from '../hooks/useSkillsData';
+import { getSkillFileCount } from './sortAndGroup';
+
+export interface SkillRepoCount {
+  owner: string;
+  repo: string;
+  count: number;
+}
+
+export interface SkillInventory {
+  total: number;
+  // Skill count per discovery root id
+  bySource: Record<string, number>;
+  // Installed from GitHub (have owner/repo metadata) vs authored locally
+  fromGitHub: number;
+  local: number;
+  withScripts: number;
+  withReferences: number;
+  withAssets: number;
+  // Distinct upstream repositories, most skills first
+  repos: SkillRepoCount[];
+  // SKILL.md files plus everything bundled alongside them
+  totalFiles: number;
+}
+
+/**
+ * Count skills by source, provenance and bundled content
+ */
+export const computeSkillInventory = (skills: Skill[]): SkillInventory => {
+  const bySource: Record<string, number> = {};
+  const repos = new Map<string, SkillRepoCount>();
+  let fromGitHub = 0;
+  let withScripts = 0;
+  let withReferences = 0;
+  let withAssets = 0;
+  let totalFiles = 0;
+
+  for (const skill of skills) {
+    bySource[skill.source] = (bySource[skill.source] ?? 0) + 1;
+
+    const owner = skill.metadata?.owner;
+    const repo = skill.metadata?.repo;
+    if (owner && repo) {
+      fromGitHub++;
+      const key = `${owner}/${repo}`;
+      const entry = repos.get(key) ?? { owner, repo, count: 0 };
+      entry.count++;
+      repos.set(key, entry);
+    }
+
+    if (skill.hasScripts) withScripts++;
+    if (skill.hasReferences) withReferences++;
+    if (skill.hasAssets) withAssets++;
+    totalFiles += getSkillFileCount(skill);
+  }
+
+  return {
+    total: skills.length,
+    bySource,
+    fromGitHub,
+    local: skills.length - fromGitHub,
+    withScripts,
+    withReferences,
+    withAssets,
+    repos: [...repos.values()].sort(
+      (a, b) => b.count - a.count || `${a.owner}/${a.repo}`.localeCompare(`${b.owner}/${b.repo}`)
+    ),
+    totalFiles,
+  };
+};
@@ -0,0 +1,110 @@
+/**
+ * Skill origins
+ *
+ * Besides the discovery root it was found under, a skill belongs to an origin:
+ * the repository root itself, a plugin folder (`plugins/<name>/skills`) or a
+ * nested package of a monorepo (`packages/<name>/.claude/skills`).
+ */
+
+import type { Skill } from '../hooks/useSkillsData';
+
+export type SkillOriginKind = 'root' | 'plugin' | 'package';
+
+export interface SkillOrigin {
+  kind: SkillOriginKind;
+  // Plugin name, package path, or 'Repository' for the root
+  label: string;
+  // Repository-relative folder of the plugin or package ('' for the root)
+  path: string;
+}
+
+export const ROOT_ORIGIN: SkillOrigin = { kind: 'root', label: 'Repository', path: '' };
+
+// Files that mark a folder as a package of a monorepo
+const PACKAGE_MANIFESTS = ['package.json', 'pyproject.toml', 'Cargo.toml', 'go.mod'];
+
+/**
+ * Helper function to collect the folders that contain a package manifest
+ * The repository root is left out, since skills there belong to the root origin.
+ */
+export const findPackageDirs = (paths: string[]): Set<string> => {
+  const dirs = new Set<string>();
+  for (const path of paths) {
+    const slash = path.lastIndexOf('/');
+    if (slash === -1) continue;
+    if (PACKAGE_MANIFESTS.includes(path.substring(slash + 1))) {
+      dirs.add(path.substring(0, slash));
+    }
+  }
+  return dirs;
+};
+
+/**
+ * Helper function to work out which plugin or package a skills directory belongs to
+ * Plugin folders win over packages; a package is the nearest folder above the
+ * skills directory with a manifest, or else the folder holding its dot-directory
+ * (`packages/web` for `packages/web/.claude/skills`).
+ */
+export const determineSkillOrigin = (rootDir: string, packageDirs: Set<string>): SkillOrigin => {
+  const parts = rootDir.split('/');
+
+  const pluginsIndex = parts.lastIndexOf('plugins');
+  if (pluginsIndex !== -1 && parts[pluginsIndex + 1] && parts[pluginsIndex + 2] === 'skills') {
+    return {
+      kind: 'plugin',
+      label: parts[pluginsIndex + 1],
+      path: parts.slice(0, pluginsIndex + 2).join('/'),
+    };
+  }
+
+  for (let i = parts.length - 1; i > 0; i--) {
+    const dir = parts.slice(0, i).join('/');
+    if (packageDirs.has(dir)) {
+      return { kind: 'package', label: dir, path: dir };
+    }
+  }
+
+  const dotIndex = parts.findIndex((part) => part.startsWith('.'));
+  if (dotIndex > 0) {
+    const dir = parts.slice(0, dotIndex).join('/');
+    return { kind: 'package', label: dir, path: dir };
+  }
+
+  return ROOT_ORIGIN;
+};
+
+/**
+ * Host-provided skills carry no origin and count as root skills
+ */
+export const getSkillOrigin = (skill: Skill): SkillOrigin => skill.origin ?? ROOT_ORIGIN;
+
+export const getOriginKey = (origin: SkillOrigin): string => `${origin.kind}:${origin.path}`;
+
+export interface SkillOriginGroup {
+  key: string;
+  origin: SkillOrigin;
+  skills: Skill[];
+}
+
+const ORIGIN_ORDER: Record<SkillOriginKind, number> = { root: 0, package: 1, plugin: 2 };
+
+/**
+ * Group skills by origin: the root first, then packages, then plugins,
+ * alphabetically within each kind. Skill order inside a group is preserved.
+ */
+export const groupSkillsByOrigin = (skills: Skill[]): SkillOriginGroup[] => {
+  const groups = new Map<string, SkillOriginGroup>();
+  for (const skill of skills) {
+    const origin = getSkillOrigin(skill);
+    const key = getOriginKey(origin);
+    const group = groups.get(key) ?? { key, origin, skills: [] };
+    group.skills.push(skill);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].sort(
+    (a, b) =>
+      ORIGIN_ORDER[a.origin.kind] - ORIGIN_ORDER[b.origin.kind] ||
+      a.origin.label.localeCompare(b.origin.label)
+  );
+};
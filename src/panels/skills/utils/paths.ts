@@ -0,0 +1,11 @@
+/**
+ * Helper function to turn a skill path into one the file system adapter can read
+ * Project skills carry paths relative to the repository; host-provided global
+ * skills already carry absolute paths.
+ */
+export const toFileSystemPath = (repoPath: string | undefined, path: string): string => {
+  if (path.startsWith('/') || /^[A-Za-z]:[\\/]/.test(path) || !repoPath) {
+    return path;
+  }
+  return `${repoPath}/${path}`;
+};
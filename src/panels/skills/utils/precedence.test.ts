@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import type { Skill } from '../hooks/useSkillsData';
+import { getSkillKey, resolveSkillPrecedence } from './precedence';
+
+const makeSkill = (id: string, name: string, priority: number, source = 'project'): Skill => ({
+  id,
+  name,
+  path: id,
+  skillFolderPath: id.substring(0, id.lastIndexOf('/')),
+  hasScripts: false,
+  hasReferences: false,
+  hasAssets: false,
+  source,
+  priority,
+});
+
+describe('getSkillKey', () => {
+  test('normalizes case, spaces and underscores', () => {
+    expect(getSkillKey(makeSkill('a/SKILL.md', '  PDF Tools_v2 ', 0))).toBe('pdf-tools-v2');
+  });
+});
+
+describe('resolveSkillPrecedence', () => {
+  test('shadows lower-precedence copies with the same name', () => {
+    const personal = makeSkill('~/.claude/skills/pdf/SKILL.md', 'pdf', 2, 'personal');
+    const project = makeSkill('.claude/skills/pdf/SKILL.md', 'PDF', 1);
+    const other = makeSkill('.claude/skills/docx/SKILL.md', 'docx', 2, 'personal');
+
+    const resolved = resolveSkillPrecedence([personal, project, other]);
+
+    expect(resolved.map((skill) => skill.shadowedBy)).toEqual([project.id, undefined, undefined]);
+  });
+
+  test('gives ties within a tier to the copy loaded first', () => {
+    const first = makeSkill('.claude/skills/pdf/SKILL.md', 'pdf', 1);
+    const second = makeSkill('.agent/skills/pdf/SKILL.md', 'pdf', 1);
+
+    const resolved = resolveSkillPrecedence([first, second]);
+
+    expect(resolved[0].shadowedBy).toBeUndefined();
+    expect(resolved[1].shadowedBy).toBe(first.id);
+  });
+
+  test('clears shadowing once the winner is gone', () => {
+    const stale = { ...makeSkill('~/.claude/skills/pdf/SKILL.md', 'pdf', 2), shadowedBy: 'gone' };
+
+    expect(resolveSkillPrecedence([stale])[0].shadowedBy).toBeUndefined();
+  });
+
+  test('keeps skill objects whose shadowing is unchanged', () => {
+    const skills = [makeSkill('.claude/skills/pdf/SKILL.md', 'pdf', 1)];
+
+    expect(resolveSkillPrecedence(skills)[0]).toBe(skills[0]);
+  });
+});
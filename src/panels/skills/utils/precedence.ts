@@ -0,0 +1,36 @@
+/**
+ * Skill precedence resolution
+ *
+ * When several copies of a skill share a name, agents load the one from the
+ * highest-precedence source (lowest `priority`). Every other copy is shadowed.
+ */
+
+import type { Skill } from '../hooks/useSkillsData';
+
+/**
+ * Helper function to derive the name agents resolve a skill by
+ */
+export const getSkillKey = (skill: Skill): string =>
+  skill.name.trim().toLowerCase().replace(/[\s_]+/g, '-');
+
+/**
+ * Mark every losing copy of a skill with `shadowedBy` (the winner's id).
+ * Ties within the same tier go to the copy that was loaded first.
+ */
+export const resolveSkillPrecedence = (skills: Skill[]): Skill[] => {
+  const winners = new Map<string, Skill>();
+
+  for (const skill of skills) {
+    const key = getSkillKey(skill);
+    const current = winners.get(key);
+    if (!current || skill.priority < current.priority) {
+      winners.set(key, skill);
+    }
+  }
+
+  return skills.map((skill) => {
+    const winner = winners.get(getSkillKey(skill));
+    const shadowedBy = winner && winner.id !== skill.id ? winner.id : undefined;
+    return skill.shadowedBy === shadowedBy ? skill : { ...skill, shadowedBy };
+  });
+};
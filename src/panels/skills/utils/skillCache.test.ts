@@ -0,0 +1,173 @@
+import { describe, expect, test } from 'bun:test';
+import type { FileInfo } from '@principal-ai/repository-abstraction';
+import type { Skill } from '../hooks/useSkillsData';
+import type { SkillDetails } from '../hooks/useSkillDetails';
+import type { SkillIntegrityReport } from './integrity';
+import {
+  computeSkillSignature,
+  getCachedSkill,
+  getCachedSkillDetails,
+  getCachedSkillIntegrity,
+  invalidateSkillCache,
+  pruneSkillCache,
+  setCachedSkill,
+} from './skillCache';
+
+const SKILL_PATH = '.claude/skills/pdf/SKILL.md';
+
+// The cache is module-level, so every test works in a repository of its own
+let repoCount = 0;
+const nextRepo = () => `/repos/cache-test-${++repoCount}`;
+
+const makeFile = (relativePath: string, size: number, lastModified: Date): FileInfo => ({
+  path: `/repo/${relativePath}`,
+  name: relativePath.substring(relativePath.lastIndexOf('/') + 1),
+  extension: relativePath.substring(relativePath.lastIndexOf('.') + 1),
+  size,
+  lastModified,
+  isDirectory: false,
+  relativePath,
+});
+
+const makeSkill = (path = SKILL_PATH): Skill => ({
+  id: path,
+  name: 'pdf',
+  path,
+  skillFolderPath: path.substring(0, path.lastIndexOf('/')),
+  hasScripts: false,
+  hasReferences: false,
+  hasAssets: false,
+  source: 'project',
+  priority: 1,
+});
+
+const details: SkillDetails = { content: '# PDF', references: {}, scripts: {}, failedFiles: [] };
+const report: SkillIntegrityReport = { status: 'pristine', files: [] };
+
+describe('computeSkillSignature', () => {
+  const skillMd = makeFile(SKILL_PATH, 120, new Date(1000));
+  const script = makeFile('.claude/skills/pdf/scripts/fill.py', 40, new Date(2000));
+
+  test('does not depend on file order', () => {
+    expect(computeSkillSignature([skillMd, script])).toBe(computeSkillSignature([script, skillMd]));
+  });
+
+  test('changes with the size or mtime of any file', () => {
+    const signature = computeSkillSignature([skillMd, script]);
+
+    expect(computeSkillSignature([skillMd, { ...script, size: 41 }])).not.toBe(signature);
+    expect(computeSkillSignature([skillMd, { ...script, lastModified: new Date(2001) }])).not.toBe(
+      signature
+    );
+  });
+
+  test('changes when a file is added', () => {
+    expect(computeSkillSignature([skillMd, script])).not.toBe(computeSkillSignature([skillMd]));
+  });
+});
+
+describe('getCachedSkill', () => {
+  test('returns the skill only while the signature matches', () => {
+    const repo = nextRepo();
+    const skill = makeSkill();
+    setCachedSkill(repo, SKILL_PATH, 'v1', skill);
+
+    expect(getCachedSkill(repo, SKILL_PATH, 'v1')).toBe(skill);
+    expect(getCachedSkill(repo, SKILL_PATH, 'v2')).toBeUndefined();
+    expect(getCachedSkill(nextRepo(), SKILL_PATH, 'v1')).toBeUndefined();
+  });
+
+  test('forgets a skill when invalidated', () => {
+    const repo = nextRepo();
+    setCachedSkill(repo, SKILL_PATH, 'v1', makeSkill());
+    invalidateSkillCache(repo, SKILL_PATH);
+
+    expect(getCachedSkill(repo, SKILL_PATH, 'v1')).toBeUndefined();
+  });
+
+  test('forgets every skill of a repository when invalidated without a path', () => {
+    const repo = nextRepo();
+    const otherRepo = nextRepo();
+    setCachedSkill(repo, SKILL_PATH, 'v1', makeSkill());
+    setCachedSkill(otherRepo, SKILL_PATH, 'v1', makeSkill());
+    invalidateSkillCache(repo);
+
+    expect(getCachedSkill(repo, SKILL_PATH, 'v1')).toBeUndefined();
+    expect(getCachedSkill(otherRepo, SKILL_PATH, 'v1')).toBeDefined();
+  });
+
+  test('prunes skills whose folders are gone', () => {
+    const repo = nextRepo();
+    const removedPath = '.claude/skills/docx/SKILL.md';
+    setCachedSkill(repo, SKILL_PATH, 'v1', makeSkill());
+    setCachedSkill(repo, removedPath, 'v1', makeSkill(removedPath));
+    pruneSkillCache(repo, [SKILL_PATH]);
+
+    expect(getCachedSkill(repo, SKILL_PATH, 'v1')).toBeDefined();
+    expect(getCachedSkill(repo, removedPath, 'v1')).toBeUndefined();
+  });
+});
+
+describe('getCachedSkillDetails', () => {
+  test('loads once until the skill is re-parsed', async () => {
+    const repo = nextRepo();
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return details;
+    };
+
+    await getCachedSkillDetails(repo, SKILL_PATH, load);
+    await getCachedSkillDetails(repo, SKILL_PATH, load);
+    expect(loads).toBe(1);
+
+    setCachedSkill(repo, SKILL_PATH, 'v2', makeSkill());
+    await getCachedSkillDetails(repo, SKILL_PATH, load);
+    expect(loads).toBe(2);
+  });
+
+  test('does not cache a failed load', async () => {
+    const repo = nextRepo();
+
+    await expect(
+      getCachedSkillDetails(repo, SKILL_PATH, () => Promise.reject(new Error('EACCES')))
+    ).rejects.toThrow('EACCES');
+    expect(await getCachedSkillDetails(repo, SKILL_PATH, async () => details)).toBe(details);
+  });
+});
+
+describe('getCachedSkillIntegrity', () => {
+  test('stamps the report on the cached skill it was checked against', async () => {
+    const repo = nextRepo();
+    setCachedSkill(repo, SKILL_PATH, 'v1', makeSkill());
+
+    expect(await getCachedSkillIntegrity(repo, SKILL_PATH, async () => report)).toBe(report);
+    expect(getCachedSkill(repo, SKILL_PATH, 'v1')?.integrity).toBe(report);
+  });
+
+  test('leaves a skill re-parsed during the check alone', async () => {
+    const repo = nextRepo();
+    setCachedSkill(repo, SKILL_PATH, 'v1', makeSkill());
+
+    await getCachedSkillIntegrity(repo, SKILL_PATH, async () => {
+      setCachedSkill(repo, SKILL_PATH, 'v2', makeSkill());
+      return report;
+    });
+
+    expect(getCachedSkill(repo, SKILL_PATH, 'v2')?.integrity).toBeUndefined();
+  });
+
+  test('runs the check once, including checks that find nothing to compare', async () => {
+    const repo = nextRepo();
+    let checks = 0;
+    const check = async () => {
+      checks++;
+      return null;
+    };
+
+    await getCachedSkillIntegrity(repo, SKILL_PATH, check);
+    await getCachedSkillIntegrity(repo, SKILL_PATH, check);
+
+    expect(checks).toBe(1);
+  });
+});
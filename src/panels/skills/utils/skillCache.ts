@@ -0,0 +1,176 @@
+/**
+ * Parse cache for skills loaded from the file tree
+ *
+ * Parsed skills are keyed by repository path plus the SKILL.md relative path,
+ * and stamped with a signature built from the size and mtime of every file in
+ * the skill folder. A skill is only re-read when its signature changes, so a
+ * fileTree refresh after a single save doesn't re-parse hundreds of skills.
+ * The cache is module-level and survives refreshes and panel remounts.
+ *
+ * Skill bodies and folder contents loaded on demand are cached alongside and
+ * dropped whenever the skill itself is re-parsed. So are integrity checks of
+ * installed skills, which hash every file and run after the load, not during it.
+ */
+
+import type { FileInfo } from '@principal-ai/repository-abstraction';
+import type { Skill } from '../hooks/useSkillsData';
+import type { SkillDetails } from '../hooks/useSkillDetails';
+import type { SkillIntegrityReport } from './integrity';
+
+export interface SkillCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+interface CacheEntry {
+  signature: string;
+  skill: Skill;
+}
+
+const entries = new Map<string, CacheEntry>();
+// Lazily loaded bodies and folder contents, keyed like `entries`
+const detailEntries = new Map<string, Promise<SkillDetails>>();
+// Integrity checks, keyed like `entries`
+const integrityEntries = new Map<string, Promise<SkillIntegrityReport | null>>();
+let hits = 0;
+let misses = 0;
+
+const toCacheKey = (repoPath: string, skillPath: string): string =>
+  `${repoPath}::${skillPath}`;
+
+/**
+ * Helper function to build a change signature for a skill folder
+ * Falls back to size/mtime from the FileTree since it carries no content hash.
+ */
+export const computeSkillSignature = (files: FileInfo[]): string => {
+  return files
+    .map((file) => {
+      const mtime =
+        file.lastModified instanceof Date
+          ? file.lastModified.getTime()
+          : String(file.lastModified ?? '');
+      return `${file.relativePath}:${file.size ?? ''}:${mtime}`;
+    })
+    .sort()
+    .join('|');
+};
+
+/**
+ * Return the cached skill when its signature still matches, counting hits and misses
+ */
+export const getCachedSkill = (
+  repoPath: string,
+  skillPath: string,
+  signature: string
+): Skill | undefined => {
+  const entry = entries.get(toCacheKey(repoPath, skillPath));
+  if (entry && entry.signature === signature) {
+    hits++;
+    return entry.skill;
+  }
+  misses++;
+  return undefined;
+};
+
+export const setCachedSkill = (
+  repoPath: string,
+  skillPath: string,
+  signature: string,
+  skill: Skill
+): void => {
+  const key = toCacheKey(repoPath, skillPath);
+  entries.set(key, { signature, skill });
+  // The skill changed on disk, so any loaded body or integrity check is stale
+  detailEntries.delete(key);
+  integrityEntries.delete(key);
+};
+
+/**
+ * Drop cached skills of a repository whose folders no longer exist
+ */
+export const pruneSkillCache = (repoPath: string, skillPaths: string[]): void => {
+  const keep = new Set(skillPaths.map((skillPath) => toCacheKey(repoPath, skillPath)));
+  const prefix = toCacheKey(repoPath, '');
+  for (const key of entries.keys()) {
+    if (key.startsWith(prefix) && !keep.has(key)) {
+      entries.delete(key);
+      detailEntries.delete(key);
+      integrityEntries.delete(key);
+    }
+  }
+};
+
+/**
+ * Forget a single skill (or every skill of a repository when skillPath is omitted)
+ */
+export const invalidateSkillCache = (repoPath: string, skillPath?: string): void => {
+  if (skillPath) {
+    entries.delete(toCacheKey(repoPath, skillPath));
+    detailEntries.delete(toCacheKey(repoPath, skillPath));
+    integrityEntries.delete(toCacheKey(repoPath, skillPath));
+  } else {
+    pruneSkillCache(repoPath, []);
+  }
+};
+
+/**
+ * Return the loaded details of a skill, loading them once on first request
+ * Failed loads aren't cached so they can be retried.
+ */
+export const getCachedSkillDetails = (
+  repoPath: string,
+  skillPath: string,
+  load: () => Promise<SkillDetails>
+): Promise<SkillDetails> => {
+  const key = toCacheKey(repoPath, skillPath);
+  let pending = detailEntries.get(key);
+  if (!pending) {
+    pending = load().catch((err) => {
+      detailEntries.delete(key);
+      throw err;
+    });
+    detailEntries.set(key, pending);
+  }
+  return pending;
+};
+
+/**
+ * Return the integrity check of a skill, running it once on first request
+ * The report is also stored on the cached skill, so reloads keep it until
+ * the skill changes on disk. Failed checks aren't cached so they can be retried.
+ */
+export const getCachedSkillIntegrity = (
+  repoPath: string,
+  skillPath: string,
+  check: () => Promise<SkillIntegrityReport | null>
+): Promise<SkillIntegrityReport | null> => {
+  const key = toCacheKey(repoPath, skillPath);
+  let pending = integrityEntries.get(key);
+  if (!pending) {
+    const entry = entries.get(key);
+    pending = check()
+      .then((report) => {
+        // Only stamp the parse the check was run against
+        if (report && entry && entries.get(key) === entry) {
+          entry.skill = { ...entry.skill, integrity: report };
+        }
+        return report;
+      })
+      .catch((err) => {
+        integrityEntries.delete(key);
+        throw err;
+      });
+    integrityEntries.set(key, pending);
+  }
+  return pending;
+};
+
+/**
+ * Cumulative cache hit/miss counts, for debugging
+ */
+export const getSkillCacheStats = (): SkillCacheStats => ({
+  hits,
+  misses,
+  entries: entries.size,
+});
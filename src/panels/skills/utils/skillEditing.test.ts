@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  getFrontmatterFieldText,
+  getSkillBody,
+  setFrontmatterField,
+  setSkillBody,
+} from './skillEditing';
+
+const SKILL_MD = [
+  '---',
+  'name: pdf # short name',
+  'description: >',
+  '  Fill and merge',
+  '  PDF forms.',
+  'allowed-tools:',
+  '  - Read',
+  '  - Bash(pdftk:*)',
+  'x-team: docs',
+  '---',
+  '# PDF',
+  '',
+  'Body text.',
+].join('\n');
+
+describe('getFrontmatterFieldText', () => {
+  test('reads scalars, folded text and sequences', () => {
+    expect(getFrontmatterFieldText(SKILL_MD, 'name')).toBe('pdf');
+    expect(getFrontmatterFieldText(SKILL_MD, 'description')).toBe('Fill and merge PDF forms.');
+    expect(getFrontmatterFieldText(SKILL_MD, 'allowed-tools')).toBe('Read Bash(pdftk:*)');
+    expect(getFrontmatterFieldText(SKILL_MD, 'license')).toBe('');
+  });
+});
+
+describe('setFrontmatterField', () => {
+  test('returns the content untouched when the value is unchanged', () => {
+    expect(setFrontmatterField(SKILL_MD, 'description', 'Fill and merge PDF forms.')).toBe(SKILL_MD);
+  });
+
+  test('keeps a trailing comment on a plain scalar', () => {
+    expect(setFrontmatterField(SKILL_MD, 'name', 'pdf-tools')).toBe(
+      SKILL_MD.replace('name: pdf #', 'name: pdf-tools #')
+    );
+  });
+
+  test('rewrites a folded scalar in place', () => {
+    const updated = setFrontmatterField(SKILL_MD, 'description', 'Fill PDF forms.');
+
+    expect(updated).toBe(SKILL_MD.replace('  Fill and merge\n  PDF forms.', '  Fill PDF forms.'));
+  });
+
+  test('keeps unchanged sequence items byte for byte', () => {
+    const updated = setFrontmatterField(SKILL_MD, 'allowed-tools', 'Read Grep');
+
+    expect(updated).toBe(SKILL_MD.replace('  - Bash(pdftk:*)', '  - Grep'));
+  });
+
+  test('adds missing keys at the end of the frontmatter', () => {
+    const updated = setFrontmatterField(SKILL_MD, 'license', 'MIT');
+
+    expect(updated).toBe(SKILL_MD.replace('x-team: docs\n', 'x-team: docs\nlicense: MIT\n'));
+    expect(getFrontmatterFieldText(updated, 'license')).toBe('MIT');
+  });
+
+  test('rewrites flow sequences as flow sequences', () => {
+    const content = '---\nallowed-tools: [Read]\n---\n';
+    const updated = setFrontmatterField(content, 'allowed-tools', 'Read, Bash(git:*)');
+
+    expect(updated).toBe('---\nallowed-tools: [Read, "Bash(git:*)"]\n---\n');
+    expect(getFrontmatterFieldText(updated, 'allowed-tools')).toBe('Read Bash(git:*)');
+  });
+
+  test('keeps the quoting style of quoted values', () => {
+    expect(setFrontmatterField("---\nname: 'pdf'\n---\n", 'name', "it's")).toBe(
+      "---\nname: 'it''s'\n---\n"
+    );
+  });
+
+  test('creates a frontmatter block when there is none', () => {
+    expect(setFrontmatterField('# PDF', 'name', 'pdf')).toBe('---\nname: pdf\n---\n# PDF');
+    expect(setFrontmatterField('# PDF', 'name', '')).toBe('# PDF');
+  });
+
+  test('keeps CRLF line endings', () => {
+    const content = SKILL_MD.replace(/\n/g, '\r\n');
+    const updated = setFrontmatterField(content, 'name', 'pdf-tools');
+
+    expect(updated).toBe(content.replace('name: pdf #', 'name: pdf-tools #'));
+  });
+});
+
+describe('getSkillBody', () => {
+  test('returns the markdown after the frontmatter', () => {
+    expect(getSkillBody(SKILL_MD)).toBe('# PDF\n\nBody text.');
+    expect(getSkillBody('# No frontmatter')).toBe('# No frontmatter');
+  });
+});
+
+describe('setSkillBody', () => {
+  test('replaces the body and keeps the frontmatter', () => {
+    const updated = setSkillBody(SKILL_MD, '# PDF\n\nNew text.');
+
+    expect(updated).toBe(SKILL_MD.replace('Body text.', 'New text.'));
+    expect(getSkillBody(updated)).toBe('# PDF\n\nNew text.');
+  });
+
+  test('writes the body in the file line endings', () => {
+    expect(setSkillBody('---\nname: pdf\n---\r\nold', 'a\nb')).toBe('---\r\nname: pdf\r\n---\r\na\r\nb');
+  });
+});
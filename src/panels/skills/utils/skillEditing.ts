@@ -0,0 +1,203 @@
+/**
+ * Edits to a SKILL.md file that keep everything the editor doesn't touch
+ *
+ * The editor works on the full file text. Frontmatter fields are rewritten one
+ * key at a time so unknown keys, comments and ordering survive a save.
+ */
+
+import {
+  BLOCK_SCALAR_PATTERN,
+  indentOf,
+  joinBlockScalar,
+  parseFrontmatter,
+  unquote,
+} from './frontmatter';
+import { toDoubleQuotedScalar, toYamlScalar } from './createSkill';
+
+export interface EditableFrontmatterField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  multiline?: boolean;
+}
+
+export const EDITABLE_FRONTMATTER_FIELDS: EditableFrontmatterField[] = [
+  { key: 'name', label: 'Name', placeholder: 'pdf-processing' },
+  {
+    key: 'description',
+    label: 'Description',
+    placeholder: 'What the skill does and when to use it',
+    multiline: true,
+  },
+  { key: 'license', label: 'License', placeholder: 'Apache-2.0' },
+  { key: 'allowed-tools', label: 'Allowed tools', placeholder: 'Read Grep Bash(git:*)' },
+];
+
+const toLines = (content: string): string[] => content.replace(/\r\n?/g, '\n').split('\n');
+
+// Edited files keep the line endings they were written with
+const getLineEnding = (content: string): string => (content.includes('\r\n') ? '\r\n' : '\n');
+
+/**
+ * Helper function to find the frontmatter block, as indexes of its `---` lines
+ */
+const findFrontmatterBlock = (lines: string[]): { open: number; close: number } | null => {
+  if (lines[0]?.trim() !== '---') return null;
+  const close = lines.findIndex(
+    (line, index) => index > 0 && (line.trim() === '---' || line.trim() === '...')
+  );
+  return close === -1 ? null : { open: 0, close };
+};
+
+/**
+ * Helper function to split form text into sequence items, the way
+ * `allowed-tools` strings are read
+ */
+const toSequenceItems = (text: string): string[] =>
+  text
+    .split(text.includes(',') ? /\s*,\s*/ : /\s+/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Helper function to write a flow sequence item, quoting it when it holds
+ * flow punctuation
+ */
+const toFlowItem = (item: string): string =>
+  /[,[\]{}]/.test(item) ? toDoubleQuotedScalar(item) : toYamlScalar(item);
+
+/**
+ * Helper function to rewrite one key's lines in the style it was written in
+ * `current` holds the key line followed by its indented value lines. Lines
+ * whose content didn't change (sequence items, folded paragraphs) are kept
+ * byte for byte.
+ */
+const rewriteField = (key: string, value: string, current: string[]): string[] => {
+  const [keyLine, ...nested] = current;
+  const rawValue = keyLine.slice(keyLine.indexOf(':') + 1).trim();
+  const valueLines = nested.filter((line) => line.trim());
+  const indent = valueLines.length > 0 ? ' '.repeat(indentOf(valueLines[0])) : '  ';
+  const blockMatch = rawValue.match(BLOCK_SCALAR_PATTERN);
+
+  if (blockMatch && blockMatch[1] === '|') {
+    return [keyLine, ...(value ? value.split('\n').map((line) => (line ? indent + line : '')) : [])];
+  }
+
+  if (blockMatch) {
+    // Folded paragraphs are separated by blank lines; unchanged ones keep their wrapping
+    const oldParagraphs: string[][] = [[]];
+    for (const line of nested) {
+      if (line.trim()) {
+        oldParagraphs[oldParagraphs.length - 1].push(line);
+      } else if (oldParagraphs[oldParagraphs.length - 1].length > 0) {
+        oldParagraphs.push([]);
+      }
+    }
+    const paragraphs = value ? value.split('\n') : [];
+    return [
+      keyLine,
+      ...paragraphs.flatMap((paragraph, index) => {
+        const old = oldParagraphs[index];
+        const lines = old?.length && joinBlockScalar(old, '>') === paragraph ? old : [indent + paragraph];
+        return index > 0 ? ['', ...lines] : lines;
+      }),
+    ];
+  }
+
+  if (rawValue === '' && valueLines[0]?.trimStart().startsWith('- ')) {
+    const items = toSequenceItems(value);
+    if (items.length === 0) return [`${key}: []`];
+    return [
+      keyLine,
+      ...items.map((item, index) => {
+        const old = valueLines[index];
+        return old && unquote(old.trimStart().replace(/^-\s+/, '')) === item
+          ? old
+          : `${indent}- ${toYamlScalar(item)}`;
+      }),
+    ];
+  }
+
+  if (rawValue.startsWith('[')) {
+    return [`${key}: [${toSequenceItems(value).map(toFlowItem).join(', ')}]`];
+  }
+
+  if (rawValue.startsWith("'") && !/[\n\r\t]/.test(value)) {
+    return [`${key}: '${value.replace(/'/g, "''")}'`];
+  }
+  if (rawValue.startsWith('"') || rawValue.startsWith("'")) {
+    return [`${key}: ${toDoubleQuotedScalar(value)}`];
+  }
+
+  // Plain scalars keep a trailing comment
+  const comment = rawValue.match(/\s+#.*$/)?.[0] ?? '';
+  const scalar = toYamlScalar(value);
+  return [`${key}: ${scalar}${comment && scalar === value ? comment : ''}`];
+};
+
+/**
+ * Text of a frontmatter field as shown in the editor form
+ * Sequences are joined with spaces, matching the spec's `allowed-tools` format.
+ */
+export const getFrontmatterFieldText = (content: string, key: string): string => {
+  const value = parseFrontmatter(content).frontmatter?.fields[key];
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.join(' ');
+  return '';
+};
+
+/**
+ * Set one top-level frontmatter key
+ * Only that key's lines change, written in the style they already use (block
+ * scalar, sequence, quoting). Keys are updated where they stand, even when
+ * emptied, so clearing a field while retyping it doesn't move it. Files
+ * without frontmatter get a new block.
+ */
+export const setFrontmatterField = (content: string, key: string, value: string): string => {
+  if (getFrontmatterFieldText(content, key) === value) return content;
+
+  const lines = toLines(content);
+  const existing = findFrontmatterBlock(lines);
+  if (!existing && !value) return content;
+  if (!existing) lines.unshift('---', '---');
+  const block = existing ?? { open: 0, close: 1 };
+
+  const keyPattern = new RegExp(`^${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*:`);
+  const start = lines.findIndex(
+    (line, index) => index > block.open && index < block.close && keyPattern.test(line)
+  );
+
+  if (start === -1) {
+    if (!value) return content;
+    lines.splice(block.close, 0, `${key}: ${toYamlScalar(value)}`);
+  } else {
+    // The key's value runs on through indented lines (block scalars, sequences)
+    let end = start + 1;
+    while (end < block.close && (lines[end].trim() === '' || indentOf(lines[end]) > 0)) end++;
+    while (end > start + 1 && lines[end - 1].trim() === '') end--;
+    lines.splice(start, end - start, ...rewriteField(key, value, lines.slice(start, end)));
+  }
+
+  return lines.join(getLineEnding(content));
+};
+
+/**
+ * The markdown after the frontmatter block
+ */
+export const getSkillBody = (content: string): string => {
+  const lines = toLines(content);
+  const block = findFrontmatterBlock(lines);
+  return block ? lines.slice(block.close + 1).join('\n') : lines.join('\n');
+};
+
+/**
+ * Replace the markdown after the frontmatter block, keeping the frontmatter as is
+ */
+export const setSkillBody = (content: string, body: string): string => {
+  const lines = toLines(content);
+  const block = findFrontmatterBlock(lines);
+  const bodyLines = toLines(body);
+  return (block ? [...lines.slice(0, block.close + 1), ...bodyLines] : bodyLines).join(
+    getLineEnding(content)
+  );
+};
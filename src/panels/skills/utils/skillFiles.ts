@@ -0,0 +1,133 @@
+/**
+ * Helpers for browsing the files of a skill folder
+ */
+
+import { getImageMimeType } from './assetPreview';
+
+export interface SkillFileNode {
+  name: string;
+  // Path relative to the skill folder
+  path: string;
+  // Present on directories only
+  children?: SkillFileNode[];
+}
+
+export type SkillFilePreviewKind =
+  | 'markdown'
+  | 'code'
+  | 'image'
+  | 'svg'
+  | 'data'
+  | 'csv'
+  | 'binary';
+
+// Extensions that can't be shown as text
+const BINARY_EXTENSIONS = new Set([
+  'svgz', 'tif', 'tiff',
+  'pdf', 'zip', 'gz', 'tgz', 'tar', 'bz2', '7z', 'jar', 'wasm', 'exe', 'dll', 'so', 'dylib',
+  'woff', 'woff2', 'ttf', 'otf', 'eot', 'mp3', 'mp4', 'wav', 'ogg', 'mov', 'webm',
+  'docx', 'xlsx', 'pptx', 'pyc', 'class', 'bin',
+]);
+
+// highlight.js language for each extension; files not listed are shown as plain text
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  sh: 'bash',
+  bash: 'bash',
+  zsh: 'bash',
+  py: 'python',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  html: 'xml',
+  xml: 'xml',
+  svg: 'xml',
+  css: 'css',
+  rb: 'ruby',
+  go: 'go',
+  rs: 'rust',
+  sql: 'sql',
+  ps1: 'powershell',
+  ini: 'ini',
+  toml: 'ini',
+};
+
+const getExtension = (path: string): string => {
+  const name = path.substring(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.substring(dot + 1).toLowerCase() : '';
+};
+
+/**
+ * Helper function to pick how a file is previewed
+ * Images and binaries are read as bytes, everything else as text.
+ */
+export const getFilePreviewKind = (path: string): SkillFilePreviewKind => {
+  const extension = getExtension(path);
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (getImageMimeType(path)) return 'image';
+  if (extension === 'svg') return 'svg';
+  if (['json', 'yaml', 'yml'].includes(extension)) return 'data';
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (BINARY_EXTENSIONS.has(extension)) return 'binary';
+  return 'code';
+};
+
+/**
+ * Whether a preview needs the file's bytes rather than its text
+ */
+export const isBinaryPreviewKind = (kind: SkillFilePreviewKind): boolean =>
+  kind === 'image' || kind === 'binary';
+
+/**
+ * Helper function to find the highlight.js language of a file
+ * Falls back to the shebang for extensionless scripts.
+ */
+export const getFileLanguage = (path: string, content?: string): string | undefined => {
+  const language = LANGUAGE_BY_EXTENSION[getExtension(path)];
+  if (language || !content?.startsWith('#!')) return language;
+
+  const shebang = content.split('\n', 1)[0];
+  if (/\b(ba|z)?sh\b/.test(shebang)) return 'bash';
+  if (/\bpython/.test(shebang)) return 'python';
+  if (/\bnode\b/.test(shebang)) return 'javascript';
+  if (/\bruby\b/.test(shebang)) return 'ruby';
+  return undefined;
+};
+
+/**
+ * Build a folder tree from paths relative to the skill folder
+ * Directories come before files, each sorted by name.
+ */
+export const buildSkillFileTree = (paths: string[]): SkillFileNode[] => {
+  const root: SkillFileNode = { name: '', path: '', children: [] };
+
+  for (const path of paths) {
+    let node = root;
+    const parts = path.split('/');
+    parts.forEach((part, index) => {
+      const isFile = index === parts.length - 1;
+      const childPath = parts.slice(0, index + 1).join('/');
+      let child = node.children?.find((c) => c.name === part && !c.children === isFile);
+      if (!child) {
+        child = isFile ? { name: part, path: childPath } : { name: part, path: childPath, children: [] };
+        node.children?.push(child);
+      }
+      node = child;
+    });
+  }
+
+  const sortTree = (nodes: SkillFileNode[]): SkillFileNode[] =>
+    nodes
+      .map((node) => (node.children ? { ...node, children: sortTree(node.children) } : node))
+      .sort(
+        (a, b) => Number(!a.children) - Number(!b.children) || a.name.localeCompare(b.name)
+      );
+
+  return sortTree(root.children ?? []);
+};
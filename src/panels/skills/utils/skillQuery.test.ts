@@ -0,0 +1,162 @@
+import { describe, expect, test } from 'bun:test';
+import type { Skill } from '../hooks/useSkillsData';
+import {
+  applySkillQueryFilters,
+  applySkillQuerySuggestion,
+  getSkillQuerySuggestions,
+  parseSkillQuery,
+  toggleSkillQueryFilters,
+} from './skillQuery';
+
+const makeSkill = (name: string, overrides: Partial<Skill> = {}): Skill => ({
+  id: `.claude/skills/${name}/SKILL.md`,
+  name,
+  path: `.claude/skills/${name}/SKILL.md`,
+  skillFolderPath: `.claude/skills/${name}`,
+  hasScripts: false,
+  hasReferences: false,
+  hasAssets: false,
+  source: 'project-claude',
+  priority: 1,
+  ...overrides,
+});
+
+const skills = [
+  makeSkill('pdf', {
+    hasScripts: true,
+    allowedTools: ['Read', 'Bash(pdftk:*)'],
+    metadata: { owner: 'anthropics', repo: 'skills' },
+  }),
+  makeSkill('brand', { source: 'global-claude', allowedTools: ['Read'] }),
+  makeSkill('web', {
+    path: 'packages/web app/.claude/skills/web/SKILL.md',
+    skillFolderPath: 'packages/web app/.claude/skills/web',
+    origin: { kind: 'package', label: '@acme/web', path: 'packages/web app' },
+  }),
+];
+
+const names = (list: Skill[]) => list.map((skill) => skill.name);
+
+describe('parseSkillQuery', () => {
+  test('separates qualifiers from free text', () => {
+    expect(parseSkillQuery('fill source:project-claude forms -has:scripts')).toEqual({
+      text: 'fill forms',
+      filters: [
+        { qualifier: 'source', value: 'project-claude', negated: false },
+        { qualifier: 'has', value: 'scripts', negated: true },
+      ],
+    });
+  });
+
+  test('keeps quoted values together', () => {
+    expect(parseSkillQuery('path:"web app" pdf').filters).toEqual([
+      { qualifier: 'path', value: 'web app', negated: false },
+    ]);
+  });
+
+  test('reads qualifier names case-insensitively', () => {
+    expect(parseSkillQuery('Tool:Bash').filters).toEqual([
+      { qualifier: 'tool', value: 'Bash', negated: false },
+    ]);
+  });
+
+  test('searches unknown qualifiers and bare colons as text', () => {
+    expect(parseSkillQuery('color:red has: http://x')).toEqual({
+      text: 'color:red has: http://x',
+      filters: [],
+    });
+  });
+});
+
+describe('applySkillQueryFilters', () => {
+  const filter = (query: string) => names(applySkillQueryFilters(skills, parseSkillQuery(query).filters));
+
+  test('keeps every skill without filters', () => {
+    expect(filter('anything')).toEqual(['pdf', 'brand', 'web']);
+  });
+
+  test('matches sources, owners and repositories exactly', () => {
+    expect(filter('source:GLOBAL-CLAUDE')).toEqual(['brand']);
+    expect(filter('source:global')).toEqual([]);
+    expect(filter('owner:anthropics repo:skills')).toEqual(['pdf']);
+  });
+
+  test('matches tools without their arguments', () => {
+    expect(filter('tool:bash')).toEqual(['pdf']);
+    expect(filter('tool:read')).toEqual(['pdf', 'brand']);
+  });
+
+  test('matches has: values', () => {
+    expect(filter('has:scripts')).toEqual(['pdf']);
+    expect(filter('has:github')).toEqual(['pdf']);
+    expect(filter('has:nonsense')).toEqual([]);
+  });
+
+  test('matches parts of paths and origins', () => {
+    expect(filter('path:"web app"')).toEqual(['web']);
+    expect(filter('origin:@acme')).toEqual(['web']);
+  });
+
+  test('negates filters with a leading dash', () => {
+    expect(filter('-has:scripts -source:global-claude')).toEqual(['web']);
+  });
+});
+
+describe('getSkillQuerySuggestions', () => {
+  test('suggests qualifier names for a partial word', () => {
+    expect(getSkillQuerySuggestions('pdf -o', skills).map((s) => s.insertText)).toEqual([
+      '-owner:',
+      '-origin:',
+    ]);
+  });
+
+  test('suggests values seen in the loaded skills', () => {
+    expect(getSkillQuerySuggestions('source:', skills).map((s) => s.label)).toEqual([
+      'global-claude',
+      'project-claude',
+    ]);
+    expect(getSkillQuerySuggestions('tool:B', skills).map((s) => s.insertText)).toEqual([
+      'tool:Bash ',
+    ]);
+  });
+
+  test('quotes suggested values with spaces', () => {
+    expect(getSkillQuerySuggestions('path:packages', skills).map((s) => s.insertText)).toEqual([
+      'path:"packages/web app/.claude/skills/web" ',
+    ]);
+  });
+
+  test('suggests nothing once the word is finished or complete', () => {
+    expect(getSkillQuerySuggestions('source:', [])).toEqual([]);
+    expect(getSkillQuerySuggestions('tool:Bash ', skills)).toEqual([]);
+    expect(getSkillQuerySuggestions('tool:bash', skills)).toEqual([]);
+    expect(getSkillQuerySuggestions('color:', skills)).toEqual([]);
+  });
+});
+
+describe('applySkillQuerySuggestion', () => {
+  test('replaces the word being typed', () => {
+    const [suggestion] = getSkillQuerySuggestions('pdf tool:B', skills);
+
+    expect(applySkillQuerySuggestion('pdf tool:B', suggestion)).toBe('pdf tool:Bash ');
+  });
+});
+
+describe('toggleSkillQueryFilters', () => {
+  const scripts = { qualifier: 'has', value: 'scripts', negated: false } as const;
+  const globalSource = { qualifier: 'source', value: 'global-claude', negated: false } as const;
+
+  test('adds filters and keeps the free text', () => {
+    expect(toggleSkillQueryFilters('pdf', [scripts])).toBe('pdf has:scripts');
+  });
+
+  test('removes filters the query already has', () => {
+    expect(toggleSkillQueryFilters('pdf has:scripts', [scripts])).toBe('pdf');
+  });
+
+  test('replaces the previous value of a single-valued qualifier', () => {
+    expect(toggleSkillQueryFilters('source:project-claude has:assets', [globalSource])).toBe(
+      'has:assets source:global-claude'
+    );
+  });
+});
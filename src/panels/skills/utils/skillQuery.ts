@@ -0,0 +1,273 @@
+/**
+ * Skills search query syntax
+ *
+ * Besides free text (matched fuzzily, see fuzzySearch), the search box accepts
+ * field qualifiers that narrow the list before ranking:
+ *
+ *   source:global-claude  has:scripts  owner:anthropics  repo:skills
+ *   tool:Bash  path:packages/web  origin:my-plugin  -source:project-other
+ *
+ * A leading `-` negates a qualifier. Values containing spaces can be quoted
+ * (`path:"my skills"`). Unknown qualifiers are searched as plain text.
+ */
+
+import type { Skill } from '../hooks/useSkillsData';
+import { getSkillOrigin } from './origin';
+import { getSkillRepo } from './sortAndGroup';
+
+export type SkillQualifier = 'source' | 'has' | 'owner' | 'repo' | 'tool' | 'path' | 'origin';
+
+export interface SkillQueryFilter {
+  qualifier: SkillQualifier;
+  value: string;
+  negated: boolean;
+}
+
+export interface ParsedSkillQuery {
+  // Free text left after removing qualifiers
+  text: string;
+  filters: SkillQueryFilter[];
+}
+
+export const SKILL_QUALIFIERS: Record<SkillQualifier, string> = {
+  source: 'Discovery root the skill was found under',
+  has: 'Skills that ship scripts, references, assets, metadata or diagnostics, or came from GitHub',
+  owner: 'GitHub owner the skill was installed from',
+  repo: 'GitHub repository the skill was installed from',
+  tool: 'Tool listed in allowed-tools',
+  path: 'Part of the SKILL.md path',
+  origin: 'Plugin or package the skill ships with',
+};
+
+const HAS_VALUES = ['scripts', 'references', 'assets', 'metadata', 'diagnostics', 'github'] as const;
+
+// A skill has one value for these, so a new filter replaces the old one
+const SINGLE_VALUE_QUALIFIERS: SkillQualifier[] = ['source', 'owner', 'repo', 'origin'];
+
+const isQualifier = (name: string): name is SkillQualifier =>
+  Object.prototype.hasOwnProperty.call(SKILL_QUALIFIERS, name);
+
+/**
+ * Helper function to split a query into words, keeping quoted values together
+ */
+const tokenize = (input: string): string[] =>
+  input.match(/(?:[^\s"]+|"[^"]*"?)+/g) ?? [];
+
+const unquote = (value: string): string => value.replace(/^"|"$/g, '');
+
+/**
+ * Split a search query into qualifier filters and free text
+ */
+export const parseSkillQuery = (input: string): ParsedSkillQuery => {
+  const filters: SkillQueryFilter[] = [];
+  const text: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const match = token.match(/^(-?)([a-z]+):(.+)$/i);
+    const qualifier = match?.[2].toLowerCase();
+    if (match && qualifier && isQualifier(qualifier)) {
+      filters.push({ qualifier, value: unquote(match[3]), negated: match[1] === '-' });
+    } else {
+      text.push(token);
+    }
+  }
+
+  return { text: text.join(' '), filters };
+};
+
+/**
+ * Helper function to strip arguments from an allowed-tools entry (`Bash(git:*)` -> `Bash`)
+ */
+export const getToolName = (tool: string): string => tool.replace(/\(.*$/, '');
+
+const includesIgnoreCase = (text: string | undefined, value: string): boolean =>
+  !!text && text.toLowerCase().includes(value.toLowerCase());
+
+const equalsIgnoreCase = (text: string | undefined, value: string): boolean =>
+  !!text && text.toLowerCase() === value.toLowerCase();
+
+const matchesFilter = (skill: Skill, { qualifier, value }: SkillQueryFilter): boolean => {
+  switch (qualifier) {
+    case 'source':
+      return equalsIgnoreCase(skill.source, value);
+    case 'has':
+      switch (value.toLowerCase()) {
+        case 'scripts':
+          return skill.hasScripts;
+        case 'references':
+          return skill.hasReferences;
+        case 'assets':
+          return skill.hasAssets;
+        case 'metadata':
+          return !!skill.metadata;
+        case 'diagnostics':
+          return (skill.diagnostics?.length ?? 0) > 0;
+        case 'github':
+          return !!getSkillRepo(skill);
+        default:
+          return false;
+      }
+    case 'owner':
+      return equalsIgnoreCase(skill.metadata?.owner, value);
+    case 'repo':
+      return equalsIgnoreCase(skill.metadata?.repo, value);
+    case 'tool':
+      return (skill.allowedTools ?? []).some((tool) => equalsIgnoreCase(getToolName(tool), value));
+    case 'path':
+      return includesIgnoreCase(skill.path, value);
+    case 'origin': {
+      const origin = getSkillOrigin(skill);
+      return includesIgnoreCase(origin.label, value) || includesIgnoreCase(origin.path, value);
+    }
+  }
+};
+
+/**
+ * Keep the skills that satisfy every qualifier filter
+ */
+export const applySkillQueryFilters = (skills: Skill[], filters: SkillQueryFilter[]): Skill[] =>
+  filters.length === 0
+    ? skills
+    : skills.filter((skill) =>
+        filters.every((filter) => matchesFilter(skill, filter) !== filter.negated)
+      );
+
+/**
+ * Helper function to collect the values a qualifier takes across loaded skills
+ */
+const getQualifierValues = (qualifier: SkillQualifier, skills: Skill[]): string[] => {
+  const values = new Set<string>();
+  const add = (value: string | undefined) => value && values.add(value);
+
+  for (const skill of skills) {
+    switch (qualifier) {
+      case 'source':
+        add(skill.source);
+        break;
+      case 'owner':
+        add(skill.metadata?.owner);
+        break;
+      case 'repo':
+        add(skill.metadata?.repo);
+        break;
+      case 'tool':
+        skill.allowedTools?.forEach((tool) => add(getToolName(tool)));
+        break;
+      case 'path':
+        add(skill.skillFolderPath);
+        break;
+      case 'origin': {
+        const origin = getSkillOrigin(skill);
+        if (origin.kind !== 'root') add(origin.label);
+        break;
+      }
+      case 'has':
+        HAS_VALUES.forEach(add);
+        break;
+    }
+  }
+
+  return [...values].sort((a, b) => a.localeCompare(b));
+};
+
+export interface SkillQuerySuggestion {
+  // Text shown in the dropdown
+  label: string;
+  // Replaces the word being typed
+  insertText: string;
+  description?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string): string => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Suggest qualifier names, or values for the qualifier being typed, for the
+ * last word of the query
+ */
+export const getSkillQuerySuggestions = (
+  input: string,
+  skills: Skill[]
+): SkillQuerySuggestion[] => {
+  // Only complete a word that is still being typed
+  if (!input || /\s$/.test(input)) return [];
+  const word = tokenize(input).pop() ?? '';
+  const negation = word.startsWith('-') ? '-' : '';
+  const body = word.slice(negation.length);
+  const colon = body.indexOf(':');
+
+  if (colon === -1) {
+    const prefix = body.toLowerCase();
+    return (Object.keys(SKILL_QUALIFIERS) as SkillQualifier[])
+      .filter((qualifier) => qualifier.startsWith(prefix) && qualifier !== prefix)
+      .map((qualifier) => ({
+        label: `${negation}${qualifier}:`,
+        insertText: `${negation}${qualifier}:`,
+        description: SKILL_QUALIFIERS[qualifier],
+      }));
+  }
+
+  const qualifier = body.slice(0, colon).toLowerCase();
+  if (!isQualifier(qualifier)) return [];
+  const prefix = unquote(body.slice(colon + 1)).toLowerCase();
+
+  return getQualifierValues(qualifier, skills)
+    .filter((value) => value.toLowerCase().startsWith(prefix) && value.toLowerCase() !== prefix)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((value) => ({
+      label: value,
+      insertText: `${negation}${qualifier}:${quoteIfNeeded(value)} `,
+    }));
+};
+
+/**
+ * Replace the word being typed with an accepted suggestion
+ */
+export const applySkillQuerySuggestion = (
+  input: string,
+  suggestion: SkillQuerySuggestion
+): string => {
+  const word = tokenize(input).pop() ?? '';
+  return input.slice(0, input.length - word.length) + suggestion.insertText;
+};
+
+const formatFilter = ({ qualifier, value, negated }: SkillQueryFilter): string =>
+  `${negated ? '-' : ''}${qualifier}:${quoteIfNeeded(value)}`;
+
+const sameFilter = (a: SkillQueryFilter, b: SkillQueryFilter): boolean =>
+  a.qualifier === b.qualifier && a.value.toLowerCase() === b.value.toLowerCase();
+
+/**
+ * Whether a query already applies all the given filters
+ */
+export const hasSkillQueryFilters = (input: string, filters: SkillQueryFilter[]): boolean => {
+  const active = parseSkillQuery(input).filters;
+  return filters.every((filter) =>
+    active.some((existing) => sameFilter(existing, filter) && existing.negated === filter.negated)
+  );
+};
+
+/**
+ * Add filters to a query, or remove them if the query already has all of them
+ * Used by controls outside the search box (e.g. the inventory summary) so
+ * clicking the same count twice clears the filter again. Free text is kept.
+ */
+export const toggleSkillQueryFilters = (input: string, filters: SkillQueryFilter[]): string => {
+  const isActive = hasSkillQueryFilters(input, filters);
+
+  const remaining = tokenize(input).filter((token) => {
+    const existing = parseSkillQuery(token).filters[0];
+    if (!existing) return true;
+    if (filters.some((filter) => sameFilter(existing, filter))) return false;
+    // Adding a single-valued qualifier replaces the previous value
+    return (
+      isActive ||
+      existing.negated ||
+      !SINGLE_VALUE_QUALIFIERS.includes(existing.qualifier) ||
+      !filters.some((filter) => filter.qualifier === existing.qualifier)
+    );
+  });
+
+  return [...remaining, ...(isActive ? [] : filters.map(formatFilter))].join(' ');
+};
@@ -0,0 +1,185 @@
+/**
+ * Sorting and grouping of the skills list
+ */
+
+import type { Skill } from '../hooks/useSkillsData';
+import { findSkillRoot, type SkillDiscoveryRoot } from './discoveryRoots';
+import { getOriginKey, groupSkillsByOrigin, type SkillOrigin } from './origin';
+
+export type SkillSortKey = 'relevance' | 'name' | 'priority' | 'installed' | 'repo' | 'files';
+
+export type SkillGroupBy = 'none' | 'source' | 'origin' | 'repo';
+
+export type SkillViewMode = 'grid' | 'compact' | 'table';
+
+export const SKILL_SORT_OPTIONS: { value: SkillSortKey; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'name', label: 'Name' },
+  { value: 'priority', label: 'Source priority' },
+  { value: 'installed', label: 'Recently installed' },
+  { value: 'repo', label: 'Owner / repo' },
+  { value: 'files', label: 'Most files' },
+];
+
+export const SKILL_GROUP_OPTIONS: { value: SkillGroupBy; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'source', label: 'Source' },
+  { value: 'origin', label: 'Origin folder' },
+  { value: 'repo', label: 'GitHub repo' },
+];
+
+export const SKILL_VIEW_OPTIONS: { value: SkillViewMode; label: string }[] = [
+  { value: 'grid', label: 'Cards' },
+  { value: 'compact', label: 'Compact list' },
+  { value: 'table', label: 'Table' },
+];
+
+const byName = (a: Skill, b: Skill): number => a.name.localeCompare(b.name);
+
+const getInstalledTime = (skill: Skill): number => {
+  const time = skill.metadata?.installedAt ? Date.parse(skill.metadata.installedAt) : NaN;
+  return Number.isNaN(time) ? -Infinity : time;
+};
+
+export const getSkillRepo = (skill: Skill): string | undefined =>
+  skill.metadata?.owner && skill.metadata?.repo
+    ? `${skill.metadata.owner}/${skill.metadata.repo}`
+    : undefined;
+
+// SKILL.md plus every bundled file
+export const getSkillFileCount = (skill: Skill): number => 1 + (skill.folderFiles?.length ?? 0);
+
+/**
+ * Sort skills without mutating the input. 'relevance' keeps the incoming order
+ * (search ranking, or load order without a query); other keys break ties by name.
+ */
+export const sortSkills = (skills: Skill[], sortKey: SkillSortKey): Skill[] => {
+  switch (sortKey) {
+    case 'relevance':
+      return skills;
+    case 'name':
+      return [...skills].sort(byName);
+    case 'priority':
+      return [...skills].sort((a, b) => a.priority - b.priority || byName(a, b));
+    case 'installed':
+      return [...skills].sort(
+        (a, b) => getInstalledTime(b) - getInstalledTime(a) || byName(a, b)
+      );
+    case 'repo':
+      // Skills not installed from GitHub go last
+      return [...skills].sort((a, b) => {
+        const repoA = getSkillRepo(a);
+        const repoB = getSkillRepo(b);
+        if (repoA === repoB) return byName(a, b);
+        if (!repoA) return 1;
+        if (!repoB) return -1;
+        return repoA.localeCompare(repoB);
+      });
+    case 'files':
+      return [...skills].sort((a, b) => getSkillFileCount(b) - getSkillFileCount(a) || byName(a, b));
+  }
+};
+
+export type SkillTableColumn = 'name' | 'source' | 'scripts' | 'references' | 'assets' | 'path';
+
+export interface SkillTableSort {
+  column: SkillTableColumn;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Sort skills by a table column header
+ */
+export const sortSkillsByColumn = (
+  skills: Skill[],
+  { column, direction }: SkillTableSort,
+  roots: SkillDiscoveryRoot[]
+): Skill[] => {
+  const compare = (a: Skill, b: Skill): number => {
+    switch (column) {
+      case 'name':
+        return byName(a, b);
+      case 'source':
+        return findSkillRoot(roots, a.source).label.localeCompare(findSkillRoot(roots, b.source).label);
+      case 'scripts':
+        return (a.scriptFiles?.length ?? 0) - (b.scriptFiles?.length ?? 0);
+      case 'references':
+        return (a.referenceFiles?.length ?? 0) - (b.referenceFiles?.length ?? 0);
+      case 'assets':
+        return (a.assetFiles?.length ?? 0) - (b.assetFiles?.length ?? 0);
+      case 'path':
+        return a.path.localeCompare(b.path);
+    }
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...skills].sort((a, b) => sign * compare(a, b) || byName(a, b));
+};
+
+export type SkillGroup =
+  | { kind: 'all'; key: string; label: string; skills: Skill[] }
+  | { kind: 'source'; key: string; label: string; skills: Skill[]; root: SkillDiscoveryRoot }
+  | { kind: 'origin'; key: string; label: string; skills: Skill[]; origin: SkillOrigin }
+  | { kind: 'repo'; key: string; label: string; skills: Skill[]; repo?: string };
+
+/**
+ * Split sorted skills into groups. Skill order inside each group is preserved;
+ * an ungrouped list is a single group.
+ */
+export const groupSkills = (
+  skills: Skill[],
+  groupBy: SkillGroupBy,
+  roots: SkillDiscoveryRoot[]
+): SkillGroup[] => {
+  switch (groupBy) {
+    case 'none':
+      return [{ kind: 'all', key: 'all', label: 'All skills', skills }];
+
+    case 'origin':
+      return groupSkillsByOrigin(skills).map((group) => ({
+        kind: 'origin',
+        key: `origin:${getOriginKey(group.origin)}`,
+        label: group.origin.label,
+        skills: group.skills,
+        origin: group.origin,
+      }));
+
+    case 'source': {
+      const groups = new Map<string, Extract<SkillGroup, { kind: 'source' }>>();
+      for (const skill of skills) {
+        const root = findSkillRoot(roots, skill.source);
+        const group = groups.get(skill.source) ?? {
+          kind: 'source',
+          key: `source:${skill.source}`,
+          label: root.label,
+          skills: [],
+          root,
+        };
+        group.skills.push(skill);
+        groups.set(skill.source, group);
+      }
+      return [...groups.values()].sort((a, b) => a.root.precedence - b.root.precedence);
+    }
+
+    case 'repo': {
+      const groups = new Map<string, Extract<SkillGroup, { kind: 'repo' }>>();
+      for (const skill of skills) {
+        const repo = getSkillRepo(skill);
+        const key = repo ?? '';
+        const group = groups.get(key) ?? {
+          kind: 'repo',
+          key: `repo:${key}`,
+          label: repo ?? 'Not installed from GitHub',
+          skills: [],
+          repo,
+        };
+        group.skills.push(skill);
+        groups.set(key, group);
+      }
+      return [...groups.values()].sort((a, b) => {
+        if (!a.repo) return 1;
+        if (!b.repo) return -1;
+        return a.repo.localeCompare(b.repo);
+      });
+    }
+  }
+};
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { CONFLICT_MARKERS, hasConflictMarkers, mergeThreeWay } from './threeWayMerge';
+
+const BASE = ['# PDF', '', 'Fill forms.', '', 'Merge files.'].join('\n');
+
+describe('mergeThreeWay', () => {
+  test('keeps edits only one side made', () => {
+    const ours = BASE.replace('Fill forms.', 'Fill and sign forms.');
+    const theirs = BASE.replace('Merge files.', 'Merge and split files.');
+
+    expect(mergeThreeWay(BASE, ours, theirs)).toEqual({
+      merged: ['# PDF', '', 'Fill and sign forms.', '', 'Merge and split files.'].join('\n'),
+      conflicts: 0,
+    });
+  });
+
+  test('takes the other side when one side is unchanged', () => {
+    const edited = `${BASE}\n\nSplit pages.`;
+
+    expect(mergeThreeWay(BASE, BASE, edited).merged).toBe(edited);
+    expect(mergeThreeWay(BASE, edited, BASE).merged).toBe(edited);
+  });
+
+  test('accepts the same edit made on both sides', () => {
+    const edited = BASE.replace('# PDF', '# PDF tools');
+
+    expect(mergeThreeWay(BASE, edited, edited)).toEqual({ merged: edited, conflicts: 0 });
+  });
+
+  test('keeps lines added and removed around untouched ones', () => {
+    const ours = BASE.replace('\n\nMerge files.', '');
+    const theirs = `Intro.\n${BASE}`;
+
+    expect(mergeThreeWay(BASE, ours, theirs).merged).toBe(
+      ['Intro.', '# PDF', '', 'Fill forms.'].join('\n')
+    );
+  });
+
+  test('marks regions both sides changed differently', () => {
+    const ours = BASE.replace('Fill forms.', 'Fill PDF forms.');
+    const theirs = BASE.replace('Fill forms.', 'Fill web forms.');
+    const result = mergeThreeWay(BASE, ours, theirs);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.merged).toBe(
+      [
+        '# PDF',
+        '',
+        CONFLICT_MARKERS.ours,
+        'Fill PDF forms.',
+        CONFLICT_MARKERS.separator,
+        'Fill web forms.',
+        CONFLICT_MARKERS.theirs,
+        '',
+        'Merge files.',
+      ].join('\n')
+    );
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  test('finds the markers mergeThreeWay writes', () => {
+    const { merged } = mergeThreeWay('a', 'b', 'c');
+
+    expect(hasConflictMarkers(merged)).toBe(true);
+  });
+
+  test('ignores marker-like text inside a line', () => {
+    expect(hasConflictMarkers(`Use ${CONFLICT_MARKERS.ours} in examples\n=======`)).toBe(false);
+  });
+});
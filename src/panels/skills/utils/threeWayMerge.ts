@@ -0,0 +1,114 @@
+/**
+ * Line-based three-way merge (diff3) for saving edited skill files
+ *
+ * Both versions are diffed against their common base. Regions only one side
+ * changed merge cleanly; regions both sides changed differently become
+ * Git-style conflict markers for the user to resolve in the editor.
+ */
+
+export interface ThreeWayMergeResult {
+  merged: string;
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  ours: '<<<<<<< yours',
+  separator: '=======',
+  theirs: '>>>>>>> on disk',
+};
+
+/**
+ * Helper function to map each base line to its line in the other version
+ * Uses the longest common subsequence; unmatched base lines map to -1.
+ */
+const matchLines = (base: string[], other: string[]): number[] => {
+  const rows = base.length + 1;
+  const cols = other.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        base[i] === other[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(base.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < other.length) {
+    if (base[i] === other[j]) {
+      matches[i] = j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+};
+
+const sameLines = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Merge two edits of the same base text
+ */
+export const mergeThreeWay = (base: string, ours: string, theirs: string): ThreeWayMergeResult => {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+  const ourMatches = matchLines(baseLines, ourLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let baseStart = 0;
+  let ourStart = 0;
+  let theirStart = 0;
+
+  // Merge the region between the previous anchor and the next one
+  const mergeRegion = (baseEnd: number, ourEnd: number, theirEnd: number) => {
+    const baseChunk = baseLines.slice(baseStart, baseEnd);
+    const ourChunk = ourLines.slice(ourStart, ourEnd);
+    const theirChunk = theirLines.slice(theirStart, theirEnd);
+
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      merged.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      merged.push(...ourChunk);
+    } else {
+      conflicts++;
+      merged.push(
+        CONFLICT_MARKERS.ours,
+        ...ourChunk,
+        CONFLICT_MARKERS.separator,
+        ...theirChunk,
+        CONFLICT_MARKERS.theirs
+      );
+    }
+  };
+
+  // Anchors are base lines both versions kept
+  for (let i = 0; i < baseLines.length; i++) {
+    if (ourMatches[i] === -1 || theirMatches[i] === -1) continue;
+    mergeRegion(i, ourMatches[i], theirMatches[i]);
+    merged.push(baseLines[i]);
+    baseStart = i + 1;
+    ourStart = ourMatches[i] + 1;
+    theirStart = theirMatches[i] + 1;
+  }
+  mergeRegion(baseLines.length, ourLines.length, theirLines.length);
+
+  return { merged: merged.join('\n'), conflicts };
+};
+
+/**
+ * Whether text still contains unresolved conflict markers
+ */
+export const hasConflictMarkers = (text: string): boolean =>
+  text.split('\n').some((line) => line === CONFLICT_MARKERS.ours || line === CONFLICT_MARKERS.theirs);
@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test';
+import { parseFrontmatter } from './frontmatter';
+import {
+  MAX_DESCRIPTION_LENGTH,
+  countDiagnostics,
+  isKnownTool,
+  isValidSkillName,
+  validateSkill,
+} from './validateSkill';
+
+const PATH = '.claude/skills/pdf-tools/SKILL.md';
+
+const lint = (content: string, folderFiles: string[] = [], folderName = 'pdf-tools') =>
+  validateSkill({ path: PATH, content, parsed: parseFrontmatter(content), folderName, folderFiles });
+
+const skillMd = (frontmatter: string[], body = '# PDF tools') =>
+  ['---', ...frontmatter, '---', body].join('\n');
+
+describe('validateSkill', () => {
+  test('reports nothing for a clean skill', () => {
+    const content = skillMd(
+      ['name: pdf-tools', 'description: Fill PDF forms', 'allowed-tools: Read Bash(pdftk:*)'],
+      'See [the form guide](references/forms.md).'
+    );
+
+    expect(lint(content, ['references/forms.md'])).toEqual([]);
+  });
+
+  test('reports a missing frontmatter block on line 1', () => {
+    expect(lint('# PDF tools')).toEqual([
+      {
+        severity: 'error',
+        code: 'missing-frontmatter',
+        message:
+          'SKILL.md has no YAML frontmatter; agents need `name` and `description` to load it',
+        file: PATH,
+        line: 1,
+      },
+    ]);
+  });
+
+  test('reports frontmatter that cannot be parsed', () => {
+    const [diagnostic] = lint('---\nname: pdf-tools\n');
+
+    expect(diagnostic.code).toBe('invalid-frontmatter');
+    expect(diagnostic.message).toBe('Frontmatter block is never closed with ---');
+  });
+
+  test('reports missing name and description', () => {
+    const diagnostics = lint(skillMd(['license: MIT']));
+
+    expect(diagnostics.map((d) => d.code)).toEqual(['missing-name', 'missing-description']);
+    expect(diagnostics.every((d) => d.severity === 'error' && d.line === 1)).toBe(true);
+  });
+
+  test('reports an invalid name and a folder mismatch on the name line', () => {
+    const diagnostics = lint(skillMd(['description: Fill PDF forms', 'name: PDF_Tools']));
+
+    expect(diagnostics.map((d) => [d.code, d.line])).toEqual([
+      ['invalid-name', 3],
+      ['name-mismatch', 3],
+    ]);
+  });
+
+  test('skips the folder check for standalone legacy files', () => {
+    const content = skillMd(['name: other-name', 'description: Fill PDF forms']);
+
+    expect(
+      validateSkill({ path: PATH, content, parsed: parseFrontmatter(content), folderFiles: [] })
+    ).toEqual([]);
+  });
+
+  test('warns about a description over the limit', () => {
+    const description = 'x'.repeat(MAX_DESCRIPTION_LENGTH + 1);
+    const diagnostics = lint(skillMd(['name: pdf-tools', `description: ${description}`]));
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: 'warning', code: 'description-too-long', line: 3 });
+  });
+
+  test('warns about each unknown tool', () => {
+    const diagnostics = lint(
+      skillMd(['name: pdf-tools', 'description: Fill PDF forms', 'allowed-tools: Read, Teleport, Fly'])
+    );
+
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Unknown tool "Teleport" in allowed-tools',
+      'Unknown tool "Fly" in allowed-tools',
+    ]);
+  });
+
+  test('reports broken links into skill folders with their line', () => {
+    const body = [
+      '# PDF tools',
+      '[ok](references/forms.md) [missing](scripts/fill.py)',
+      '[folder](assets) [elsewhere](docs/guide.md) [web](https://example.com/scripts/x)',
+      '```',
+      '[in a fence](references/nope.md)',
+      '```',
+      '[escaping](../other/references/x.md) [encoded](references/my%20notes.md#intro)',
+    ].join('\n');
+    const diagnostics = lint(skillMd(['name: pdf-tools', 'description: Fill PDF forms'], body), [
+      'references/forms.md',
+      'references/my notes.md',
+      'assets/logo.png',
+    ]);
+
+    expect(diagnostics.map((d) => [d.code, d.message, d.line])).toEqual([
+      ['broken-link', 'Linked file "scripts/fill.py" does not exist', 6],
+    ]);
+  });
+});
+
+describe('isValidSkillName', () => {
+  test('accepts lowercase words joined by single hyphens', () => {
+    expect(isValidSkillName('pdf-tools-2')).toBe(true);
+    expect(isValidSkillName('a'.repeat(64))).toBe(true);
+  });
+
+  test('rejects other names', () => {
+    expect(isValidSkillName('PDF')).toBe(false);
+    expect(isValidSkillName('pdf--tools')).toBe(false);
+    expect(isValidSkillName('-pdf')).toBe(false);
+    expect(isValidSkillName('a'.repeat(65))).toBe(false);
+  });
+});
+
+describe('isKnownTool', () => {
+  test('accepts known tools with arguments and MCP tools', () => {
+    expect(isKnownTool('Bash(git:*)')).toBe(true);
+    expect(isKnownTool('mcp__github__create_issue')).toBe(true);
+    expect(isKnownTool('Teleport')).toBe(false);
+  });
+});
+
+describe('countDiagnostics', () => {
+  test('counts errors and warnings', () => {
+    const diagnostics = lint(skillMd(['name: Bad Name', 'allowed-tools: Teleport']));
+
+    expect(countDiagnostics(diagnostics)).toEqual({ errors: 3, warnings: 1 });
+    expect(countDiagnostics()).toEqual({ errors: 0, warnings: 0 });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Skill validation engine
+ *
+ * Lints a SKILL.md file against the Agent Skills specification and reports
+ * per-skill diagnostics, so broken skills surface in the panel instead of
+ * when an agent fails to load them.
+ */
+
+import type { ParsedFrontmatter } from './frontmatter';
+
+export type SkillDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type SkillDiagnosticCode =
+  | 'missing-frontmatter'
+  | 'invalid-frontmatter'
+  | 'missing-name'
+  | 'invalid-name'
+  | 'name-mismatch'
+  | 'missing-description'
+  | 'description-too-long'
+  | 'broken-link'
+  | 'unknown-tool'
+  | 'invalid-metadata';
+
+export interface SkillDiagnostic {
+  severity: SkillDiagnosticSeverity;
+  code: SkillDiagnosticCode;
+  message: string;
+  // Path of the file the diagnostic applies to (same form as Skill.path)
+  file: string;
+  // 1-based line number, when the problem can be pinned to a line
+  line?: number;
+}
+
+export const MAX_NAME_LENGTH = 64;
+export const MAX_DESCRIPTION_LENGTH = 1024;
+
+const NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Whether a skill name follows the spec: lowercase letters, numbers and single hyphens
+ */
+export const isValidSkillName = (name: string): boolean =>
+  NAME_PATTERN.test(name) && name.length <= MAX_NAME_LENGTH;
+
+/**
+ * Tools an agent can be granted through `allowed-tools`.
+ * MCP tools (`mcp__server__tool`) are accepted by prefix.
+ */
+export const KNOWN_TOOLS = [
+  'Agent',
+  'AskUserQuestion',
+  'Bash',
+  'BashOutput',
+  'Edit',
+  'ExitPlanMode',
+  'Glob',
+  'Grep',
+  'KillShell',
+  'LS',
+  'MultiEdit',
+  'NotebookEdit',
+  'NotebookRead',
+  'Read',
+  'Skill',
+  'SlashCommand',
+  'Task',
+  'TodoWrite',
+  'WebFetch',
+  'WebSearch',
+  'Write',
+];
+
+// Folders whose files SKILL.md is expected to link to
+const LINKED_FOLDERS = ['references', 'scripts', 'assets'];
+
+const LINK_PATTERN = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^)]*["'])?\s*\)/g;
+
+interface ValidateSkillParams {
+  path: string;
+  content: string;
+  parsed: ParsedFrontmatter;
+  // Folder name the skill lives in (undefined for legacy standalone files)
+  folderName?: string;
+  // Paths of every file inside the skill folder, relative to that folder
+  folderFiles: string[];
+}
+
+/**
+ * Helper function to normalize a relative link target against the skill folder
+ * Returns null for links that leave the skill folder or aren't local files.
+ */
+const resolveLinkTarget = (target: string): string | null => {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#') || target.startsWith('/')) {
+    return null;
+  }
+
+  const withoutAnchor = target.split('#')[0].split('?')[0];
+  let decoded = withoutAnchor;
+  try {
+    decoded = decodeURI(withoutAnchor);
+  } catch {
+    // Keep the raw target if it isn't valid URI encoding
+  }
+
+  const segments: string[] = [];
+  for (const segment of decoded.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.length > 0 ? segments.join('/') : null;
+};
+
+/**
+ * Whether a single allowed-tools entry names a known tool, e.g. `Bash(git:*)`
+ */
+export const isKnownTool = (tool: string): boolean => {
+  const toolName = tool.replace(/\(.*\)$/, '');
+  return toolName.startsWith('mcp__') || KNOWN_TOOLS.includes(toolName);
+};
+
+/**
+ * Validate a skill and return its diagnostics (empty when the skill is clean)
+ */
+export const validateSkill = ({
+  path,
+  content,
+  parsed,
+  folderName,
+  folderFiles,
+}: ValidateSkillParams): SkillDiagnostic[] => {
+  const diagnostics: SkillDiagnostic[] = [];
+  const { frontmatter } = parsed;
+
+  const report = (
+    severity: SkillDiagnosticSeverity,
+    code: SkillDiagnosticCode,
+    message: string,
+    line?: number
+  ) => {
+    diagnostics.push({ severity, code, message, file: path, line });
+  };
+
+  if (!frontmatter) {
+    if (parsed.error) {
+      report('error', 'invalid-frontmatter', parsed.error, 1);
+    } else {
+      report(
+        'error',
+        'missing-frontmatter',
+        'SKILL.md has no YAML frontmatter; agents need `name` and `description` to load it',
+        1
+      );
+    }
+  } else {
+    const { name, description, allowedTools, lines } = frontmatter;
+
+    if (!name) {
+      report('error', 'missing-name', 'Frontmatter is missing `name`', lines.name ?? 1);
+    } else {
+      if (!isValidSkillName(name)) {
+        report(
+          'error',
+          'invalid-name',
+          `Name "${name}" must be lowercase letters, numbers and single hyphens, at most ${MAX_NAME_LENGTH} characters`,
+          lines.name
+        );
+      }
+      if (folderName && name !== folderName) {
+        report(
+          'error',
+          'name-mismatch',
+          `Name "${name}" does not match its folder "${folderName}"`,
+          lines.name
+        );
+      }
+    }
+
+    if (!description?.trim()) {
+      report(
+        'error',
+        'missing-description',
+        'Frontmatter is missing `description`; agents use it to decide when to load the skill',
+        lines.description ?? 1
+      );
+    } else if (description.length > MAX_DESCRIPTION_LENGTH) {
+      report(
+        'warning',
+        'description-too-long',
+        `Description is ${description.length} characters; the spec allows at most ${MAX_DESCRIPTION_LENGTH}`,
+        lines.description
+      );
+    }
+
+    for (const tool of allowedTools ?? []) {
+      if (!isKnownTool(tool)) {
+        report(
+          'warning',
+          'unknown-tool',
+          `Unknown tool "${tool}" in allowed-tools`,
+          lines['allowed-tools']
+        );
+      }
+    }
+  }
+
+  // Relative links into references/, scripts/ or assets/ must exist
+  const existingFiles = new Set(folderFiles);
+  const contentLines = content.replace(/\r\n?/g, '\n').split('\n');
+  let inCodeFence = false;
+
+  contentLines.forEach((lineText, index) => {
+    if (/^\s*(```|~~~)/.test(lineText)) {
+      inCodeFence = !inCodeFence;
+      return;
+    }
+    if (inCodeFence) return;
+
+    for (const match of lineText.matchAll(LINK_PATTERN)) {
+      const target = resolveLinkTarget(match[1]);
+      if (!target) continue;
+
+      const folder = target.split('/')[0];
+      if (!LINKED_FOLDERS.includes(folder)) continue;
+
+      const isFolder = folderFiles.some((file) => file.startsWith(`${target}/`));
+      if (!existingFiles.has(target) && !isFolder) {
+        report('error', 'broken-link', `Linked file "${target}" does not exist`, index + 1);
+      }
+    }
+  });
+
+  return diagnostics;
+};
+
+/**
+ * Helper function to count diagnostics by severity
+ */
+export const countDiagnostics = (diagnostics: SkillDiagnostic[] = []) => ({
+  errors: diagnostics.filter((d) => d.severity === 'error').length,
+  warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+});
@@ -0,0 +1,76 @@
+/**
+ * Storage for panel view state (search, filters, selection, view mode)
+ *
+ * Hosts can provide `adapters.storage` so state follows the user across
+ * machines or layouts; otherwise it falls back to `localStorage`. Either can
+ * be async or sync. State is stored per panel and per repository path.
+ */
+
+export interface PanelStateStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+}
+
+const KEY_PREFIX = 'skills-panels:view-state';
+
+/**
+ * Helper function to build the storage key for a panel in a repository
+ */
+export const getViewStateKey = (panelId: string, repoPath: string | undefined): string =>
+  `${KEY_PREFIX}:${panelId}:${repoPath ?? '__global__'}`;
+
+/**
+ * Helper function to get localStorage, which is missing outside the browser
+ * and throws in some sandboxed frames
+ */
+const getLocalStorage = (): PanelStateStorage | null => {
+  try {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolve the storage to use: the host adapter if it looks usable, else localStorage
+ */
+export const resolvePanelStateStorage = (hostStorage: unknown): PanelStateStorage | null => {
+  const candidate = hostStorage as Partial<PanelStateStorage> | undefined;
+  if (typeof candidate?.getItem === 'function' && typeof candidate?.setItem === 'function') {
+    return candidate as PanelStateStorage;
+  }
+  return getLocalStorage();
+};
+
+/**
+ * Read and parse saved state. Missing or corrupt entries read as null.
+ */
+export const readViewState = async <T>(
+  storage: PanelStateStorage,
+  key: string
+): Promise<Partial<T> | null> => {
+  try {
+    const raw = await storage.getItem(key);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? (parsed as Partial<T>) : null;
+  } catch (err) {
+    console.warn(`[viewStateStorage] Failed to read ${key}:`, err);
+    return null;
+  }
+};
+
+/**
+ * Serialize and save state; failures (quota, host errors) are logged and dropped
+ */
+export const writeViewState = async <T>(
+  storage: PanelStateStorage,
+  key: string,
+  state: T
+): Promise<void> => {
+  try {
+    await storage.setItem(key, JSON.stringify(state));
+  } catch (err) {
+    console.warn(`[viewStateStorage] Failed to write ${key}:`, err);
+  }
+};
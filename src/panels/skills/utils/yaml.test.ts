@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { parseYaml } from './yaml';
+
+describe('parseYaml', () => {
+  test('reads nested mappings and typed scalars', () => {
+    const yaml = [
+      '# Deployment template',
+      'name: web',
+      'replicas: 3',
+      'ratio: 0.5',
+      'enabled: true',
+      'owner: ~',
+      'version: "1.10"',
+      'server:',
+      '  host: localhost # default',
+      "  path: '/api'",
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      name: 'web',
+      replicas: 3,
+      ratio: 0.5,
+      enabled: true,
+      owner: null,
+      version: '1.10',
+      server: { host: 'localhost', path: '/api' },
+    });
+  });
+
+  test('reads sequences, including mappings inside items', () => {
+    const yaml = [
+      'steps:',
+      '  - checkout',
+      '  - name: build',
+      '    run: npm test',
+      '  -',
+      '    nested: true',
+      'tags:',
+      '- a',
+      '- b',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      steps: ['checkout', { name: 'build', run: 'npm test' }, { nested: true }],
+      tags: ['a', 'b'],
+    });
+  });
+
+  test('reads flow collections', () => {
+    expect(parseYaml('matrix: {node: [18, 20], os: "ubuntu, latest", cache: }')).toEqual({
+      matrix: { node: [18, 20], os: 'ubuntu, latest', cache: null },
+    });
+  });
+
+  test('reads block scalars and plain continuation lines', () => {
+    const yaml = [
+      'script: |',
+      '  npm ci',
+      '  npm test',
+      'summary: >',
+      '  one',
+      '  line',
+      'note: spans',
+      '  two lines',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      script: 'npm ci\nnpm test',
+      summary: 'one line',
+      note: 'spans two lines',
+    });
+  });
+
+  test('reads only the first document', () => {
+    expect(parseYaml('---\na: 1\n---\nb: 2\n')).toEqual({ a: 1 });
+  });
+
+  test('reads a top-level sequence and a lone scalar', () => {
+    expect(parseYaml('- 1\n- two\n')).toEqual([1, 'two']);
+    expect(parseYaml('just text')).toBe('just text');
+    expect(parseYaml('# only a comment\n')).toBeNull();
+  });
+
+  test('handles CRLF line endings', () => {
+    expect(parseYaml('a: 1\r\nb:\r\n  c: 2\r\n')).toEqual({ a: 1, b: { c: 2 } });
+  });
+
+  test('reports the line of unexpected indentation', () => {
+    expect(() => parseYaml('a:\n    b: 1\n  c: 2\n')).toThrow('Line 3: Unexpected indentation: c: 2');
+  });
+
+  test('reports the line of a malformed flow collection', () => {
+    expect(() => parseYaml('\nlist: [1, 2\nnext: 3\n')).toThrow('Line 2: Unclosed flow sequence');
+    expect(() => parseYaml('- {a: 1} b')).toThrow('Line 1: Unexpected "b" after flow collection');
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Minimal YAML document parser for previewing asset files
+ *
+ * Builds on the frontmatter helpers and covers what config templates use:
+ * nested block mappings and sequences (including `- key: value` items), flow
+ * collections, quoted and block scalars, comments, and null/boolean/number
+ * scalars. Anchors, tags and multiple documents are not supported; only the
+ * first document is read.
+ */
+
+import { indentOf, joinBlockScalar, unquote } from './frontmatter';
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+const KEY_PATTERN = /^("[^"]*"|'[^']*'|[^\s"'#-][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*)|\s*)$/;
+const BLOCK_SCALAR_PATTERN = /^([|>])[-+]?\d*\s*(#.*)?$/;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+const isIgnorable = (line: string): boolean => {
+  const trimmed = line.trim();
+  return trimmed === '' || trimmed.startsWith('#');
+};
+
+const isSequenceItem = (line: string): boolean => /^-(\s|$)/.test(line.trim());
+
+/**
+ * Helper function to type a plain or quoted scalar
+ */
+const toScalar = (raw: string): YamlValue => {
+  const trimmed = raw.trim();
+  if (/^["']/.test(trimmed)) return unquote(trimmed);
+
+  const value = unquote(trimmed);
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (NUMBER_PATTERN.test(value)) return Number(value);
+  return value;
+};
+
+/**
+ * Helper function to parse a flow collection such as `[a, {b: 1}]`
+ */
+const parseFlow = (text: string): YamlValue => {
+  let i = 0;
+
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  // Read up to the next top-level `,` or closing bracket
+  const readScalar = (stops: string): string => {
+    const start = i;
+    let quote: string | null = null;
+    while (i < text.length) {
+      const char = text[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (stops.includes(char)) {
+        break;
+      }
+      i++;
+    }
+    return text.slice(start, i).trim();
+  };
+
+  const parseValue = (): YamlValue => {
+    skipSpace();
+    if (text[i] === '[') {
+      i++;
+      const items: YamlValue[] = [];
+      skipSpace();
+      while (i < text.length && text[i] !== ']') {
+        items.push(parseValue());
+        skipSpace();
+        if (text[i] === ',') i++;
+        skipSpace();
+      }
+      if (text[i] !== ']') throw new Error('Unclosed flow sequence');
+      i++;
+      return items;
+    }
+    if (text[i] === '{') {
+      i++;
+      const map: Record<string, YamlValue> = {};
+      skipSpace();
+      while (i < text.length && text[i] !== '}') {
+        const key = unquote(readScalar(':,}'));
+        if (text[i] === ':') i++;
+        map[key] = text[i] === ',' || text[i] === '}' ? null : parseValue();
+        skipSpace();
+        if (text[i] === ',') i++;
+        skipSpace();
+      }
+      if (text[i] !== '}') throw new Error('Unclosed flow mapping');
+      i++;
+      return map;
+    }
+    return toScalar(readScalar(',]}'));
+  };
+
+  const value = parseValue();
+  skipSpace();
+  if (i < text.length && !text.slice(i).trimStart().startsWith('#')) {
+    throw new Error(`Unexpected "${text.slice(i)}" after flow collection`);
+  }
+  return value;
+};
+
+/**
+ * Parse the first document of a YAML file
+ * Throws with the offending line number when the input isn't understood.
+ */
+export const parseYaml = (content: string): YamlValue => {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+
+  let start = 0;
+  while (start < lines.length && isIgnorable(lines[start])) start++;
+  if (lines[start]?.trim() === '---') start++;
+  let end = lines.findIndex((line, index) => index >= start && /^(---|\.\.\.)\s*$/.test(line));
+  if (end === -1) end = lines.length;
+
+  // Sequence items holding a mapping are rewritten in place, so copy the slice
+  const docLines = lines.slice(start, end);
+  let pos = 0;
+
+  const fail = (message: string, index = pos): never => {
+    throw new Error(`Line ${start + index + 1}: ${message}`);
+  };
+
+  const nextContentLine = (): number => {
+    while (pos < docLines.length && isIgnorable(docLines[pos])) pos++;
+    return pos;
+  };
+
+  // Lines indented deeper than `indent`, for block scalars and continuations
+  const collectIndented = (indent: number): string[] => {
+    const collected: string[] = [];
+    while (
+      pos < docLines.length &&
+      (docLines[pos].trim() === '' || indentOf(docLines[pos]) > indent)
+    ) {
+      collected.push(docLines[pos]);
+      pos++;
+    }
+    while (collected.length > 0 && collected[collected.length - 1].trim() === '') {
+      collected.pop();
+    }
+    return collected;
+  };
+
+  // Value written after `key:` or `- ` on the line just consumed
+  const parseInlineValue = (raw: string, indent: number): YamlValue => {
+    const value = raw.trim();
+    const blockMatch = value.match(BLOCK_SCALAR_PATTERN);
+    if (blockMatch) return joinBlockScalar(collectIndented(indent), blockMatch[1]);
+    if (value.startsWith('[') || value.startsWith('{')) {
+      try {
+        return parseFlow(value);
+      } catch (err) {
+        return fail(err instanceof Error ? err.message : String(err), pos - 1);
+      }
+    }
+    // Plain scalars may continue on indented lines
+    const continuation = collectIndented(indent)
+      .filter((line) => !isIgnorable(line))
+      .map((line) => line.trim());
+    return toScalar([value, ...continuation].join(' '));
+  };
+
+  const parseNode = (parentIndent: number): YamlValue => {
+    if (nextContentLine() >= docLines.length) return null;
+    const line = docLines[pos];
+    const indent = indentOf(line);
+    if (indent <= parentIndent && !(indent === parentIndent && isSequenceItem(line))) {
+      return null;
+    }
+    if (isSequenceItem(line)) return parseSequence(indent);
+    if (KEY_PATTERN.test(line.trim())) return parseMapping(indent);
+    pos++;
+    return parseInlineValue(line.trim(), indent - 1);
+  };
+
+  const parseSequence = (indent: number): YamlValue[] => {
+    const items: YamlValue[] = [];
+    while (nextContentLine() < docLines.length) {
+      const line = docLines[pos];
+      if (indentOf(line) !== indent || !isSequenceItem(line)) break;
+
+      const rest = line.trim().replace(/^-\s*/, '');
+      if (!rest || rest.startsWith('#')) {
+        pos++;
+        items.push(parseNode(indent));
+      } else if (KEY_PATTERN.test(rest) && !/^["'[{]/.test(rest)) {
+        // `- key: value` starts a mapping aligned with its first key
+        const itemIndent = line.indexOf(rest);
+        docLines[pos] = `${' '.repeat(itemIndent)}${rest}`;
+        items.push(parseMapping(itemIndent));
+      } else {
+        pos++;
+        items.push(parseInlineValue(rest, indent));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, YamlValue> => {
+    const map: Record<string, YamlValue> = {};
+    while (nextContentLine() < docLines.length) {
+      const line = docLines[pos];
+      const lineIndent = indentOf(line);
+      if (lineIndent < indent) break;
+      if (lineIndent > indent) fail(`Unexpected indentation: ${line.trim()}`);
+      if (isSequenceItem(line)) break;
+
+      const match = line.trim().match(KEY_PATTERN);
+      if (!match) fail(`Unable to parse: ${line.trim()}`);
+      const [, rawKey, rawValue = ''] = match as RegExpMatchArray;
+      const key = unquote(rawKey);
+      pos++;
+
+      const value = rawValue.trim();
+      map[key] = !value || value.startsWith('#') ? parseNode(indent) : parseInlineValue(value, indent);
+    }
+    return map;
+  };
+
+  const value = parseNode(-1);
+  if (nextContentLine() < docLines.length) {
+    fail(`Unable to parse: ${docLines[pos].trim()}`);
+  }
+  return value;
+};
@@ -40,3 +40,16 @@ export type {
   JsonSchema,
   PanelEventCallTemplate,
 } from '@principal-ade/panel-framework-core';
+
+/**
+ * `editor:reveal-line` - host contract for jumping to a line in a file
+ * PanelActions has no line-aware open, so panels call `actions.openFile(filePath)`
+ * and then emit this event. Hosts with line navigation scroll the opened file
+ * to `line` (1-based); hosts without it leave the file open at the top.
+ */
+export const EDITOR_REVEAL_LINE_EVENT = 'editor:reveal-line';
+
+export interface EditorRevealLinePayload {
+  filePath: string;
+  line: number;
+}